@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { World, resetInnovationCounter } from '@living-bugs/sim-core';
-import type { WorldConfig } from '@living-bugs/sim-core';
+import type { WorldConfig, CreatureState } from '@living-bugs/sim-core';
 import { parseArgs, runSimulation, runGenerational, rankGenotypes, type RunOptions } from './run.js';
 
 function defaultOpts(overrides: Partial<RunOptions> = {}): RunOptions {
@@ -273,6 +273,47 @@ describe('headless runner', () => {
       expect(result.totalGenerations).toBe(3);
     });
 
+    it('passes learned weights on with Lamarckian and partial inheritance', () => {
+      const genomeWeights = (c: CreatureState): number[] => c.dna.brain.connectionGenes.map(g => g.weight);
+      const close = (a: number[], b: number[]): boolean =>
+        a.length === b.length && a.every((v, i) => Math.abs(v - b[i]) < 1e-6);
+
+      for (const [inheritance, share] of [['lamarckian', 1], ['partial', 0.5]] as const) {
+        const config = testConfig();
+        config.reproduction.inheritance = inheritance;
+        config.reproduction.inheritanceShare = 0.5;
+        config.reproduction.inheritanceNoise = 0;
+        // No mutation or births: the second generation starts from the inherited genomes as they are
+        config.reproduction.mutationRate = 0;
+        config.reproduction.energyThreshold = 1000;
+
+        // What each first-generation creature would pass on: its genome moved toward its learned weights
+        const passedOn: number[][] = [];
+        let learnedSomething = false;
+        let secondGen: CreatureState[] = [];
+        runGenerational(config, defaultOpts({ generations: 2, genTicks: 50 }), undefined, {
+          onCheckpoint: (world, generation) => {
+            if (generation === 2) {
+              secondGen = world.getCreatureStates();
+              return;
+            }
+            for (const c of world.getCreatureStates()) {
+              const genome = genomeWeights(c);
+              const learned = world.getRuntimeWeights(c.id)!;
+              if (!close(genome, learned)) learnedSomething = true;
+              passedOn.push(genome.map((w, i) => Math.max(-5, Math.min(5, w + (learned[i] - w) * share))));
+            }
+          },
+        });
+
+        expect(learnedSomething).toBe(true);
+        expect(secondGen.length).toBeGreaterThan(0);
+        for (const c of secondGen) {
+          expect(passedOn.some(weights => close(genomeWeights(c), weights))).toBe(true);
+        }
+      }
+    });
+
     it('calls onCheckpoint with the world', () => {
       const config = testConfig();
       let checkpointCount = 0;
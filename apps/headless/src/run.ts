@@ -2,6 +2,7 @@ import {
   World,
   mutateDNA,
   crossoverDNA,
+  inheritLearnedWeights,
   PRNG,
   assignSpecies,
   computeAdjustedFitness,
@@ -336,6 +337,7 @@ export function runGenerational(
             config.reproduction.mutationRate,
             config.reproduction.mutationStrength,
             rng,
+            { config },
           );
           childDNA.groupId = i % numGroups;
           if (childDNA.groupId === 1 || childDNA.groupId === 3) {
@@ -345,7 +347,7 @@ export function runGenerational(
         }
       } else {
         currentGenotypes = currentGenotypes.map(dna =>
-          mutateDNA(dna, config.reproduction.mutationRate * 2, config.reproduction.mutationStrength * 2, rng)
+          mutateDNA(dna, config.reproduction.mutationRate * 2, config.reproduction.mutationStrength * 2, rng, { config })
         );
       }
       const stats: GenerationStats = {
@@ -390,6 +392,9 @@ export function runGenerational(
     const targetPop = config.simulation.initialCreatures;
     const nextGenGenotypes: DNA[] = [];
     const crossoverRate = config.reproduction.crossoverRate ?? 0;
+    // Genome a parent passes on, with what it learned per `reproduction.inheritance`
+    const heritable = (c: CreatureFitness): DNA =>
+      inheritLearnedWeights(c.dna, world.getRuntimeWeights(c.creatureId) ?? [], config.reproduction, rng);
 
     for (let i = 0; i < targetPop; i++) {
       const parent = topCreatures[i % topCreatures.length];
@@ -424,15 +429,15 @@ export function runGenerational(
 
         if (mate) {
           childDNA = crossoverDNA(
-            parent.dna, mate.dna,
+            heritable(parent), heritable(mate),
             parent.fitness, mate.fitness,
             rng,
           );
         } else {
-          childDNA = JSON.parse(JSON.stringify(parent.dna));
+          childDNA = JSON.parse(JSON.stringify(heritable(parent)));
         }
       } else {
-        childDNA = JSON.parse(JSON.stringify(parent.dna));
+        childDNA = JSON.parse(JSON.stringify(heritable(parent)));
       }
 
       // Apply mutation
@@ -441,6 +446,7 @@ export function runGenerational(
         config.reproduction.mutationRate,
         config.reproduction.mutationStrength,
         rng,
+        { config, selfAdaptive: config.reproduction.selfAdaptive },
       );
 
       // Force group diversity: rotate groupIds across the population
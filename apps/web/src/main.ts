@@ -1,4 +1,4 @@
-import { World, createDefaultDNA, PRNG } from '@living-bugs/sim-core';
+import { World, createDefaultDNA, PRNG, describeSensor, describeActuator } from '@living-bugs/sim-core';
 import type { WorldConfig, CreatureState, TickMetrics, DNA } from '@living-bugs/sim-core';
 import { Renderer } from './renderer.js';
 import { saveSnapshot, loadSnapshot, clearSnapshot } from './storage.js';
@@ -62,12 +62,8 @@ function updateInspector(creature: CreatureState | null): void {
 
   panel.classList.add('open');
 
-  const sensors = creature.dna.sensors.map(s => {
-    if (s.type === 'rayVision') return `RayVision(${s.rayCount}r, fov=${s.fov.toFixed(1)})`;
-    return s.type;
-  }).join(', ');
-
-  const actuators = creature.dna.actuators.map(a => a.type).join(', ');
+  const sensors = creature.dna.sensors.map(describeSensor).join(', ');
+  const actuators = creature.dna.actuators.map(describeActuator).join(', ');
 
   const brainNodes = creature.dna.brain.nodeGenes.length;
   const brainConns = creature.dna.brain.connectionGenes.filter(c => c.enabled).length;
@@ -78,8 +74,15 @@ function updateInspector(creature: CreatureState | null): void {
   const actions = [
     creature.isEating ? 'EAT' : '',
     creature.isAttacking ? 'ATK' : '',
+    creature.sprint > 0 ? 'SPRINT' : '',
+    creature.shield > 0 ? 'SHLD' : '',
     creature.isDonating ? 'DON' : '',
+    creature.isBiting ? 'BITE' : '',
     creature.isBroadcasting ? 'BRD' : '',
+    creature.holding ? (creature.holding.kind === 'food' ? 'CARRY' : 'TOW') : '',
+    creature.isReproducing ? 'SPLIT' : '',
+    creature.gestation ? 'PREG' : '',
+    creature.infections.length > 0 ? 'SICK' : '',
   ].filter(Boolean).join(' ') || 'idle';
 
   content.innerHTML = `
@@ -92,8 +95,9 @@ function updateInspector(creature: CreatureState | null): void {
         <div style="background:${energyColor}; width:${energyPct.toFixed(1)}%; height:100%; border-radius:3px; transition:width 0.1s;"></div>
       </div>
     </div>
-    <div class="field"><span class="label">ID: </span><span class="value">#${creature.id}</span> <span class="label" style="margin-left:8px;">Group: </span><span class="value">${creature.dna.groupId}</span></div>
-    <div class="field"><span class="label">Age: </span><span class="value">${creature.age}</span> <span class="label" style="margin-left:8px;">Radius: </span><span class="value">${creature.dna.body.radius.toFixed(1)}</span></div>
+    <div class="field"><span class="label">ID: </span><span class="value">#${creature.id}</span> <span class="label" style="margin-left:8px;">Group: </span><span class="value">${creature.dna.groupId}</span>${creature.dna.sex ? ` <span class="label" style="margin-left:8px;">Sex: </span><span class="value">${creature.dna.sex === 'male' ? '♂' : '♀'}</span>` : ''}</div>
+    <div class="field"><span class="label">Age: </span><span class="value">${creature.age}${creature.dna.lifespan !== undefined ? ` / ${creature.dna.lifespan}` : ''}</span> <span class="label" style="margin-left:8px;">Radius: </span><span class="value">${creature.dna.body.radius.toFixed(1)}</span></div>
+    ${creature.health !== undefined ? `<div class="field"><span class="label">Health: </span><span class="value">${creature.health.toFixed(1)}</span></div>` : ''}
     <div class="field"><span class="label">Speed: </span><span class="value">${creature.velocity.toFixed(2)}</span> <span class="label" style="margin-left:8px;">IFF: </span><span class="value">${creature.dna.hasIFF ? 'Yes' : 'No'}</span></div>
     <div class="field"><span class="label">Action: </span><span class="value" style="color:${actions === 'idle' ? '#666' : '#ffb74d'}">${actions}</span></div>
     <hr style="border-color:#333; margin:6px 0;">
@@ -272,6 +276,13 @@ function setupControls(): void {
     toolMinimap.classList.toggle('active');
   });
 
+  // Pheromone overlay toggle
+  const toolPheromones = document.getElementById('tool-pheromones')!;
+  toolPheromones.addEventListener('click', () => {
+    const active = toolPheromones.classList.toggle('active');
+    renderer.setPheromoneOverlay(active);
+  });
+
   const toolReset = document.getElementById('tool-reset')!;
   toolReset.addEventListener('click', async () => {
     if (!confirm('Reset the world? All creatures and progress will be lost.')) return;
@@ -422,7 +433,14 @@ function gameLoop(): void {
   }
 
   // Render
-  renderer.render(world.getCreatureStates(), world.getFoodStates(), world.getObstacleStates());
+  renderer.renderPheromones(world.getPheromoneGrid());
+  renderer.render(
+    world.getCreatureStates(),
+    world.getFoodStates(),
+    world.getObstacleStates(),
+    world.getPlantStates(),
+    world.getEggStates(),
+  );
 
   requestAnimationFrame(gameLoop);
 }
@@ -489,6 +507,8 @@ async function init(): Promise<void> {
     localStorage.removeItem('living-bugs-emergency-save');
     world.creatures.clear();
     world.food.clear();
+    world.plants.clear();
+    world.eggs.clear();
     world.tick = 0;
     world.nextEntityId = 1;
     world.initialize(seedGenotypes);
@@ -534,6 +554,7 @@ async function init(): Promise<void> {
   const container = document.getElementById('canvas-container')!;
   renderer = new Renderer(config);
   await renderer.init(container);
+  renderer.renderTerrain(world.getTerrainGrid());
 
   renderer.onWorldClick = handleWorldClick;
 
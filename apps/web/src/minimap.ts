@@ -1,3 +1,4 @@
+import { colorToHex } from '@living-bugs/sim-core';
 import type { CreatureState, FoodItemState, ObstacleState, WorldConfig } from '@living-bugs/sim-core';
 
 // ============================================================
@@ -70,16 +71,30 @@ export class Minimap {
     ctx.lineWidth = 1;
     ctx.strokeRect(0, 0, w, h);
 
-    // Obstacles (brown circles)
+    // Obstacles (brown circles, walls and polygons)
     if (obstacles) {
       ctx.fillStyle = OBSTACLE_COLOR;
+      ctx.strokeStyle = OBSTACLE_COLOR;
       for (const o of obstacles) {
         const x = o.position.x * scaleX;
         const y = o.position.y * scaleY;
-        const r = Math.max(1.5, o.radius * scaleX);
         ctx.beginPath();
-        ctx.arc(x, y, r, 0, Math.PI * 2);
-        ctx.fill();
+        if (o.shape?.type === 'segment') {
+          ctx.lineWidth = Math.max(1, o.shape.halfWidth * 2 * scaleX);
+          ctx.moveTo(x + o.shape.a.x * scaleX, y + o.shape.a.y * scaleY);
+          ctx.lineTo(x + o.shape.b.x * scaleX, y + o.shape.b.y * scaleY);
+          ctx.stroke();
+        } else if (o.shape?.type === 'polygon') {
+          for (const v of o.shape.vertices) {
+            ctx.lineTo(x + v.x * scaleX, y + v.y * scaleY);
+          }
+          ctx.closePath();
+          ctx.fill();
+        } else {
+          const r = Math.max(1.5, o.radius * scaleX);
+          ctx.arc(x, y, r, 0, Math.PI * 2);
+          ctx.fill();
+        }
       }
     }
 
@@ -91,11 +106,13 @@ export class Minimap {
       ctx.fillRect(x, y, 1, 1);
     }
 
-    // Creatures (colored dots by group)
+    // Creatures (colored dots by genetic colour, else by group)
     for (const c of creatures) {
       const x = c.position.x * scaleX;
       const y = c.position.y * scaleY;
-      ctx.fillStyle = GROUP_COLORS[c.dna.groupId % GROUP_COLORS.length];
+      ctx.fillStyle = c.dna.color
+        ? `#${colorToHex(c.dna.color).toString(16).padStart(6, '0')}`
+        : GROUP_COLORS[c.dna.groupId % GROUP_COLORS.length];
       ctx.fillRect(x - 1, y - 1, 2, 2);
     }
 
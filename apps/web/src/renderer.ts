@@ -1,5 +1,6 @@
 import * as PIXI from 'pixi.js';
-import type { CreatureState, FoodItemState, ObstacleState, WorldConfig } from '@living-bugs/sim-core';
+import { Topology, colorToHex } from '@living-bugs/sim-core';
+import type { CreatureState, FoodItemState, ObstacleState, PlantState, EggState, PheromoneGrid, TerrainGrid, WorldConfig } from '@living-bugs/sim-core';
 
 // ============================================================
 // Constants
@@ -16,6 +17,10 @@ const ENERGY_GREEN = 0x4caf50;
 const ENERGY_RED = 0xf44336;
 const ENERGY_BG = 0x333333;
 const FOOD_COLOR = 0x66bb6a;
+const PLANT_COLOR = 0x2e7d32;
+const PLANT_CORE_COLOR = 0x9ccc65;
+const EGG_COLOR = 0xfff3e0;
+const EGG_SHELL_COLOR = 0xbcaaa4;
 
 /** One insect emoji per group. Child inherits parent's group → same emoji. */
 const GROUP_EMOJIS = [
@@ -56,7 +61,21 @@ const OBSTACLE_EMOJIS = [
   '\u{1FAB5}', // 🪵 wood
 ];
 
-const OBSTACLE_COLOR = 0x795548; // brown for fast mode
+const OBSTACLE_COLOR = 0x795548; // brown for fast mode, walls and polygons
+
+/** Solid world edges ('walled' / 'cylinder' boundaries); wrapping edges keep the thin border. */
+const WORLD_WALL_COLOR = 0x8d6e63;
+const WORLD_WALL_WIDTH = 6;
+const WORLD_SEAM_COLOR = 0x333333;
+
+/** Overlay color per pheromone channel (cycles if there are more channels). */
+const PHEROMONE_COLORS = [0xff7043, 0x42a5f5, 0xffee58, 0xab47bc];
+
+/** Fallback color per terrain type index when the config has no `color`. */
+const TERRAIN_COLORS = ['#2e4a2e', '#8d7b4a', '#1e3a5f', '#4e3b2a', '#5f5f5f'];
+
+/** Terrain is a tint over the background, not an opaque floor. */
+const TERRAIN_ALPHA = 0.45;
 
 /**
  * Hash a creature's DNA properties to a hue offset for visual species diversity.
@@ -74,6 +93,12 @@ function dnaHueHash(c: CreatureState): number {
   return hash;
 }
 
+/** Remaining durability as a fraction (1 for indestructible obstacles), floored so eroded ones stay visible. */
+function obstacleIntegrity(obs: ObstacleState): number {
+  if (obs.durability === undefined || !obs.maxDurability) return 1;
+  return Math.max(0.3, obs.durability / obs.maxDurability);
+}
+
 /** Convert HSL (h=0..360, s=0..1, l=0..1) to RGB hex number. */
 function hslToHex(h: number, s: number, l: number): number {
   const a = s * Math.min(l, 1 - l);
@@ -170,11 +195,21 @@ export class Renderer {
   backgroundGfx: PIXI.Graphics;
   borderGfx: PIXI.Graphics;
   obstacleContainer: PIXI.Container;
+  plantGfx: PIXI.Graphics;
+  eggGfx: PIXI.Graphics;
   foodContainer: PIXI.Container;
   creatureContainer: PIXI.Container;
   overlayGfx: PIXI.Graphics;
   config: WorldConfig;
 
+  // Pheromone overlay: grid painted into a small canvas, stretched over the world
+  private pheromoneSprite: PIXI.Sprite | null = null;
+  private pheromoneCanvas: HTMLCanvasElement | null = null;
+  private pheromoneVisible = false;
+
+  // Terrain layer: static, painted once per grid (one pixel per cell)
+  private terrainSprite: PIXI.Sprite | null = null;
+
   // Fast mode: ParticleContainers
   private fastCreatureContainer: PIXI.ParticleContainer | null = null;
   private fastFoodContainer: PIXI.ParticleContainer | null = null;
@@ -187,6 +222,10 @@ export class Renderer {
   private creatureSprites = new Map<number, SpriteEntry>();
   private foodSprites = new Map<number, SpriteEntry>();
   private obstacleSprites = new Map<number, SpriteEntry>();
+  /** Walls and polygons are drawn as vector shapes rather than emoji sprites. */
+  private obstacleShapeGfx = new PIXI.Graphics();
+  /** Ids of the obstacles currently built, joined; rebuilt when the set changes. */
+  private renderedObstacleKey: string | null = null;
 
   // Pre-built textures
   private creatureTextures: PIXI.Texture[] = [];
@@ -229,6 +268,8 @@ export class Renderer {
     this.backgroundGfx = new PIXI.Graphics();
     this.borderGfx = new PIXI.Graphics();
     this.obstacleContainer = new PIXI.Container();
+    this.plantGfx = new PIXI.Graphics();
+    this.eggGfx = new PIXI.Graphics();
     this.foodContainer = new PIXI.Container();
     this.creatureContainer = new PIXI.Container();
     this.overlayGfx = new PIXI.Graphics();
@@ -259,10 +300,14 @@ export class Renderer {
     this.circleTexture = createCircleTexture(16);
     this.foodDotTexture = createCircleTexture(8);
 
-    // Scene graph (rich mode): bg → border → obstacles → food → creatures → overlay
+    // Scene graph (rich mode): bg → terrain → pheromones → border → obstacles → plants → eggs → food → creatures → overlay
     this.worldContainer.addChild(this.backgroundGfx);
+    this.worldContainer.addChild(this.createTerrainSprite());
+    this.worldContainer.addChild(this.createPheromoneSprite());
     this.worldContainer.addChild(this.borderGfx);
     this.worldContainer.addChild(this.obstacleContainer);
+    this.worldContainer.addChild(this.plantGfx);
+    this.worldContainer.addChild(this.eggGfx);
     this.worldContainer.addChild(this.foodContainer);
     this.worldContainer.addChild(this.creatureContainer);
     this.worldContainer.addChild(this.overlayGfx);
@@ -272,8 +317,7 @@ export class Renderer {
     this.generateBackground();
 
     // World border
-    this.borderGfx.lineStyle(2, 0x333333);
-    this.borderGfx.drawRect(0, 0, this.config.world.width, this.config.world.height);
+    this.drawBorder();
 
     // Fit world in viewport
     const scaleX = this.canvasWidth / this.config.world.width;
@@ -329,13 +373,143 @@ export class Renderer {
     }
   }
 
+  /** Thin lines on wrapping edges, thick walls on solid ones. */
+  private drawBorder(): void {
+    const { width, height, boundary } = this.config.world;
+    const topology = new Topology(width, height, boundary);
+    const gfx = this.borderGfx;
+    const edge = (wall: boolean, x0: number, y0: number, x1: number, y1: number) => {
+      gfx.lineStyle(wall ? WORLD_WALL_WIDTH : 2, wall ? WORLD_WALL_COLOR : WORLD_SEAM_COLOR);
+      gfx.moveTo(x0, y0);
+      gfx.lineTo(x1, y1);
+    };
+    gfx.clear();
+    edge(!topology.wrapY, 0, 0, width, 0);
+    edge(!topology.wrapY, 0, height, width, height);
+    edge(!topology.wrapX, 0, 0, 0, height);
+    edge(!topology.wrapX, width, 0, width, height);
+  }
+
+  // ============================================================
+  // Terrain layer
+  // ============================================================
+
+  private createTerrainSprite(): PIXI.Sprite {
+    const sprite = new PIXI.Sprite();
+    sprite.visible = false;
+    sprite.alpha = TERRAIN_ALPHA;
+    this.terrainSprite = sprite;
+    return sprite;
+  }
+
+  /** Paint the terrain grid (static — call once after creating or resetting the world). */
+  renderTerrain(grid: TerrainGrid | null): void {
+    const sprite = this.terrainSprite;
+    if (!sprite) return;
+    if (!grid) {
+      sprite.visible = false;
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = grid.cols;
+    canvas.height = grid.rows;
+    const ctx = canvas.getContext('2d')!;
+    const cells = grid.getCells();
+    for (let row = 0; row < grid.rows; row++) {
+      for (let col = 0; col < grid.cols; col++) {
+        const type = cells[row * grid.cols + col];
+        ctx.fillStyle = grid.types[type]?.color ?? TERRAIN_COLORS[type % TERRAIN_COLORS.length];
+        ctx.fillRect(col, row, 1, 1);
+      }
+    }
+
+    const old = sprite.texture;
+    // Nearest-neighbour scaling keeps cell edges crisp
+    sprite.texture = PIXI.Texture.from(canvas, { scaleMode: PIXI.SCALE_MODES.NEAREST });
+    if (old !== PIXI.Texture.EMPTY) old.destroy(true);
+    sprite.width = grid.cols * grid.cellSize;
+    sprite.height = grid.rows * grid.cellSize;
+    sprite.visible = true;
+  }
+
   // ============================================================
-  // Obstacle rendering (sprites placed once, not per-frame)
+  // Pheromone overlay
+  // ============================================================
+
+  private createPheromoneSprite(): PIXI.Sprite {
+    // Texture is attached on first render, once the grid size is known
+    const sprite = new PIXI.Sprite();
+    sprite.visible = false;
+    this.pheromoneSprite = sprite;
+    return sprite;
+  }
+
+  /** Show/hide the pheromone overlay. */
+  setPheromoneOverlay(visible: boolean): void {
+    this.pheromoneVisible = visible;
+    if (this.pheromoneSprite && !visible) this.pheromoneSprite.visible = false;
+  }
+
+  /**
+   * Paint the pheromone grid (one pixel per cell, channels blended additively)
+   * and stretch it over the world.
+   */
+  renderPheromones(grid: PheromoneGrid | null): void {
+    const sprite = this.pheromoneSprite;
+    if (!sprite) return;
+    if (!this.pheromoneVisible || !grid) {
+      sprite.visible = false;
+      return;
+    }
+
+    let canvas = this.pheromoneCanvas;
+    if (!canvas || canvas.width !== grid.cols || canvas.height !== grid.rows) {
+      canvas = document.createElement('canvas');
+      canvas.width = grid.cols;
+      canvas.height = grid.rows;
+      this.pheromoneCanvas = canvas;
+      sprite.texture = PIXI.Texture.from(canvas);
+    }
+    const ctx = canvas.getContext('2d')!;
+    const image = ctx.createImageData(grid.cols, grid.rows);
+    const px = image.data;
+
+    for (let ch = 0; ch < grid.channelCount; ch++) {
+      const values = grid.getChannel(ch)!;
+      const color = PHEROMONE_COLORS[ch % PHEROMONE_COLORS.length];
+      const r = (color >> 16) & 0xff;
+      const g = (color >> 8) & 0xff;
+      const b = color & 0xff;
+      for (let i = 0; i < values.length; i++) {
+        const v = values[i];
+        if (v <= 0) continue;
+        const o = i * 4;
+        px[o] = Math.min(255, px[o] + r * v);
+        px[o + 1] = Math.min(255, px[o + 1] + g * v);
+        px[o + 2] = Math.min(255, px[o + 2] + b * v);
+        px[o + 3] = Math.min(200, Math.max(px[o + 3], v * 255));
+      }
+    }
+
+    ctx.putImageData(image, 0, 0);
+    sprite.texture.update();
+    sprite.width = this.config.world.width;
+    sprite.height = this.config.world.height;
+    sprite.visible = true;
+  }
+
+  // ============================================================
+  // Obstacle rendering (sprites built when the set changes, moved per-frame)
   // ============================================================
 
   renderObstacles(obstacles: ObstacleState[]): void {
-    // Only reconcile if count changed (obstacles are static)
-    if (this.obstacleSprites.size === obstacles.length) return;
+    const key = obstacles.map(o => o.id).join(',');
+    if (this.renderedObstacleKey === key) {
+      this.updateObstacles(obstacles);
+      return;
+    }
+    this.renderedObstacleKey = key;
 
     // Clear existing
     for (const [, entry] of this.obstacleSprites) {
@@ -343,8 +517,15 @@ export class Renderer {
     }
     this.obstacleSprites.clear();
     this.obstacleContainer.removeChildren();
+    const shapes = this.obstacleShapeGfx;
+    shapes.clear();
+    this.obstacleContainer.addChild(shapes);
 
     for (const obs of obstacles) {
+      if (obs.shape) {
+        this.drawObstacleShape(shapes, obs);
+        continue;
+      }
       const texIdx = obs.id % this.obstacleTextures.length;
       const sprite = new PIXI.Sprite(this.obstacleTextures[texIdx]);
       sprite.anchor.set(0.5);
@@ -352,12 +533,47 @@ export class Renderer {
       sprite.width = desiredSize;
       sprite.height = desiredSize;
       sprite.position.set(obs.position.x, obs.position.y);
-      sprite.alpha = 0.85;
+      sprite.alpha = 0.85 * obstacleIntegrity(obs);
       this.obstacleContainer.addChild(sprite);
       this.obstacleSprites.set(obs.id, { sprite, emojiKey: OBSTACLE_EMOJIS[texIdx] });
     }
   }
 
+  /** Follow drifting obstacles and fade eroded ones without rebuilding sprites. */
+  private updateObstacles(obstacles: ObstacleState[]): void {
+    let redrawShapes = false;
+    for (const obs of obstacles) {
+      if (obs.shape) {
+        redrawShapes ||= obs.velocity !== undefined || obs.durability !== undefined;
+        continue;
+      }
+      const entry = this.obstacleSprites.get(obs.id);
+      if (!entry) continue;
+      entry.sprite.position.set(obs.position.x, obs.position.y);
+      entry.sprite.alpha = 0.85 * obstacleIntegrity(obs);
+    }
+    if (!redrawShapes) return;
+    this.obstacleShapeGfx.clear();
+    for (const obs of obstacles) {
+      if (obs.shape) this.drawObstacleShape(this.obstacleShapeGfx, obs);
+    }
+  }
+
+  private drawObstacleShape(gfx: PIXI.Graphics, obs: ObstacleState): void {
+    const { x, y } = obs.position;
+    if (obs.shape?.type === 'segment') {
+      const { a, b, halfWidth } = obs.shape;
+      gfx.lineStyle({ width: Math.max(1, halfWidth * 2), color: OBSTACLE_COLOR, alpha: 0.9 * obstacleIntegrity(obs), cap: PIXI.LINE_CAP.ROUND });
+      gfx.moveTo(x + a.x, y + a.y);
+      gfx.lineTo(x + b.x, y + b.y);
+      gfx.lineStyle(0);
+    } else if (obs.shape?.type === 'polygon') {
+      gfx.beginFill(OBSTACLE_COLOR, 0.9 * obstacleIntegrity(obs));
+      gfx.drawPolygon(obs.shape.vertices.flatMap(v => [x + v.x, y + v.y]));
+      gfx.endFill();
+    }
+  }
+
   // ============================================================
   // Mode switching
   // ============================================================
@@ -392,7 +608,7 @@ export class Renderer {
         uvs: false,
         alpha: false,
       });
-      this.worldContainer.addChildAt(this.fastCreatureContainer, 2);
+      this.worldContainer.addChildAt(this.fastCreatureContainer, 4);
     }
     this.fastCreatureContainer.visible = true;
 
@@ -405,7 +621,7 @@ export class Renderer {
         uvs: false,
         alpha: false,
       });
-      this.worldContainer.addChildAt(this.fastFoodContainer, 1);
+      this.worldContainer.addChildAt(this.fastFoodContainer, 3);
     }
     this.fastFoodContainer.visible = true;
   }
@@ -648,12 +864,21 @@ export class Renderer {
   // Render frame
   // ============================================================
 
-  render(creatures: CreatureState[], food: FoodItemState[], obstacles?: ObstacleState[]): void {
-    // Render obstacles once (they're static)
+  render(
+    creatures: CreatureState[],
+    food: FoodItemState[],
+    obstacles?: ObstacleState[],
+    plants?: PlantState[],
+    eggs?: EggState[],
+  ): void {
+    // Obstacles: rebuilt when the set changes, otherwise just moved
     if (obstacles) {
       this.renderObstacles(obstacles);
     }
 
+    this.drawPlants(plants ?? []);
+    this.drawEggs(eggs ?? []);
+
     const totalEntities = creatures.length + food.length;
 
     if (totalEntities > BATCH_THRESHOLD) {
@@ -669,6 +894,49 @@ export class Renderer {
     this.drawOverlays(creatures);
   }
 
+  // ============================================================
+  // Plants (drawn every frame in both modes; size tracks nutrition)
+  // ============================================================
+
+  private drawPlants(plants: PlantState[]): void {
+    const gfx = this.plantGfx;
+    gfx.clear();
+    const plantCfg = this.config.plants;
+    if (!plantCfg || plants.length === 0) return;
+
+    for (const p of plants) {
+      if (!this.isInViewport(p.position.x, p.position.y)) continue;
+      const fullness = Math.max(0, Math.min(1, p.nutrition / plantCfg.maxNutrition));
+      const r = plantCfg.radius * (0.5 + 0.5 * fullness);
+      gfx.beginFill(PLANT_COLOR, 0.8);
+      gfx.drawCircle(p.position.x, p.position.y, r);
+      gfx.endFill();
+      gfx.beginFill(PLANT_CORE_COLOR, 0.9);
+      gfx.drawCircle(p.position.x, p.position.y, r * 0.4);
+      gfx.endFill();
+    }
+  }
+
+  // ============================================================
+  // Eggs (drawn every frame in both modes)
+  // ============================================================
+
+  private drawEggs(eggs: EggState[]): void {
+    const gfx = this.eggGfx;
+    gfx.clear();
+    const eggRadius = this.config.development?.eggRadius ?? 0;
+    if (eggRadius <= 0 || eggs.length === 0) return;
+
+    for (const e of eggs) {
+      if (!this.isInViewport(e.position.x, e.position.y)) continue;
+      gfx.lineStyle(0.8, EGG_SHELL_COLOR, 1);
+      gfx.beginFill(EGG_COLOR, 0.95);
+      gfx.drawEllipse(e.position.x, e.position.y, eggRadius * 0.8, eggRadius);
+      gfx.endFill();
+    }
+    gfx.lineStyle(0);
+  }
+
   // ============================================================
   // Fast mode rendering (ParticleContainer)
   // ============================================================
@@ -694,7 +962,7 @@ export class Renderer {
       sprite.scale.set(scale);
       sprite.tint = c.id === this.selectedCreatureId
         ? SELECTED_TINT
-        : GROUP_COLORS[c.dna.groupId % GROUP_COLORS.length];
+        : c.dna.color ? colorToHex(c.dna.color) : GROUP_COLORS[c.dna.groupId % GROUP_COLORS.length];
     }
 
     // Hide excess sprites
@@ -793,6 +1061,9 @@ export class Renderer {
       const isSelected = c.id === this.selectedCreatureId;
       if (isSelected) {
         sprite.tint = SELECTED_TINT;
+      } else if (c.dna.color) {
+        // Genetic colour (appearance gene)
+        sprite.tint = colorToHex(c.dna.color);
       } else {
         // Species-colored tint: hash DNA properties to a hue
         const hue = dnaHueHash(c);
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PALETTE, SCENERY_COLORS, groupColor, dnaColor, colorToHex } from './appearance.js';
+import { createDefaultDNA } from './dna.js';
+import { PRNG } from './prng.js';
+
+describe('appearance', () => {
+  it('default palette matches the renderer group colours', () => {
+    expect(DEFAULT_PALETTE).toHaveLength(8);
+    expect(colorToHex(DEFAULT_PALETTE[0])).toBe(0xf44336);
+    expect(colorToHex(DEFAULT_PALETTE[1])).toBe(0x2196f3);
+    expect(colorToHex(SCENERY_COLORS.obstacle)).toBe(0x795548);
+  });
+
+  describe('groupColor', () => {
+    it('wraps the palette by groupId', () => {
+      expect(groupColor(9)).toEqual(DEFAULT_PALETTE[1]);
+      const palette = [{ r: 1, g: 0, b: 0 }, { r: 0, g: 0, b: 1 }];
+      expect(groupColor(3, palette)).toEqual({ r: 0, g: 0, b: 1 });
+    });
+
+    it('falls back to the default palette when empty', () => {
+      expect(groupColor(2, [])).toEqual(DEFAULT_PALETTE[2]);
+    });
+
+    it('returns a copy', () => {
+      const c = groupColor(0);
+      c.r = 0;
+      expect(DEFAULT_PALETTE[0].r).toBeGreaterThan(0.9);
+    });
+  });
+
+  describe('dnaColor', () => {
+    it('prefers the colour gene over the group colour', () => {
+      const dna = createDefaultDNA(1, new PRNG(1));
+      expect(dnaColor(dna)).toEqual(DEFAULT_PALETTE[1]);
+      dna.color = { r: 0.1, g: 0.2, b: 0.3 };
+      expect(dnaColor(dna)).toEqual({ r: 0.1, g: 0.2, b: 0.3 });
+    });
+  });
+
+  describe('colorToHex', () => {
+    it('packs and clamps channels', () => {
+      expect(colorToHex({ r: 1, g: 0.5, b: 0 })).toBe(0xff8000);
+      expect(colorToHex({ r: 2, g: -1, b: 1 })).toBe(0xff00ff);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+// ============================================================
+// Appearance — RGB body colours and what colour vision sees
+// ============================================================
+// Creatures may carry an evolvable `color` gene (see `appearance` in the
+// world config). Everything a colour-vision ray can hit has a colour:
+// creatures their gene (or group palette colour), scenery a fixed one —
+// so a creature can evolve to look like food, a rock or its prey's kin.
+
+import type { ColorGene, DNA } from './types.js';
+
+function fromHex(hex: number): ColorGene {
+  return { r: ((hex >> 16) & 0xff) / 255, g: ((hex >> 8) & 0xff) / 255, b: (hex & 0xff) / 255 };
+}
+
+/** Starting colour per group (the renderers' group palette). */
+export const DEFAULT_PALETTE: readonly ColorGene[] = [
+  0xf44336, // red
+  0x2196f3, // blue
+  0x4caf50, // green
+  0xff9800, // orange
+  0x9c27b0, // purple
+  0x00bcd4, // cyan
+  0xffeb3b, // yellow
+  0xe91e63, // pink
+].map(fromHex);
+
+/** Colours of non-creature objects as seen by `colorVision`. */
+export const SCENERY_COLORS: Readonly<Record<'food' | 'plant' | 'egg' | 'obstacle', ColorGene>> = {
+  food: fromHex(0x66bb6a),
+  plant: fromHex(0x2e7d32),
+  egg: fromHex(0xfff3e0),
+  /** Also world walls. */
+  obstacle: fromHex(0x795548),
+};
+
+/** Palette colour for a group (palette wraps; empty = default palette). */
+export function groupColor(groupId: number, palette: readonly ColorGene[] = DEFAULT_PALETTE): ColorGene {
+  const colors = palette.length > 0 ? palette : DEFAULT_PALETTE;
+  const idx = ((groupId % colors.length) + colors.length) % colors.length;
+  return { ...colors[idx] };
+}
+
+/** A creature's visible colour: its gene, or its group's palette colour. */
+export function dnaColor(dna: DNA, palette?: readonly ColorGene[]): ColorGene {
+  return dna.color ?? groupColor(dna.groupId, palette);
+}
+
+/** Pack a colour into a 0xRRGGBB number (channels clamped to 0..1). */
+export function colorToHex(color: ColorGene): number {
+  const channel = (v: number) => Math.round(Math.max(0, Math.min(1, v)) * 255);
+  return (channel(color.r) << 16) | (channel(color.g) << 8) | channel(color.b);
+}
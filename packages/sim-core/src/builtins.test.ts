@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { BUILTIN_SENSORS, BUILTIN_ACTUATORS } from './builtins.js';
+import { PRNG } from './prng.js';
+import type { RayVisionGene } from './types.js';
+
+function sensor(type: string) {
+  return BUILTIN_SENSORS.find(d => d.type === type)!;
+}
+
+describe('built-in modules', () => {
+  it('default genes have the definition type and a positive I/O count', () => {
+    const rng = new PRNG(1);
+    for (const def of BUILTIN_SENSORS) {
+      if (!def.createDefault) continue;
+      const gene = def.createDefault(rng);
+      expect(gene.type).toBe(def.type);
+      expect(def.inputCount(gene)).toBeGreaterThan(0);
+    }
+    for (const def of BUILTIN_ACTUATORS) {
+      if (!def.createDefault) continue;
+      const gene = def.createDefault(rng);
+      expect(gene.type).toBe(def.type);
+      expect(def.outputCount(gene)).toBeGreaterThan(0);
+    }
+  });
+
+  it('energySense and move are never added by mutation', () => {
+    expect(sensor('energySense').createDefault).toBeUndefined();
+    expect(BUILTIN_ACTUATORS.find(d => d.type === 'move')!.createDefault).toBeUndefined();
+  });
+
+  it('ray sensor parameters mutate within range', () => {
+    const def = sensor('rayVision');
+    const rng = new PRNG(3);
+    const gene: RayVisionGene = { type: 'rayVision', rayCount: 3, fov: 1.5, maxDistance: 50, offsetAngle: 0 };
+    for (let i = 0; i < 200; i++) {
+      def.mutate!(gene, 1.0, 5.0, rng);
+      expect(gene.rayCount).toBeGreaterThanOrEqual(1);
+      expect(gene.rayCount).toBeLessThanOrEqual(16);
+      expect(gene.fov).toBeGreaterThanOrEqual(0.1);
+      expect(gene.maxDistance).toBeLessThanOrEqual(200);
+      expect(Math.abs(gene.offsetAngle)).toBeLessThanOrEqual(Math.PI);
+    }
+  });
+
+  it('ray sensors are crossover alternatives only when they look the same way', () => {
+    const def = sensor('rayVision');
+    const ahead: RayVisionGene = { type: 'rayVision', rayCount: 3, fov: 1.5, maxDistance: 50, offsetAngle: 0 };
+    const behind = { ...ahead, offsetAngle: Math.PI };
+    expect(def.key!(ahead)).toBe(def.key!({ ...ahead, rayCount: 5 }));
+    expect(def.key!(ahead)).not.toBe(def.key!(behind));
+    expect(sensor('touch').key).toBeUndefined();
+  });
+});
@@ -0,0 +1,605 @@
+// ============================================================
+// Built-in sensor and actuator definitions
+// ============================================================
+// Registered by registry.ts on load. The order of each list is the
+// registration order, which fixes the structural mutation pools.
+
+import type { PRNG } from './prng.js';
+import { resolveConfigValue } from './expr.js';
+import type { SensorDefinition, ActuatorDefinition, WorldView } from './registry.js';
+import type {
+  RayVisionGene,
+  ColorVisionGene,
+  TouchGene,
+  EnergySenseGene,
+  BroadcastReceiverGene,
+  PheromoneSenseGene,
+  TerrainSenseGene,
+  HearingGene,
+  AgeSenseGene,
+  SpeedSenseGene,
+  CooldownSenseGene,
+  DamageSenseGene,
+  ClockSenseGene,
+  HoldSenseGene,
+  MoveActuatorGene,
+  AttackActuatorGene,
+  EatActuatorGene,
+  DonateActuatorGene,
+  BroadcastActuatorGene,
+  BiteActuatorGene,
+  DepositPheromoneActuatorGene,
+  MateChoiceActuatorGene,
+  GrabActuatorGene,
+  SprintActuatorGene,
+  ShieldActuatorGene,
+  ReproduceActuatorGene,
+  CreatureState,
+  Vec2,
+} from './types.js';
+
+/** Age (ticks) at which `ageSense` reads 0.5 when creatures never die of old age. */
+const AGE_SENSE_HALF = 1000;
+
+function clamp(v: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, v));
+}
+
+function wrapAngle(a: number): number {
+  while (a > Math.PI) a -= 2 * Math.PI;
+  while (a < -Math.PI) a += 2 * Math.PI;
+  return a;
+}
+
+// ============================================================
+// Shared parameter mutations
+// ============================================================
+
+function mutateRays(
+  sensor: RayVisionGene | ColorVisionGene, mutationRate: number, mutationStrength: number, rng: PRNG,
+): void {
+  if (rng.chance(mutationRate)) {
+    sensor.fov = clamp(sensor.fov + rng.gaussian() * mutationStrength * 2, 0.1, Math.PI * 2);
+  }
+  if (rng.chance(mutationRate)) {
+    sensor.maxDistance = clamp(
+      sensor.maxDistance + rng.gaussian() * mutationStrength * 50, 10, 200
+    );
+  }
+  if (rng.chance(mutationRate)) {
+    sensor.offsetAngle = wrapAngle(sensor.offsetAngle + rng.gaussian() * mutationStrength);
+  }
+  if (rng.chance(mutationRate / 2)) {
+    sensor.rayCount = clamp(sensor.rayCount + (rng.chance(0.5) ? 1 : -1), 1, 16);
+  }
+}
+
+function mutateChannels(
+  sensor: BroadcastReceiverGene | PheromoneSenseGene, mutationRate: number, rng: PRNG,
+): void {
+  if (rng.chance(mutationRate / 2)) {
+    if (sensor.channels.length > 0 && rng.chance(0.5)) {
+      // Remove a channel
+      const idx = rng.int(0, sensor.channels.length - 1);
+      sensor.channels.splice(idx, 1);
+    } else {
+      // Add a channel (0..3 by default)
+      const newCh = rng.int(0, 3);
+      if (!sensor.channels.includes(newCh)) {
+        sensor.channels.push(newCh);
+      }
+    }
+  }
+}
+
+/** Ray sensors are alternatives only when they look the same way. */
+function rayKey(sensor: RayVisionGene | ColorVisionGene): string {
+  return `${sensor.type}-${Math.round(sensor.offsetAngle * 100)}`;
+}
+
+const rayVision: SensorDefinition<RayVisionGene> = {
+  type: 'rayVision',
+  inputCount: gene => gene.rayCount * 4, // distance, type_food, type_creature, type_iff
+  gather(gene, s, world, out, offset) {
+    let idx = offset;
+    for (const rayEnd of world.visionRays(s, gene)) {
+      const hit = world.castRay(s, rayEnd);
+      out[idx++] = hit.distance;
+      // Eggs are edible, so they read as food; plants read as -1
+      out[idx++] = hit.kind === 'food' || hit.kind === 'egg' ? 1 : hit.kind === 'plant' ? -1 : 0;
+      out[idx++] = hit.kind === 'creature' ? 1 : 0;
+      out[idx++] = hit.creature && s.dna.hasIFF
+        ? (hit.creature.dna.groupId === s.dna.groupId ? 1 : -1)
+        : 0;
+    }
+  },
+  energyCost: (gene, _s, world, vars) =>
+    resolveConfigValue(world.config.energy.visionCostPerRay, vars) * gene.rayCount,
+  createDefault: rng => ({ type: 'rayVision', rayCount: 3, fov: 1.5, maxDistance: 50, offsetAngle: rng.range(-Math.PI, Math.PI) }),
+  mutate: mutateRays,
+  key: rayKey,
+  describe: gene => `RayVision(${gene.rayCount}r, fov=${gene.fov.toFixed(1)})`,
+};
+
+const touch: SensorDefinition<TouchGene> = {
+  type: 'touch',
+  inputCount: () => 3, // touching_food, touching_creature, touching_iff
+  gather(_gene, s, world, out, offset) {
+    const cfg = world.config;
+    const radius = s.dna.body.radius;
+    let touchFood = 0;
+    let touchCreature = 0;
+    let touchIFF = 0;
+
+    // Check collisions with food (spatial hash)
+    for (const foodState of world.foodNear(s.position, radius + cfg.food.radius)) {
+      if (world.topology.circlesOverlap(s.position, radius, foodState.position, cfg.food.radius)) {
+        touchFood = 1;
+        break;
+      }
+    }
+
+    // Eggs feel like food
+    const eggR = cfg.development?.eggRadius ?? 0;
+    if (touchFood === 0 && eggR > 0) {
+      for (const eggState of world.eggsNear(s.position, radius + eggR)) {
+        if (world.topology.circlesOverlap(s.position, radius, eggState.position, eggR)) {
+          touchFood = 1;
+          break;
+        }
+      }
+    }
+
+    // Plants read as -1 on the food channel (food takes priority)
+    const plantR = cfg.plants?.radius ?? 0;
+    if (touchFood === 0 && plantR > 0) {
+      for (const plantState of world.plantsNear(s.position, radius + plantR)) {
+        if (world.topology.circlesOverlap(s.position, radius, plantState.position, plantR)) {
+          touchFood = -1;
+          break;
+        }
+      }
+    }
+
+    // Check collisions with creatures (spatial hash)
+    for (const otherState of world.creaturesNear(s.position, radius + cfg.creatureDefaults.radius * 2)) {
+      if (otherState.id === s.id) continue;
+      if (world.topology.circlesOverlap(s.position, radius, otherState.position, otherState.dna.body.radius)) {
+        touchCreature = 1;
+        touchIFF = s.dna.hasIFF
+          ? (otherState.dna.groupId === s.dna.groupId ? 1 : -1)
+          : 0;
+        break;
+      }
+    }
+
+    // Obstacles block creature movement so touching is implicit via collision,
+    // but the touch sensor can detect it too (shows as touching "creature" with IFF=0)
+    if (touchCreature === 0 && world.topology.touchesWall(s.position, radius)) {
+      touchCreature = 1; // World walls feel like obstacles
+    }
+    if (touchCreature === 0) {
+      for (const obsState of world.obstaclesNear(s.position, radius)) {
+        if (world.obstacleOverlaps(s.position, radius, obsState)) {
+          touchCreature = 1; // Obstacles feel like solid objects
+          touchIFF = 0;
+          break;
+        }
+      }
+    }
+
+    out[offset] = touchFood;
+    out[offset + 1] = touchCreature;
+    out[offset + 2] = touchIFF;
+  },
+  createDefault: () => ({ type: 'touch' }),
+};
+
+const energySense: SensorDefinition<EnergySenseGene> = {
+  type: 'energySense',
+  inputCount: () => 1, // energy_level
+  gather(_gene, s, world, out, offset) {
+    out[offset] = s.energy / world.config.energy.maxEnergy;
+  },
+};
+
+const broadcastReceiver: SensorDefinition<BroadcastReceiverGene> = {
+  type: 'broadcastReceiver',
+  inputCount: gene => gene.channels.length * 2, // strength + direction per channel
+  gather(gene, s, world, out, offset) {
+    const bcRadius = world.config.broadcast.broadcastRadius;
+    const nearbyBroadcasters = world.creaturesNear(s.position, bcRadius);
+    let idx = offset;
+    for (const ch of gene.channels) {
+      let bestStrength = 0;
+      let bestDirection = 0;
+
+      for (const otherState of nearbyBroadcasters) {
+        if (otherState.id === s.id) continue;
+        if (!otherState.isBroadcasting) continue;
+        if (otherState.broadcastChannel !== ch) continue;
+
+        const dist = world.topology.distance(s.position, otherState.position);
+        if (dist > bcRadius) continue;
+
+        const strength = 1 - dist / bcRadius;
+        if (strength > bestStrength) {
+          bestStrength = strength;
+          const dx = otherState.position.x - s.position.x;
+          const dy = otherState.position.y - s.position.y;
+          const dirAngle = Math.atan2(dy, dx) - s.angle;
+          bestDirection = Math.max(-1, Math.min(1, dirAngle / Math.PI));
+        }
+      }
+
+      out[idx++] = bestStrength;
+      out[idx++] = bestDirection;
+    }
+  },
+  createDefault: rng => ({ type: 'broadcastReceiver', channels: [rng.int(0, 3)] }),
+  mutate: (gene, mutationRate, _mutationStrength, rng) => mutateChannels(gene, mutationRate, rng),
+  describe: gene => `broadcastReceiver[${gene.channels.join(',')}]`,
+};
+
+const pheromoneSense: SensorDefinition<PheromoneSenseGene> = {
+  type: 'pheromoneSense',
+  inputCount: gene => gene.channels.length * 2, // concentration + gradient direction per channel
+  gather(gene, s, world, out, offset) {
+    const grid = world.pheromones;
+    let idx = offset;
+    for (const ch of gene.channels) {
+      if (!grid) {
+        out[idx++] = 0;
+        out[idx++] = 0;
+        continue;
+      }
+      // Gradient direction relative to heading, normalized to -1..1
+      const g = grid.gradient(ch, s.position);
+      let direction = 0;
+      if (g.x !== 0 || g.y !== 0) {
+        let rel = Math.atan2(g.y, g.x) - s.angle;
+        rel = Math.atan2(Math.sin(rel), Math.cos(rel));
+        direction = rel / Math.PI;
+      }
+      out[idx++] = grid.sample(ch, s.position);
+      out[idx++] = direction;
+    }
+  },
+  createDefault: rng => ({ type: 'pheromoneSense', channels: [rng.int(0, 3)] }),
+  enabled: config => config.pheromones !== undefined,
+  mutate: (gene, mutationRate, _mutationStrength, rng) => mutateChannels(gene, mutationRate, rng),
+  describe: gene => `pheromoneSense[${gene.channels.join(',')}]`,
+};
+
+const terrainSense: SensorDefinition<TerrainSenseGene> = {
+  type: 'terrainSense',
+  inputCount: () => 4, // speed + move-cost factor, underfoot and ahead
+  gather(gene, s, world, out, offset) {
+    // Speed and move-cost factors underfoot and `lookAhead` along the heading
+    const ahead: Vec2 = {
+      x: s.position.x + Math.cos(s.angle) * gene.lookAhead,
+      y: s.position.y + Math.sin(s.angle) * gene.lookAhead,
+    };
+    const here = world.terrain?.typeAt(s.position);
+    const there = world.terrain?.typeAt(ahead);
+    out[offset] = here?.speedFactor ?? 1;
+    out[offset + 1] = here?.moveCostFactor ?? 1;
+    out[offset + 2] = there?.speedFactor ?? 1;
+    out[offset + 3] = there?.moveCostFactor ?? 1;
+  },
+  createDefault: () => ({ type: 'terrainSense', lookAhead: 30 }),
+  enabled: config => config.terrain !== undefined,
+  mutate(gene, mutationRate, mutationStrength, rng) {
+    if (rng.chance(mutationRate)) {
+      gene.lookAhead = clamp(gene.lookAhead + rng.gaussian() * mutationStrength * 20, 5, 100);
+    }
+  },
+};
+
+const colorVision: SensorDefinition<ColorVisionGene> = {
+  type: 'colorVision',
+  inputCount: gene => gene.rayCount * 4, // distance, red, green, blue
+  gather(gene, s, world, out, offset) {
+    let idx = offset;
+    for (const rayEnd of world.visionRays(s, gene)) {
+      const hit = world.castRay(s, rayEnd);
+      const color = world.seenColor(hit);
+      out[idx++] = hit.distance;
+      out[idx++] = color?.r ?? 0;
+      out[idx++] = color?.g ?? 0;
+      out[idx++] = color?.b ?? 0;
+    }
+  },
+  energyCost: (gene, _s, world, vars) =>
+    resolveConfigValue(world.config.energy.visionCostPerRay, vars) * gene.rayCount,
+  createDefault: () => ({ type: 'colorVision', rayCount: 3, fov: 1.5, maxDistance: 50, offsetAngle: 0 }),
+  mutate: mutateRays,
+  key: rayKey,
+  describe: gene => `ColorVision(${gene.rayCount}r, fov=${gene.fov.toFixed(1)})`,
+};
+
+const hearing: SensorDefinition<HearingGene> = {
+  type: 'hearing',
+  inputCount: () => 2, // intensity + left/right bearing
+  gather(_gene, s, world, out, offset) {
+    const { intensity, bearing } = world.listen(s);
+    out[offset] = intensity;
+    out[offset + 1] = bearing;
+  },
+  createDefault: () => ({ type: 'hearing' }),
+  enabled: config => config.hearing !== undefined,
+};
+
+const ageSense: SensorDefinition<AgeSenseGene> = {
+  type: 'ageSense',
+  inputCount: () => 1,
+  gather(_gene, s, world, out, offset) {
+    const lifespan = world.lifespan(s.dna);
+    out[offset] = Number.isFinite(lifespan)
+      ? Math.min(1, s.age / lifespan)
+      : s.age / (s.age + AGE_SENSE_HALF);
+  },
+  createDefault: () => ({ type: 'ageSense' }),
+};
+
+const speedSense: SensorDefinition<SpeedSenseGene> = {
+  type: 'speedSense',
+  inputCount: () => 2, // speed + turn rate
+  gather(_gene, s, world, out, offset) {
+    const { maxSpeed, maxTurnRate } = world.config.creatureDefaults;
+    out[offset] = maxSpeed > 0 ? s.velocity / maxSpeed : 0;
+    out[offset + 1] = maxTurnRate > 0 ? s.angularVelocity / maxTurnRate : 0;
+  },
+  createDefault: () => ({ type: 'speedSense' }),
+};
+
+const cooldownSense: SensorDefinition<CooldownSenseGene> = {
+  type: 'cooldownSense',
+  inputCount: () => 2, // attack + reproduction cooldown
+  gather(_gene, s, world, out, offset) {
+    const attackCooldown = world.config.combat.attackCooldown;
+    const reproductionCooldown = world.config.reproduction.cooldown;
+    out[offset] = attackCooldown > 0 ? Math.min(1, s.attackCooldown / attackCooldown) : 0;
+    out[offset + 1] = reproductionCooldown > 0 ? Math.min(1, s.reproductionCooldown / reproductionCooldown) : 0;
+  },
+  createDefault: () => ({ type: 'cooldownSense' }),
+};
+
+const damageSense: SensorDefinition<DamageSenseGene> = {
+  type: 'damageSense',
+  inputCount: () => 1,
+  gather(_gene, s, world, out, offset) {
+    // Relative to what is left to lose: health when tracked, energy otherwise
+    const damage = world.damageTaken(s);
+    const remaining = Math.max(0, s.health ?? s.energy);
+    out[offset] = damage > 0 ? damage / (damage + remaining) : 0;
+  },
+  createDefault: () => ({ type: 'damageSense' }),
+};
+
+const clockSense: SensorDefinition<ClockSenseGene> = {
+  type: 'clockSense',
+  inputCount: () => 2, // sin + cos of the phase
+  gather(gene, s, _world, out, offset) {
+    const phase = (2 * Math.PI * s.age) / Math.max(1, gene.period);
+    out[offset] = Math.sin(phase);
+    out[offset + 1] = Math.cos(phase);
+  },
+  createDefault: () => ({ type: 'clockSense', period: 300 }),
+  mutate(gene, mutationRate, mutationStrength, rng) {
+    if (rng.chance(mutationRate)) {
+      gene.period = clamp(gene.period * (1 + rng.gaussian() * mutationStrength * 0.5), 10, 2000);
+    }
+  },
+  describe: gene => `clockSense(${Math.round(gene.period)})`,
+};
+
+const holdSense: SensorDefinition<HoldSenseGene> = {
+  type: 'holdSense',
+  inputCount: () => 2, // holding food, towing a creature
+  gather(_gene, s, _world, out, offset) {
+    out[offset] = s.holding?.kind === 'food' ? 1 : 0;
+    out[offset + 1] = s.holding?.kind === 'creature' ? 1 : 0;
+  },
+  createDefault: () => ({ type: 'holdSense' }),
+  enabled: config => config.grab !== undefined,
+};
+
+export const BUILTIN_SENSORS: SensorDefinition[] = [
+  rayVision,
+  touch,
+  energySense,
+  broadcastReceiver,
+  pheromoneSense,
+  terrainSense,
+  colorVision,
+  hearing,
+  ageSense,
+  speedSense,
+  cooldownSense,
+  damageSense,
+  clockSense,
+  holdSense,
+];
+
+// ============================================================
+// Actuators
+// ============================================================
+
+/** A brain output as an on/off action. */
+function isOn(outputs: Float32Array, idx: number): boolean {
+  return (outputs[idx] ?? 0) > 0.5;
+}
+
+/** A brain output as an intensity, 0..1 (negative = off). */
+function intensity(outputs: Float32Array, idx: number): number {
+  return clamp(outputs[idx] ?? 0, 0, 1);
+}
+
+const move: ActuatorDefinition<MoveActuatorGene> = {
+  type: 'move',
+  outputCount: () => 2, // forward + turn
+  apply(_gene, s, world, outputs, offset) {
+    const { maxSpeed, maxTurnRate } = world.config.creatureDefaults;
+    const forward = outputs[offset] ?? 0;
+    const turn = outputs[offset + 1] ?? 0;
+    // forward: -1..1 → speed: -maxSpeed*0.5..maxSpeed
+    s.velocity = forward > 0 ? forward * maxSpeed : forward * maxSpeed * 0.5;
+    s.angularVelocity = turn * maxTurnRate;
+  },
+};
+
+const attack: ActuatorDefinition<AttackActuatorGene> = {
+  type: 'attack',
+  outputCount: () => 1,
+  apply(_gene, s, world, outputs, offset) {
+    s.isAttacking = isOn(outputs, offset);
+    // Graded: the output's margin above the threshold, 0.5..1 → 0..1
+    s.attackStrength = world.config.combat.gradedAttack
+      ? clamp(((outputs[offset] ?? 0) - 0.5) * 2, 0, 1)
+      : 1;
+  },
+  createDefault: () => ({ type: 'attack' }),
+};
+
+const eat: ActuatorDefinition<EatActuatorGene> = {
+  type: 'eat',
+  outputCount: () => 1,
+  apply(_gene, s, _world, outputs, offset) {
+    s.isEating = isOn(outputs, offset);
+  },
+  createDefault: () => ({ type: 'eat' }),
+};
+
+const donate: ActuatorDefinition<DonateActuatorGene> = {
+  type: 'donate',
+  outputCount: () => 1,
+  apply(_gene, s, _world, outputs, offset) {
+    s.isDonating = isOn(outputs, offset);
+  },
+  createDefault: () => ({ type: 'donate' }),
+};
+
+const broadcast: ActuatorDefinition<BroadcastActuatorGene> = {
+  type: 'broadcast',
+  outputCount: () => 1,
+  apply(gene, s, _world, outputs, offset) {
+    s.isBroadcasting = isOn(outputs, offset);
+    s.broadcastChannel = gene.channel;
+  },
+  energyCost: (_gene, s, world, vars) =>
+    s.isBroadcasting ? resolveConfigValue(world.config.energy.broadcastCost, vars) : 0,
+  createDefault: rng => ({ type: 'broadcast', channel: rng.int(0, 3) }),
+  describe: gene => `broadcast(${gene.channel})`,
+};
+
+const bite: ActuatorDefinition<BiteActuatorGene> = {
+  type: 'bite',
+  outputCount: () => 1,
+  apply(_gene, s, _world, outputs, offset) {
+    s.isBiting = isOn(outputs, offset);
+  },
+  createDefault: () => ({ type: 'bite' }),
+  enabled: config => config.predation !== undefined,
+};
+
+const depositPheromone: ActuatorDefinition<DepositPheromoneActuatorGene> = {
+  type: 'depositPheromone',
+  outputCount: () => 1,
+  apply(gene, s, _world, outputs, offset) {
+    s.isDepositing = isOn(outputs, offset);
+    s.depositChannel = gene.channel;
+  },
+  // Only charged when there is a pheromone field to deposit into
+  energyCost: (_gene, s, world, vars) =>
+    s.isDepositing && world.pheromones && world.config.pheromones
+      ? resolveConfigValue(world.config.pheromones.depositCost, vars)
+      : 0,
+  createDefault: rng => ({ type: 'depositPheromone', channel: rng.int(0, 3) }),
+  enabled: config => config.pheromones !== undefined,
+  describe: gene => `depositPheromone(${gene.channel})`,
+};
+
+const mateChoice: ActuatorDefinition<MateChoiceActuatorGene> = {
+  type: 'mateChoice',
+  outputCount: () => 1,
+  apply(_gene, s, _world, outputs, offset) {
+    s.isAcceptingMate = isOn(outputs, offset);
+  },
+  createDefault: () => ({ type: 'mateChoice' }),
+  enabled: config => config.reproduction.sexes === true,
+};
+
+/** Area of what `s` carries relative to its own (0 = empty-handed). */
+function carriedLoad(s: CreatureState, world: WorldView): number {
+  if (!s.holding) return 0;
+  const itemRadius = s.holding.kind === 'food'
+    ? world.config.food.radius
+    : world.creatureById(s.holding.id)?.dna.body.radius ?? 0;
+  return (itemRadius / s.dna.body.radius) ** 2;
+}
+
+const grab: ActuatorDefinition<GrabActuatorGene> = {
+  type: 'grab',
+  outputCount: () => 1,
+  apply(_gene, s, _world, outputs, offset) {
+    s.isGrabbing = isOn(outputs, offset);
+  },
+  energyCost(_gene, s, world, vars) {
+    const grabCfg = world.config.grab;
+    if (!grabCfg || !s.holding) return 0;
+    return resolveConfigValue(grabCfg.loadCost, vars) * Math.abs(s.velocity) * carriedLoad(s, world);
+  },
+  createDefault: () => ({ type: 'grab' }),
+  enabled: config => config.grab !== undefined,
+};
+
+const sprint: ActuatorDefinition<SprintActuatorGene> = {
+  type: 'sprint',
+  outputCount: () => 1,
+  apply(_gene, s, _world, outputs, offset) {
+    s.sprint = intensity(outputs, offset);
+  },
+  energyCost: (_gene, s, world, vars) =>
+    world.config.sprint && s.sprint > 0 ? resolveConfigValue(world.config.sprint.cost, vars) * s.sprint : 0,
+  createDefault: () => ({ type: 'sprint' }),
+  enabled: config => config.sprint !== undefined,
+};
+
+const shield: ActuatorDefinition<ShieldActuatorGene> = {
+  type: 'shield',
+  outputCount: () => 1,
+  apply(_gene, s, _world, outputs, offset) {
+    s.shield = intensity(outputs, offset);
+  },
+  energyCost: (_gene, s, world, vars) =>
+    world.config.shield && s.shield > 0 ? resolveConfigValue(world.config.shield.cost, vars) * s.shield : 0,
+  createDefault: () => ({ type: 'shield' }),
+  enabled: config => config.shield !== undefined,
+};
+
+const reproduce: ActuatorDefinition<ReproduceActuatorGene> = {
+  type: 'reproduce',
+  outputCount: () => 2, // reproduce + energy share
+  apply(_gene, s, _world, outputs, offset) {
+    s.isReproducing = isOn(outputs, offset);
+    s.reproduceShare = intensity(outputs, offset + 1);
+  },
+  createDefault: () => ({ type: 'reproduce' }),
+  enabled: config => config.reproduction.trigger === 'actuator',
+};
+
+export const BUILTIN_ACTUATORS: ActuatorDefinition[] = [
+  move,
+  attack,
+  eat,
+  donate,
+  broadcast,
+  bite,
+  depositPheromone,
+  mateChoice,
+  grab,
+  sprint,
+  shield,
+  reproduce,
+];
@@ -8,6 +8,7 @@ import {
   mutateDNA,
   crossoverBrain,
   crossoverDNA,
+  inheritLearnedWeights,
   resetInnovationCounter,
 } from './dna.js';
 import type { SensorGene, ActuatorGene, DNA, BrainGenome } from './types.js';
@@ -60,6 +61,35 @@ describe('DNA', () => {
       // 2 + (2*4) + 3 + 1 + (1*2) = 2 + 8 + 3 + 1 + 2 = 16
       expect(countSensorInputs(sensors)).toBe(16);
     });
+
+    it('counts pheromoneSense as 2 per channel', () => {
+      const sensors: SensorGene[] = [{ type: 'pheromoneSense', channels: [0, 2, 3] }];
+      // 2 + 3*2 = 8
+      expect(countSensorInputs(sensors)).toBe(8);
+    });
+
+    it('counts terrainSense as 4', () => {
+      const sensors: SensorGene[] = [{ type: 'terrainSense', lookAhead: 30 }];
+      expect(countSensorInputs(sensors)).toBe(6);
+    });
+
+    it('counts hearing as 2', () => {
+      expect(countSensorInputs([{ type: 'hearing' }])).toBe(4);
+    });
+
+    it('counts the internal-state sensors', () => {
+      expect(countSensorInputs([{ type: 'ageSense' }])).toBe(3);
+      expect(countSensorInputs([{ type: 'damageSense' }])).toBe(3);
+      expect(countSensorInputs([{ type: 'speedSense' }])).toBe(4);
+      expect(countSensorInputs([{ type: 'cooldownSense' }])).toBe(4);
+      expect(countSensorInputs([{ type: 'clockSense', period: 100 }])).toBe(4);
+      expect(countSensorInputs([{ type: 'holdSense' }])).toBe(4);
+    });
+
+    it('counts colorVision as 4 per ray', () => {
+      const sensors: SensorGene[] = [{ type: 'colorVision', rayCount: 3, fov: 1, maxDistance: 50, offsetAngle: 0 }];
+      expect(countSensorInputs(sensors)).toBe(2 + 12);
+    });
   });
 
   describe('countActuatorOutputs', () => {
@@ -72,14 +102,17 @@ describe('DNA', () => {
       expect(countActuatorOutputs(actuators)).toBe(2);
     });
 
-    it('counts attack, eat, donate, broadcast as 1 each', () => {
+    it('counts attack, eat, donate, broadcast, bite, depositPheromone, mateChoice as 1 each', () => {
       const actuators: ActuatorGene[] = [
         { type: 'attack' },
         { type: 'eat' },
         { type: 'donate' },
         { type: 'broadcast', channel: 0 },
+        { type: 'bite' },
+        { type: 'depositPheromone', channel: 1 },
+        { type: 'mateChoice' },
       ];
-      expect(countActuatorOutputs(actuators)).toBe(4);
+      expect(countActuatorOutputs(actuators)).toBe(7);
     });
 
     it('counts all actuators together', () => {
@@ -217,6 +250,116 @@ describe('DNA', () => {
       }
     });
 
+    it('diet mutates only when the gene is present', () => {
+      expect(mutateDNA(baseDNA, 1.0, 1.0, rng).diet).toBeUndefined();
+    });
+
+    it('diet stays in [0, 1] after heavy mutation', () => {
+      let dna: DNA = { ...baseDNA, diet: 0.5 };
+      for (let i = 0; i < 100; i++) {
+        dna = mutateDNA(dna, 1.0, 1.0, rng);
+        expect(dna.diet).toBeGreaterThanOrEqual(0);
+        expect(dna.diet).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('lifespan mutates only when the gene is present', () => {
+      expect(mutateDNA(baseDNA, 1.0, 1.0, rng).lifespan).toBeUndefined();
+
+      const values = new Set<number>();
+      let dna: DNA = { ...baseDNA, lifespan: 1000 };
+      for (let i = 0; i < 20; i++) {
+        dna = mutateDNA(dna, 1.0, 0.5, rng);
+        expect(Number.isInteger(dna.lifespan)).toBe(true);
+        expect(dna.lifespan).toBeGreaterThanOrEqual(1);
+        values.add(dna.lifespan!);
+      }
+      expect(values.size).toBeGreaterThan(1);
+    });
+
+    it('resistance entries stay in [0, 1] after heavy mutation', () => {
+      let dna: DNA = { ...baseDNA, resistance: [0, 0.5, 1] };
+      for (let i = 0; i < 100; i++) {
+        dna = mutateDNA(dna, 1.0, 1.0, rng);
+        expect(dna.resistance).toHaveLength(3);
+        for (const r of dna.resistance!) {
+          expect(r).toBeGreaterThanOrEqual(0);
+          expect(r).toBeLessThanOrEqual(1);
+        }
+      }
+    });
+
+    it('colour mutates only when the gene is present and stays in [0, 1]', () => {
+      expect(mutateDNA(baseDNA, 1.0, 1.0, rng).color).toBeUndefined();
+
+      let dna: DNA = { ...baseDNA, color: { r: 0.5, g: 0, b: 1 } };
+      const reds = new Set<number>();
+      for (let i = 0; i < 100; i++) {
+        dna = mutateDNA(dna, 1.0, 1.0, rng);
+        for (const v of [dna.color!.r, dna.color!.g, dna.color!.b]) {
+          expect(v).toBeGreaterThanOrEqual(0);
+          expect(v).toBeLessThanOrEqual(1);
+        }
+        reds.add(dna.color!.r);
+      }
+      expect(reds.size).toBeGreaterThan(1);
+    });
+
+    it('colorVision parameters mutate within range', () => {
+      let dna: DNA = {
+        ...baseDNA,
+        sensors: [...baseDNA.sensors, { type: 'colorVision', rayCount: 3, fov: 1, maxDistance: 50, offsetAngle: 0 }],
+      };
+      for (let i = 0; i < 50; i++) {
+        dna = mutateDNA(dna, 1.0, 1.0, rng);
+        for (const sensor of dna.sensors) {
+          if (sensor.type !== 'colorVision') continue;
+          expect(sensor.rayCount).toBeGreaterThanOrEqual(1);
+          expect(sensor.rayCount).toBeLessThanOrEqual(16);
+          expect(sensor.maxDistance).toBeGreaterThanOrEqual(10);
+          expect(sensor.maxDistance).toBeLessThanOrEqual(200);
+        }
+      }
+    });
+
+    it('clockSense period mutates within range', () => {
+      const dna: DNA = { ...baseDNA, sensors: [...baseDNA.sensors, { type: 'clockSense', period: 300 }] };
+      const periods = new Set<number>();
+      for (let i = 0; i < 100; i++) {
+        const child = mutateDNA(dna, 1.0, 5.0, rng);
+        for (const sensor of child.sensors) {
+          if (sensor.type !== 'clockSense') continue;
+          expect(sensor.period).toBeGreaterThanOrEqual(10);
+          expect(sensor.period).toBeLessThanOrEqual(2000);
+          periods.add(sensor.period);
+        }
+      }
+      expect(periods.size).toBeGreaterThan(1);
+    });
+
+    it('structural mutation can add every internal-state sensor, with brain I/O reconciled', () => {
+      const wanted = new Set(['ageSense', 'speedSense', 'cooldownSense', 'damageSense', 'clockSense']);
+      for (let i = 0; i < 500 && wanted.size > 0; i++) {
+        const child = mutateDNA(baseDNA, 1.0, 0.5, rng);
+        for (const sensor of child.sensors) {
+          if (!wanted.has(sensor.type)) continue;
+          wanted.delete(sensor.type);
+          const inputs = child.brain.nodeGenes.filter(n => n.type === 'input').length;
+          expect(inputs).toBe(countSensorInputs(child.sensors));
+        }
+      }
+      expect([...wanted]).toEqual([]);
+    });
+
+    it('high mutation rate can add the bite actuator', () => {
+      let found = false;
+      for (let i = 0; i < 200 && !found; i++) {
+        const child = mutateDNA(baseDNA, 1.0, 0.5, rng);
+        found = child.actuators.some(a => a.type === 'bite');
+      }
+      expect(found).toBe(true);
+    });
+
     it('brain I/O is always reconciled after mutation', () => {
       let dna = baseDNA;
       for (let i = 0; i < 50; i++) {
@@ -306,6 +449,47 @@ describe('DNA', () => {
       expect(foundHidden).toBe(true);
     });
 
+    it('self-adaptive parameters mutate log-normally within the global bounds', () => {
+      const gene = { weightRate: 0.1, structuralRate: 0.1, strength: 0.2 };
+      expect(mutateDNA({ ...baseDNA, mutation: gene }, 0.1, 0.2, rng).mutation).toEqual(gene);
+
+      let dna: DNA = { ...baseDNA, mutation: gene };
+      const rates = new Set<number>();
+      for (let i = 0; i < 100; i++) {
+        dna = mutateDNA(dna, 0.1, 0.2, rng, { selfAdaptive: { learningRate: 0.5, range: 4 } });
+        const m = dna.mutation!;
+        rates.add(m.weightRate);
+        expect(m.weightRate).toBeGreaterThanOrEqual(0.025);
+        expect(m.weightRate).toBeLessThanOrEqual(0.4);
+        expect(m.structuralRate).toBeGreaterThanOrEqual(0.025);
+        expect(m.structuralRate).toBeLessThanOrEqual(0.4);
+        expect(m.strength).toBeGreaterThanOrEqual(0.05);
+        expect(m.strength).toBeLessThanOrEqual(0.8);
+      }
+      expect(rates.size).toBeGreaterThan(10);
+    });
+
+    it('self-adaptive rates are capped at 1', () => {
+      let dna: DNA = { ...baseDNA, mutation: { weightRate: 0.9, structuralRate: 0.9, strength: 1 } };
+      for (let i = 0; i < 50; i++) {
+        dna = mutateDNA(dna, 0.5, 1, rng, { selfAdaptive: { learningRate: 1 } });
+        expect(dna.mutation!.weightRate).toBeLessThanOrEqual(1);
+        expect(dna.mutation!.structuralRate).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it("a genome's own rates replace the global ones", () => {
+      const still: DNA = { ...baseDNA, mutation: { weightRate: 1e-6, structuralRate: 1e-6, strength: 1e-6 } };
+      const child = mutateDNA(still, 1.0, 1.0, rng, { selfAdaptive: { learningRate: 0, range: 1e6 } });
+      expect(child.brain).toEqual(baseDNA.brain);
+      expect(child.sensors).toEqual(baseDNA.sensors);
+
+      // The same genome without self-adaptation mutates at the global rate
+      const wild = mutateDNA(still, 1.0, 1.0, rng);
+      expect(wild.brain.connectionGenes.map(c => c.weight))
+        .not.toEqual(baseDNA.brain.connectionGenes.map(c => c.weight));
+    });
+
     it('DNA is JSON-serializable (no cycles, no special objects)', () => {
       let dna = baseDNA;
       for (let i = 0; i < 10; i++) {
@@ -319,6 +503,48 @@ describe('DNA', () => {
     });
   });
 
+  describe('inheritLearnedWeights', () => {
+    const repro = { energyThreshold: 80, offspringEnergyShare: 0.4, mutationRate: 0.1, mutationStrength: 0.2, cooldown: 20, crossoverRate: 0 };
+
+    function withWeights(weights: number[]): DNA {
+      const dna = createDefaultDNA(0, new PRNG(1));
+      dna.brain.connectionGenes = weights.map((weight, i) => ({
+        innovationNumber: i, fromNode: 0, toNode: 1, weight, enabled: true,
+      }));
+      return dna;
+    }
+
+    it('darwinian inheritance passes the genome on unchanged', () => {
+      const dna = withWeights([0.5, -1]);
+      expect(inheritLearnedWeights(dna, [2, 2], repro, new PRNG(1))).toBe(dna);
+      expect(inheritLearnedWeights(dna, [2, 2], { ...repro, inheritance: 'darwinian' }, new PRNG(1))).toBe(dna);
+    });
+
+    it('lamarckian inheritance writes the learned weights into a copy of the genome', () => {
+      const dna = withWeights([0.5, -1, 3]);
+      const child = inheritLearnedWeights(dna, [1.5, -2, 9], { ...repro, inheritance: 'lamarckian' }, new PRNG(1));
+      expect(child.brain.connectionGenes.map(c => c.weight)).toEqual([1.5, -2, 5]);
+      expect(dna.brain.connectionGenes.map(c => c.weight)).toEqual([0.5, -1, 3]);
+    });
+
+    it('partial inheritance passes on a noisy share of the learned change', () => {
+      const dna = withWeights([0, 0]);
+      const exact = inheritLearnedWeights(
+        dna, [1, -2], { ...repro, inheritance: 'partial', inheritanceShare: 0.25, inheritanceNoise: 0 }, new PRNG(1),
+      );
+      expect(exact.brain.connectionGenes.map(c => c.weight)).toEqual([0.25, -0.5]);
+
+      const rng = new PRNG(5);
+      const shares = new Set<number>();
+      for (let i = 0; i < 20; i++) {
+        const noisy = inheritLearnedWeights(dna, [1], { ...repro, inheritance: 'partial' }, rng);
+        shares.add(noisy.brain.connectionGenes[0].weight);
+      }
+      expect(shares.size).toBeGreaterThan(1);
+      for (const share of shares) expect(Math.abs(share - 0.5)).toBeLessThan(0.6);
+    });
+  });
+
   describe('crossoverBrain', () => {
     it('produces a valid brain genome with matching genes from both parents', () => {
       const rng = new PRNG(42);
@@ -454,6 +680,65 @@ describe('DNA', () => {
       expect(child.body.radius).toBe(6);
     });
 
+    it('child diet is average of parents (missing = 0)', () => {
+      const rng = new PRNG(42);
+      const dna1 = createDefaultDNA(0, rng);
+      dna1.diet = 0.8;
+      const dna2 = createDefaultDNA(0, rng);
+
+      expect(crossoverDNA(dna1, dna2, 10, 5, rng).diet).toBeCloseTo(0.4, 10);
+      delete dna1.diet;
+      expect(crossoverDNA(dna1, dna2, 10, 5, rng).diet).toBeUndefined();
+    });
+
+    it('child mutation parameters are the geometric mean of the parents', () => {
+      const rng = new PRNG(42);
+      const dna1 = createDefaultDNA(0, rng);
+      const dna2 = createDefaultDNA(0, rng);
+      expect(crossoverDNA(dna1, dna2, 10, 5, rng).mutation).toBeUndefined();
+      dna1.mutation = { weightRate: 0.04, structuralRate: 0.1, strength: 0.5 };
+      expect(crossoverDNA(dna1, dna2, 10, 5, rng).mutation).toEqual(dna1.mutation);
+      dna2.mutation = { weightRate: 0.01, structuralRate: 0.1, strength: 0.02 };
+      const m = crossoverDNA(dna1, dna2, 10, 5, rng).mutation!;
+      expect(m.weightRate).toBeCloseTo(0.02, 10);
+      expect(m.structuralRate).toBeCloseTo(0.1, 10);
+      expect(m.strength).toBeCloseTo(0.1, 10);
+    });
+
+    it('child lifespan averages the parents that carry the gene', () => {
+      const rng = new PRNG(42);
+      const dna1 = createDefaultDNA(0, rng);
+      dna1.lifespan = 1000;
+      const dna2 = createDefaultDNA(0, rng);
+
+      expect(crossoverDNA(dna1, dna2, 10, 5, rng).lifespan).toBe(1000);
+      dna2.lifespan = 2000;
+      expect(crossoverDNA(dna1, dna2, 10, 5, rng).lifespan).toBe(1500);
+    });
+
+    it('child colour averages the parents that carry the gene', () => {
+      const rng = new PRNG(42);
+      const dna1 = createDefaultDNA(0, rng);
+      dna1.color = { r: 1, g: 0, b: 0.5 };
+      const dna2 = createDefaultDNA(0, rng);
+
+      expect(crossoverDNA(dna1, dna2, 10, 5, rng).color).toEqual({ r: 1, g: 0, b: 0.5 });
+      dna2.color = { r: 0, g: 1, b: 0.5 };
+      expect(crossoverDNA(dna1, dna2, 10, 5, rng).color).toEqual({ r: 0.5, g: 0.5, b: 0.5 });
+    });
+
+    it('child resistance is the per-strain average (missing = 0)', () => {
+      const rng = new PRNG(42);
+      const dna1 = createDefaultDNA(0, rng);
+      dna1.resistance = [0.8, 0.2];
+      const dna2 = createDefaultDNA(0, rng);
+      dna2.resistance = [0.4];
+
+      const child = crossoverDNA(dna1, dna2, 10, 5, rng);
+      expect(child.resistance![0]).toBeCloseTo(0.6, 10);
+      expect(child.resistance![1]).toBeCloseTo(0.1, 10);
+    });
+
     it('child groupId comes from fitter parent', () => {
       const rng = new PRNG(42);
       const dna1 = createDefaultDNA(1, rng);
@@ -1,5 +1,7 @@
 import { PRNG } from './prng.js';
+import { getSensorDefinition, getActuatorDefinition, sensorDefinitions, actuatorDefinitions } from './registry.js';
 import type {
+  WorldConfig,
   DNA,
   BrainGenome,
   SensorGene,
@@ -7,6 +9,8 @@ import type {
   NodeGene,
   ConnectionGene,
   ActivationType,
+  MutationGene,
+  SelfAdaptiveMutationConfig,
 } from './types.js';
 
 // ============================================================
@@ -16,20 +20,7 @@ import type {
 export function countSensorInputs(sensors: SensorGene[]): number {
   let count = 2; // bias + random (always present)
   for (const s of sensors) {
-    switch (s.type) {
-      case 'rayVision':
-        count += s.rayCount * 4; // distance, type_food, type_creature, type_iff
-        break;
-      case 'touch':
-        count += 3; // touching_food, touching_creature, touching_iff
-        break;
-      case 'energySense':
-        count += 1; // energy_level
-        break;
-      case 'broadcastReceiver':
-        count += s.channels.length * 2; // strength + direction per channel
-        break;
-    }
+    count += getSensorDefinition(s.type)?.inputCount(s) ?? 0;
   }
   return count;
 }
@@ -37,17 +28,7 @@ export function countSensorInputs(sensors: SensorGene[]): number {
 export function countActuatorOutputs(actuators: ActuatorGene[]): number {
   let count = 0;
   for (const a of actuators) {
-    switch (a.type) {
-      case 'move':
-        count += 2; // forward + turn
-        break;
-      case 'attack':
-      case 'eat':
-      case 'donate':
-      case 'broadcast':
-        count += 1;
-        break;
-    }
+    count += getActuatorDefinition(a.type)?.outputCount(a) ?? 0;
   }
   return count;
 }
@@ -339,11 +320,11 @@ export function crossoverDNA(
   // For duplicate types, randomly pick one version
   const sensorMap = new Map<string, SensorGene>();
   for (const s of fitter.sensors) {
-    const key = s.type + (s.type === 'rayVision' ? `-${Math.round(s.offsetAngle * 100)}` : '');
+    const key = sensorKey(s);
     sensorMap.set(key, JSON.parse(JSON.stringify(s)));
   }
   for (const s of other.sensors) {
-    const key = s.type + (s.type === 'rayVision' ? `-${Math.round(s.offsetAngle * 100)}` : '');
+    const key = sensorKey(s);
     if (!sensorMap.has(key)) {
       // Include from other parent with 50% chance
       if (rng.chance(0.5)) {
@@ -392,12 +373,80 @@ export function crossoverDNA(
     brain: childBrain,
   };
 
+  // Diet: average (only once either parent has evolved one)
+  if (dna1.diet !== undefined || dna2.diet !== undefined) {
+    child.diet = ((dna1.diet ?? 0) + (dna2.diet ?? 0)) / 2;
+  }
+
+  // Lifespan: average of the parents that carry the gene
+  if (dna1.lifespan !== undefined || dna2.lifespan !== undefined) {
+    child.lifespan = ((dna1.lifespan ?? dna2.lifespan!) + (dna2.lifespan ?? dna1.lifespan!)) / 2;
+  }
+
+  // Colour: per-channel average of the parents that carry the gene
+  if (dna1.color !== undefined || dna2.color !== undefined) {
+    const c1 = dna1.color ?? dna2.color!;
+    const c2 = dna2.color ?? dna1.color!;
+    child.color = { r: (c1.r + c2.r) / 2, g: (c1.g + c2.g) / 2, b: (c1.b + c2.b) / 2 };
+  }
+
+  // Resistance: per-strain average (missing entries = 0)
+  if (dna1.resistance !== undefined || dna2.resistance !== undefined) {
+    const r1 = dna1.resistance ?? [];
+    const r2 = dna2.resistance ?? [];
+    child.resistance = Array.from(
+      { length: Math.max(r1.length, r2.length) },
+      (_, i) => ((r1[i] ?? 0) + (r2[i] ?? 0)) / 2,
+    );
+  }
+
+  // Mutation parameters: geometric mean (they mutate log-normally)
+  if (dna1.mutation !== undefined || dna2.mutation !== undefined) {
+    const m1 = dna1.mutation ?? dna2.mutation!;
+    const m2 = dna2.mutation ?? dna1.mutation!;
+    child.mutation = {
+      weightRate: Math.sqrt(m1.weightRate * m2.weightRate),
+      structuralRate: Math.sqrt(m1.structuralRate * m2.structuralRate),
+      strength: Math.sqrt(m1.strength * m2.strength),
+    };
+  }
+
   // Reconcile brain I/O to match new sensor/actuator set
   reconcileBrainIO(child, rng);
 
   return child;
 }
 
+// ============================================================
+// Inheritance of learned weights
+// ============================================================
+
+/**
+ * Genome a parent passes on, given its runtime (Hebbian-modified) weights
+ * in connection-gene order (see `exportWeights`). Darwinian inheritance
+ * returns `dna` itself; the other modes return a copy whose connection
+ * weights move toward the learned ones: all the way ('lamarckian') or by
+ * `inheritanceShare` ± `inheritanceNoise` per connection ('partial').
+ */
+export function inheritLearnedWeights(
+  dna: DNA,
+  learned: ArrayLike<number>,
+  reproduction: WorldConfig['reproduction'],
+  rng: PRNG,
+): DNA {
+  const mode = reproduction.inheritance ?? 'darwinian';
+  if (mode === 'darwinian') return dna;
+
+  const share = mode === 'partial' ? reproduction.inheritanceShare ?? 0.5 : 1;
+  const noise = mode === 'partial' ? reproduction.inheritanceNoise ?? 0.1 : 0;
+  const connectionGenes = dna.brain.connectionGenes.map((conn, i) => {
+    if (i >= learned.length) return { ...conn };
+    const factor = noise > 0 ? share + rng.gaussian() * noise : share;
+    return { ...conn, weight: clamp(conn.weight + (learned[i] - conn.weight) * factor, -5, 5) };
+  });
+  return { ...dna, brain: { ...dna.brain, connectionGenes } };
+}
+
 // ============================================================
 // DNA Mutation
 // ============================================================
@@ -408,73 +457,124 @@ function clamp(v: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, v));
 }
 
-function wrapAngle(a: number): number {
-  while (a > Math.PI) a -= 2 * Math.PI;
-  while (a < -Math.PI) a += 2 * Math.PI;
-  return a;
+/** Crossover identity of a sensor gene (see `SensorDefinition.key`). */
+function sensorKey(s: SensorGene): string {
+  return getSensorDefinition(s.type)?.key?.(s) ?? s.type;
 }
 
-export function mutateDNA(parent: DNA, mutationRate: number, mutationStrength: number, rng: PRNG): DNA {
+/**
+ * Log-normal step of a genome's own mutation parameters, kept within
+ * `global / range .. global * range` (rates capped at 1).
+ */
+function adaptMutationGene(
+  gene: MutationGene,
+  mutationRate: number,
+  mutationStrength: number,
+  config: SelfAdaptiveMutationConfig,
+  rng: PRNG,
+): MutationGene {
+  const tau = config.learningRate ?? 0.2;
+  const range = config.range ?? 10;
+  const step = (value: number, global: number, max: number) =>
+    clamp(value * Math.exp(tau * rng.gaussian()), global / range, Math.min(max, global * range));
+  return {
+    weightRate: step(gene.weightRate, mutationRate, 1),
+    structuralRate: step(gene.structuralRate, mutationRate, 1),
+    strength: step(gene.strength, mutationStrength, Infinity),
+  };
+}
+
+export interface MutationOptions {
+  /**
+   * Config of the world the child lives in: structural mutation only adds
+   * sensor/actuator types enabled there. Omitted = every registered type.
+   */
+  config?: WorldConfig;
+  /** Self-adaptive mutation (see `reproduction.selfAdaptive`). Omitted = global rates only. */
+  selfAdaptive?: SelfAdaptiveMutationConfig;
+}
+
+/**
+ * Mutate a copy of `parent`. With `selfAdaptive` and a genome carrying
+ * `mutation`, the genome's own parameters mutate first and then drive the
+ * rest of the mutation; the global rate and strength only bound them.
+ */
+export function mutateDNA(
+  parent: DNA,
+  mutationRate: number,
+  mutationStrength: number,
+  rng: PRNG,
+  options: MutationOptions = {},
+): DNA {
   const child: DNA = JSON.parse(JSON.stringify(parent));
+  const { config, selfAdaptive } = options;
+
+  // 0. Self-adaptive mutation parameters
+  let weightRate = mutationRate;
+  let structuralRate = mutationRate;
+  let strength = mutationStrength;
+  if (selfAdaptive && child.mutation) {
+    child.mutation = adaptMutationGene(child.mutation, mutationRate, mutationStrength, selfAdaptive, rng);
+    ({ weightRate, structuralRate, strength } = child.mutation);
+  }
 
   // 1. Body mutation
-  if (rng.chance(mutationRate)) {
+  if (rng.chance(weightRate)) {
     child.body.radius = clamp(
-      child.body.radius + rng.gaussian() * mutationStrength * 7,
+      child.body.radius + rng.gaussian() * strength * 7,
       3, 10
     );
   }
 
-  // 2. hasIFF mutation (rare)
-  if (rng.chance(mutationRate / 5)) {
-    child.hasIFF = !child.hasIFF;
+  // 1b. Diet mutation (only once the world has assigned the gene)
+  if (child.diet !== undefined && rng.chance(weightRate)) {
+    child.diet = clamp(child.diet + rng.gaussian() * strength, 0, 1);
   }
 
-  // 3. Sensor parameter mutations
-  for (const sensor of child.sensors) {
-    if (sensor.type === 'rayVision') {
-      if (rng.chance(mutationRate)) {
-        sensor.fov = clamp(sensor.fov + rng.gaussian() * mutationStrength * 2, 0.1, Math.PI * 2);
-      }
-      if (rng.chance(mutationRate)) {
-        sensor.maxDistance = clamp(
-          sensor.maxDistance + rng.gaussian() * mutationStrength * 50, 10, 200
-        );
-      }
-      if (rng.chance(mutationRate)) {
-        sensor.offsetAngle = wrapAngle(sensor.offsetAngle + rng.gaussian() * mutationStrength);
-      }
-      if (rng.chance(mutationRate / 2)) {
-        sensor.rayCount = clamp(sensor.rayCount + (rng.chance(0.5) ? 1 : -1), 1, 16);
+  // 1c. Lifespan mutation: multiplicative jitter (the world clamps the range)
+  if (child.lifespan !== undefined && rng.chance(weightRate)) {
+    child.lifespan = Math.max(1, Math.round(child.lifespan * (1 + rng.gaussian() * strength * 0.5)));
+  }
+
+  // 1d. Resistance mutation: jitter each strain entry independently
+  if (child.resistance) {
+    for (let i = 0; i < child.resistance.length; i++) {
+      if (rng.chance(weightRate)) {
+        child.resistance[i] = clamp(child.resistance[i] + rng.gaussian() * strength * 0.5, 0, 1);
       }
     }
-    if (sensor.type === 'broadcastReceiver') {
-      if (rng.chance(mutationRate / 2)) {
-        if (sensor.channels.length > 0 && rng.chance(0.5)) {
-          // Remove a channel
-          const idx = rng.int(0, sensor.channels.length - 1);
-          sensor.channels.splice(idx, 1);
-        } else {
-          // Add a channel (0..3 by default)
-          const newCh = rng.int(0, 3);
-          if (!sensor.channels.includes(newCh)) {
-            sensor.channels.push(newCh);
-          }
-        }
+  }
+
+  // 1e. Colour mutation: jitter each channel independently
+  if (child.color) {
+    for (const channel of ['r', 'g', 'b'] as const) {
+      if (rng.chance(weightRate)) {
+        child.color[channel] = clamp(child.color[channel] + rng.gaussian() * strength * 0.5, 0, 1);
       }
     }
   }
 
+  // 2. hasIFF mutation (rare)
+  if (rng.chance(structuralRate / 5)) {
+    child.hasIFF = !child.hasIFF;
+  }
+
+  // 3. Sensor/actuator parameter mutations
+  for (const sensor of child.sensors) {
+    getSensorDefinition(sensor.type)?.mutate?.(sensor, weightRate, strength, rng);
+  }
+  for (const actuator of child.actuators) {
+    getActuatorDefinition(actuator.type)?.mutate?.(actuator, weightRate, strength, rng);
+  }
+
   // 4. Structural mutations: add/remove sensors
-  if (rng.chance(mutationRate / 3)) {
-    const newSensorTypes: SensorGene[] = [
-      { type: 'rayVision', rayCount: 3, fov: 1.5, maxDistance: 50, offsetAngle: rng.range(-Math.PI, Math.PI) },
-      { type: 'touch' },
-      { type: 'broadcastReceiver', channels: [rng.int(0, 3)] },
-    ];
+  if (rng.chance(structuralRate / 3)) {
+    const newSensorTypes = sensorDefinitions()
+      .filter(def => def.createDefault && (!config || (def.enabled?.(config) ?? true)))
+      .map(def => def.createDefault!(rng));
     child.sensors.push(rng.pick(newSensorTypes));
   }
-  if (rng.chance(mutationRate / 3) && child.sensors.length > 1) {
+  if (rng.chance(structuralRate / 3) && child.sensors.length > 1) {
     // Don't remove energySense
     const removable = child.sensors
       .map((s, i) => ({ s, i }))
@@ -486,20 +586,17 @@ export function mutateDNA(parent: DNA, mutationRate: number, mutationStrength: n
   }
 
   // 5. Structural mutations: add/remove actuators
-  if (rng.chance(mutationRate / 4)) {
+  if (rng.chance(structuralRate / 4)) {
     const existing = new Set(child.actuators.map(a => a.type));
-    const candidates: ActuatorGene[] = [
-      { type: 'attack' as const },
-      { type: 'eat' as const },
-      { type: 'donate' as const },
-      { type: 'broadcast' as const, channel: rng.int(0, 3) },
-    ];
+    const candidates = actuatorDefinitions()
+      .filter(def => def.createDefault && (!config || (def.enabled?.(config) ?? true)))
+      .map(def => def.createDefault!(rng));
     const possible = candidates.filter(a => !existing.has(a.type));
     if (possible.length > 0) {
       child.actuators.push(rng.pick(possible));
     }
   }
-  if (rng.chance(mutationRate / 4) && child.actuators.length > 1) {
+  if (rng.chance(structuralRate / 4) && child.actuators.length > 1) {
     const removable = child.actuators
       .map((a, i) => ({ a, i }))
       .filter(({ a }) => a.type !== 'move');
@@ -510,7 +607,7 @@ export function mutateDNA(parent: DNA, mutationRate: number, mutationStrength: n
   }
 
   // 6. Mutate brain (see brain.ts for NEAT mutations)
-  mutateBrainGenome(child.brain, mutationRate, mutationStrength, rng);
+  mutateBrainGenome(child.brain, weightRate, structuralRate, strength, rng);
 
   // 7. Reconcile brain inputs/outputs if sensors/actuators changed
   reconcileBrainIO(child, rng);
@@ -518,25 +615,37 @@ export function mutateDNA(parent: DNA, mutationRate: number, mutationStrength: n
   return child;
 }
 
+/**
+ * Copy of `dna` with `gene` appended to its actuators and new brain output
+ * nodes (each wired to a random input) for the extra outputs.
+ */
+export function withActuator(dna: DNA, gene: ActuatorGene, rng: PRNG): DNA {
+  const child: DNA = JSON.parse(JSON.stringify(dna));
+  child.actuators.push(gene);
+  reconcileBrainIO(child, rng);
+  return child;
+}
+
 // ============================================================
 // Brain genome mutation (NEAT)
 // ============================================================
 
 function mutateBrainGenome(
   brain: BrainGenome,
-  mutationRate: number,
+  weightRate: number,
+  structuralRate: number,
   mutationStrength: number,
   rng: PRNG,
 ): void {
   // Weight jitter
   for (const conn of brain.connectionGenes) {
-    if (rng.chance(mutationRate)) {
+    if (rng.chance(weightRate)) {
       conn.weight = clamp(conn.weight + rng.gaussian() * mutationStrength, -5, 5);
     }
   }
 
   // Add connection
-  if (rng.chance(mutationRate * 0.5)) {
+  if (rng.chance(structuralRate * 0.5)) {
     const nodes = brain.nodeGenes;
     const from = rng.pick(nodes);
     const to = rng.pick(nodes.filter(n => n.type !== 'input'));
@@ -557,7 +666,7 @@ function mutateBrainGenome(
   }
 
   // Add node (split existing connection)
-  if (rng.chance(mutationRate * 0.3)) {
+  if (rng.chance(structuralRate * 0.3)) {
     const enabled = brain.connectionGenes.filter(c => c.enabled);
     if (enabled.length > 0) {
       const conn = rng.pick(enabled);
@@ -588,7 +697,7 @@ function mutateBrainGenome(
   }
 
   // Toggle connection
-  if (rng.chance(mutationRate * 0.1)) {
+  if (rng.chance(structuralRate * 0.1)) {
     if (brain.connectionGenes.length > 0) {
       const conn = rng.pick(brain.connectionGenes);
       conn.enabled = !conn.enabled;
@@ -596,7 +705,7 @@ function mutateBrainGenome(
   }
 
   // Change activation of hidden node
-  if (rng.chance(mutationRate * 0.1)) {
+  if (rng.chance(structuralRate * 0.1)) {
     const hiddens = brain.nodeGenes.filter(n => n.type === 'hidden');
     if (hiddens.length > 0) {
       const node = rng.pick(hiddens);
@@ -605,7 +714,7 @@ function mutateBrainGenome(
   }
 
   // Plasticity rate jitter
-  if (rng.chance(mutationRate)) {
+  if (rng.chance(weightRate)) {
     brain.plasticityRate = clamp(
       brain.plasticityRate + rng.gaussian() * 0.005,
       0, 0.1
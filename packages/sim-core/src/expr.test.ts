@@ -149,6 +149,14 @@ describe('evalExpr', () => {
     expect(evalExpr({ op: 'sqrt', arg: lit(25) }, ctx)).toBe(5);
   });
 
+  it('evaluates sin', () => {
+    expect(evalExpr({ op: 'sin', arg: lit(Math.PI / 2) }, ctx)).toBeCloseTo(1, 10);
+  });
+
+  it('evaluates cos', () => {
+    expect(evalExpr({ op: 'cos', arg: lit(Math.PI) }, ctx)).toBeCloseTo(-1, 10);
+  });
+
   it('evaluates pow', () => {
     const expr: Expr = { op: 'pow', args: [lit(2), lit(3)] };
     expect(evalExpr(expr, ctx)).toBe(8);
@@ -219,6 +227,8 @@ describe('compileExpr', () => {
     { name: 'floor', expr: { op: 'floor', arg: lit(3.9) }, expected: 3 },
     { name: 'ceil', expr: { op: 'ceil', arg: lit(3.1) }, expected: 4 },
     { name: 'sqrt', expr: { op: 'sqrt', arg: lit(16) }, expected: 4 },
+    { name: 'sin', expr: { op: 'sin', arg: lit(0) }, expected: 0 },
+    { name: 'cos', expr: { op: 'cos', arg: lit(0) }, expected: 1 },
     { name: 'pow', expr: { op: 'pow', args: [lit(3), lit(2)] }, expected: 9 },
   ];
 
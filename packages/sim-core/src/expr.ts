@@ -47,9 +47,9 @@ export interface IfExpr {
   readonly else: Expr;
 }
 
-/** Unary abs / neg / floor / ceil / sqrt. */
+/** Unary abs / neg / floor / ceil / sqrt / sin / cos. */
 export interface UnaryExpr {
-  readonly op: 'abs' | 'neg' | 'floor' | 'ceil' | 'sqrt';
+  readonly op: 'abs' | 'neg' | 'floor' | 'ceil' | 'sqrt' | 'sin' | 'cos';
   readonly arg: Expr;
 }
 
@@ -166,6 +166,12 @@ export function evalExpr(expr: Expr, ctx: ExprContext): number {
     case 'sqrt':
       return Math.sqrt(evalExpr(expr.arg, ctx));
 
+    case 'sin':
+      return Math.sin(evalExpr(expr.arg, ctx));
+
+    case 'cos':
+      return Math.cos(evalExpr(expr.arg, ctx));
+
     case 'pow':
       return Math.pow(evalExpr(expr.args[0], ctx), evalExpr(expr.args[1], ctx));
 
@@ -333,6 +339,16 @@ export function compileExpr(expr: Expr): CompiledExpr {
       return (ctx) => Math.sqrt(fn(ctx));
     }
 
+    case 'sin': {
+      const fn = compileExpr(expr.arg);
+      return (ctx) => Math.sin(fn(ctx));
+    }
+
+    case 'cos': {
+      const fn = compileExpr(expr.arg);
+      return (ctx) => Math.cos(fn(ctx));
+    }
+
     case 'pow': {
       const fBase = compileExpr(expr.args[0]);
       const fExp = compileExpr(expr.args[1]);
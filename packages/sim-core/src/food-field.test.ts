@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { FoodField } from './food-field.js';
+import { PRNG } from './prng.js';
+import type { FoodDistributionConfig } from './types.js';
+
+function fieldConfig(overrides: Partial<FoodDistributionConfig> = {}): FoodDistributionConfig {
+  return {
+    backgroundWeight: 0,
+    hotspots: [],
+    biomes: [],
+    ...overrides,
+  };
+}
+
+describe('FoodField', () => {
+  describe('samplePosition', () => {
+    it('samples uniformly when there are no hotspots', () => {
+      const field = new FoodField(fieldConfig({ backgroundWeight: 1 }), 200, 100);
+      const rng = new PRNG(1);
+      for (let i = 0; i < 100; i++) {
+        const p = field.samplePosition(rng);
+        expect(p.x).toBeGreaterThanOrEqual(0);
+        expect(p.x).toBeLessThan(200);
+        expect(p.y).toBeGreaterThanOrEqual(0);
+        expect(p.y).toBeLessThan(100);
+      }
+    });
+
+    it('concentrates samples around a hotspot', () => {
+      const field = new FoodField(fieldConfig({
+        hotspots: [{ x: 50, y: 50, sigma: 5, weight: 1 }],
+      }), 200, 200);
+      const rng = new PRNG(2);
+      let near = 0;
+      for (let i = 0; i < 200; i++) {
+        const p = field.samplePosition(rng);
+        if (Math.hypot(p.x - 50, p.y - 50) < 15) near++;
+      }
+      // 3 sigma → nearly all samples
+      expect(near).toBeGreaterThan(190);
+    });
+
+    it('splits samples between background and hotspots by weight', () => {
+      const field = new FoodField(fieldConfig({
+        backgroundWeight: 1,
+        hotspots: [{ x: 100, y: 100, sigma: 1, weight: 3 }],
+      }), 1000, 1000);
+      const rng = new PRNG(3);
+      let inHotspot = 0;
+      const n = 1000;
+      for (let i = 0; i < n; i++) {
+        const p = field.samplePosition(rng);
+        if (Math.hypot(p.x - 100, p.y - 100) < 5) inHotspot++;
+      }
+      expect(inHotspot / n).toBeGreaterThan(0.68);
+      expect(inHotspot / n).toBeLessThan(0.82);
+    });
+
+    it('wraps hotspot samples around the torus', () => {
+      const field = new FoodField(fieldConfig({
+        hotspots: [{ x: 0, y: 0, sigma: 10, weight: 1 }],
+      }), 100, 100);
+      const rng = new PRNG(4);
+      for (let i = 0; i < 100; i++) {
+        const p = field.samplePosition(rng);
+        expect(p.x).toBeGreaterThanOrEqual(0);
+        expect(p.x).toBeLessThan(100);
+        expect(p.y).toBeGreaterThanOrEqual(0);
+        expect(p.y).toBeLessThan(100);
+      }
+    });
+  });
+
+  describe('hotspot drift', () => {
+    it('moves hotspots by their drift each step and wraps', () => {
+      const field = new FoodField(fieldConfig({
+        hotspots: [{ x: 95, y: 10, sigma: 5, weight: 1, driftX: 2, driftY: -4 }],
+      }), 100, 100);
+      field.step();
+      field.step();
+      field.step();
+      const [h] = field.getHotspotPositions();
+      expect(h.x).toBeCloseTo(1, 5);
+      expect(h.y).toBeCloseTo(98, 5);
+    });
+  });
+
+  describe('biomes', () => {
+    const biomeCfg = fieldConfig({
+      biomes: [
+        { name: 'meadow', x: 10, y: 10, width: 30, height: 20, spawnRate: 1, nutrition: 50 },
+        { name: 'corner', x: 90, y: 90, width: 20, height: 20, spawnRate: 1 },
+      ],
+    });
+
+    it('finds the biome containing a position', () => {
+      const field = new FoodField(biomeCfg, 100, 100);
+      expect(field.biomeAt({ x: 20, y: 20 })?.name).toBe('meadow');
+      expect(field.biomeAt({ x: 50, y: 50 })).toBeNull();
+    });
+
+    it('biome rectangles wrap around the torus', () => {
+      const field = new FoodField(biomeCfg, 100, 100);
+      expect(field.biomeAt({ x: 5, y: 5 })?.name).toBe('corner');
+      expect(field.biomeAt({ x: 95, y: 95 })?.name).toBe('corner');
+    });
+
+    it('sampleInBiome stays inside the rectangle', () => {
+      const field = new FoodField(biomeCfg, 100, 100);
+      const rng = new PRNG(5);
+      for (let i = 0; i < 50; i++) {
+        const p = field.sampleInBiome(biomeCfg.biomes[0], rng);
+        expect(field.biomeAt(p)?.name).toBe('meadow');
+      }
+    });
+  });
+
+  describe('fertility', () => {
+    const fertCfg = fieldConfig({
+      fertility: { cellSize: 50, depletionPerFood: 0.25, regenRate: 0.1 },
+    });
+
+    it('is 1 everywhere initially', () => {
+      const field = new FoodField(fertCfg, 100, 100);
+      expect(field.fertilityAt({ x: 10, y: 10 })).toBe(1);
+      expect(field.fertilityAt({ x: 99, y: 99 })).toBe(1);
+    });
+
+    it('depletes only the cell where food was eaten', () => {
+      const field = new FoodField(fertCfg, 100, 100);
+      field.deplete({ x: 10, y: 10 });
+      field.deplete({ x: 20, y: 30 });
+      expect(field.fertilityAt({ x: 40, y: 40 })).toBeCloseTo(0.5, 5);
+      expect(field.fertilityAt({ x: 60, y: 10 })).toBe(1);
+    });
+
+    it('never drops below 0', () => {
+      const field = new FoodField(fertCfg, 100, 100);
+      for (let i = 0; i < 10; i++) field.deplete({ x: 10, y: 10 });
+      expect(field.fertilityAt({ x: 10, y: 10 })).toBe(0);
+    });
+
+    it('regenerates over time up to 1', () => {
+      const field = new FoodField(fertCfg, 100, 100);
+      for (let i = 0; i < 4; i++) field.deplete({ x: 10, y: 10 });
+      field.step();
+      field.step();
+      expect(field.fertilityAt({ x: 10, y: 10 })).toBeCloseTo(0.2, 5);
+      for (let i = 0; i < 20; i++) field.step();
+      expect(field.fertilityAt({ x: 10, y: 10 })).toBe(1);
+    });
+
+    it('is always 1 when fertility is not configured', () => {
+      const field = new FoodField(fieldConfig(), 100, 100);
+      field.deplete({ x: 10, y: 10 });
+      expect(field.fertilityAt({ x: 10, y: 10 })).toBe(1);
+    });
+  });
+
+  describe('state persistence', () => {
+    it('round-trips hotspot positions and fertility', () => {
+      const cfg = fieldConfig({
+        hotspots: [{ x: 10, y: 10, sigma: 5, weight: 1, driftX: 1 }],
+        fertility: { cellSize: 50, depletionPerFood: 0.5, regenRate: 0 },
+      });
+      const a = new FoodField(cfg, 100, 100);
+      a.step();
+      a.deplete({ x: 75, y: 75 });
+
+      const b = new FoodField(cfg, 100, 100);
+      b.setState(JSON.parse(JSON.stringify(a.getState())));
+      expect(b.getHotspotPositions()[0].x).toBeCloseTo(11, 5);
+      expect(b.fertilityAt({ x: 75, y: 75 })).toBeCloseTo(0.5, 5);
+    });
+  });
+});
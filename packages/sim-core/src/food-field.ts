@@ -0,0 +1,170 @@
+// ============================================================
+// Food Field — spatially varying food supply
+// ============================================================
+// Decides *where* globally spawned food lands (uniform background vs.
+// drifting gaussian hotspots), which biome a position belongs to, and
+// tracks a grid fertility map that depletes under grazing and regrows.
+
+import type { PRNG } from './prng.js';
+import type {
+  Vec2,
+  FoodDistributionConfig,
+  FoodBiomeConfig,
+  FoodFieldState,
+} from './types.js';
+import { Topology } from './topology.js';
+
+export class FoodField {
+  private readonly config: FoodDistributionConfig;
+  private readonly worldWidth: number;
+  private readonly worldHeight: number;
+  private readonly topology: Topology;
+
+  /** Current hotspot centers (drift over time). */
+  private hotspots: Vec2[];
+
+  /** Fertility grid, row-major. Empty when fertility is disabled. */
+  private fertility: Float32Array;
+  private readonly cellSize: number;
+  private readonly cols: number;
+  private readonly rows: number;
+
+  constructor(
+    config: FoodDistributionConfig, worldWidth: number, worldHeight: number,
+    topology: Topology = new Topology(worldWidth, worldHeight),
+  ) {
+    this.config = config;
+    this.worldWidth = worldWidth;
+    this.worldHeight = worldHeight;
+    this.topology = topology;
+    this.hotspots = config.hotspots.map(h => ({ x: h.x, y: h.y }));
+
+    const fert = config.fertility;
+    this.cellSize = fert ? fert.cellSize : 0;
+    this.cols = fert ? Math.ceil(worldWidth / fert.cellSize) : 0;
+    this.rows = fert ? Math.ceil(worldHeight / fert.cellSize) : 0;
+    this.fertility = new Float32Array(this.cols * this.rows).fill(1);
+  }
+
+  /** Advance one tick: drift hotspots and regenerate fertility. */
+  step(): void {
+    for (let i = 0; i < this.hotspots.length; i++) {
+      const cfg = this.config.hotspots[i];
+      const h = this.hotspots[i];
+      h.x += cfg.driftX ?? 0;
+      h.y += cfg.driftY ?? 0;
+      this.topology.confine(h);
+    }
+
+    const regen = this.config.fertility?.regenRate ?? 0;
+    if (regen > 0) {
+      for (let i = 0; i < this.fertility.length; i++) {
+        this.fertility[i] = Math.min(1, this.fertility[i] + regen);
+      }
+    }
+  }
+
+  /**
+   * Sample a spawn position for globally spawned food: either uniform
+   * (background) or gaussian around a hotspot, chosen by weight.
+   */
+  samplePosition(rng: PRNG): Vec2 {
+    const hotspots = this.config.hotspots;
+    const background = Math.max(0, this.config.backgroundWeight);
+    let total = background;
+    for (const h of hotspots) total += Math.max(0, h.weight);
+
+    if (total > 0) {
+      let pick = rng.range(0, total);
+      if (pick >= background) {
+        pick -= background;
+        for (let i = 0; i < hotspots.length; i++) {
+          const weight = Math.max(0, hotspots[i].weight);
+          if (pick < weight) {
+            const center = this.hotspots[i];
+            const pos: Vec2 = {
+              x: center.x + rng.gaussian() * hotspots[i].sigma,
+              y: center.y + rng.gaussian() * hotspots[i].sigma,
+            };
+            this.topology.confine(pos);
+            return pos;
+          }
+          pick -= weight;
+        }
+      }
+    }
+
+    return {
+      x: rng.range(0, this.worldWidth),
+      y: rng.range(0, this.worldHeight),
+    };
+  }
+
+  /** Sample a uniform position inside a biome rectangle (wrapped, or clamped at walls). */
+  sampleInBiome(biome: FoodBiomeConfig, rng: PRNG): Vec2 {
+    const pos: Vec2 = {
+      x: biome.x + rng.range(0, biome.width),
+      y: biome.y + rng.range(0, biome.height),
+    };
+    this.topology.confine(pos);
+    return pos;
+  }
+
+  /** First biome whose rectangle contains `pos` (torus-aware), or null. */
+  biomeAt(pos: Vec2): FoodBiomeConfig | null {
+    for (const b of this.config.biomes) {
+      const dx = ((pos.x - b.x) % this.worldWidth + this.worldWidth) % this.worldWidth;
+      const dy = ((pos.y - b.y) % this.worldHeight + this.worldHeight) % this.worldHeight;
+      if (dx < b.width && dy < b.height) return b;
+    }
+    return null;
+  }
+
+  get biomes(): readonly FoodBiomeConfig[] {
+    return this.config.biomes;
+  }
+
+  /** Fertility at a position, 0..1 (always 1 when fertility is disabled). */
+  fertilityAt(pos: Vec2): number {
+    if (this.fertility.length === 0) return 1;
+    return this.fertility[this.cellIndex(pos)];
+  }
+
+  /** Record that food was eaten at `pos`. */
+  deplete(pos: Vec2): void {
+    const fert = this.config.fertility;
+    if (!fert || this.fertility.length === 0) return;
+    const idx = this.cellIndex(pos);
+    this.fertility[idx] = Math.max(0, this.fertility[idx] - fert.depletionPerFood);
+  }
+
+  /** Current hotspot centers. */
+  getHotspotPositions(): readonly Vec2[] {
+    return this.hotspots;
+  }
+
+  getState(): FoodFieldState {
+    return {
+      hotspots: this.hotspots.map(h => ({ x: h.x, y: h.y })),
+      fertility: Array.from(this.fertility),
+    };
+  }
+
+  setState(state: FoodFieldState): void {
+    for (let i = 0; i < this.hotspots.length && i < state.hotspots.length; i++) {
+      this.hotspots[i].x = state.hotspots[i].x;
+      this.hotspots[i].y = state.hotspots[i].y;
+    }
+    for (let i = 0; i < this.fertility.length && i < state.fertility.length; i++) {
+      this.fertility[i] = state.fertility[i];
+    }
+  }
+
+  private cellIndex(pos: Vec2): number {
+    const x = ((pos.x % this.worldWidth) + this.worldWidth) % this.worldWidth;
+    const y = ((pos.y % this.worldHeight) + this.worldHeight) % this.worldHeight;
+    const col = Math.min(Math.floor(x / this.cellSize), this.cols - 1);
+    const row = Math.min(Math.floor(y / this.cellSize), this.rows - 1);
+    return row * this.cols + col;
+  }
+}
@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { wrapPosition, torusDistance, circlesOverlap, rayCircleIntersect } from './geometry.js';
+import {
+  wrapPosition, torusDistance, torusDelta, circlesOverlap, rayCircleIntersect,
+  closestPointOnSegment, raySegmentIntersect, rayCapsuleIntersect, rayPolygonIntersect,
+  pointInPolygon, circleSegmentPushOut, circlePolygonPushOut,
+} from './geometry.js';
 import type { Vec2 } from './types.js';
 
 describe('Geometry', () => {
@@ -90,6 +94,33 @@ describe('Geometry', () => {
     });
   });
 
+  describe('torusDelta', () => {
+    it('returns the direct vector when close', () => {
+      const d = torusDelta({ x: 10, y: 10 }, { x: 13, y: 6 }, 100, 100);
+      expect(d.x).toBeCloseTo(3, 5);
+      expect(d.y).toBeCloseTo(-4, 5);
+    });
+
+    it('points across the x seam when that is shorter', () => {
+      const d = torusDelta({ x: 95, y: 50 }, { x: 5, y: 50 }, 100, 100);
+      expect(d.x).toBeCloseTo(10, 5);
+      expect(d.y).toBeCloseTo(0, 5);
+    });
+
+    it('points across the y seam when that is shorter', () => {
+      const d = torusDelta({ x: 50, y: 2 }, { x: 50, y: 98 }, 100, 100);
+      expect(d.x).toBeCloseTo(0, 5);
+      expect(d.y).toBeCloseTo(-4, 5);
+    });
+
+    it('length matches torusDistance', () => {
+      const a: Vec2 = { x: 3, y: 97 };
+      const b: Vec2 = { x: 91, y: 8 };
+      const d = torusDelta(a, b, 100, 100);
+      expect(Math.hypot(d.x, d.y)).toBeCloseTo(torusDistance(a, b, 100, 100), 5);
+    });
+  });
+
   describe('circlesOverlap', () => {
     it('detects overlapping circles', () => {
       const a: Vec2 = { x: 10, y: 10 };
@@ -181,4 +212,114 @@ describe('Geometry', () => {
       expect(t!).toBeLessThan(1);
     });
   });
+
+  describe('closestPointOnSegment', () => {
+    it('projects onto the segment interior', () => {
+      expect(closestPointOnSegment({ x: 5, y: 3 }, { x: 0, y: 0 }, { x: 10, y: 0 })).toEqual({ x: 5, y: 0 });
+    });
+
+    it('clamps to the endpoints', () => {
+      expect(closestPointOnSegment({ x: -4, y: 2 }, { x: 0, y: 0 }, { x: 10, y: 0 })).toEqual({ x: 0, y: 0 });
+      expect(closestPointOnSegment({ x: 14, y: 2 }, { x: 0, y: 0 }, { x: 10, y: 0 })).toEqual({ x: 10, y: 0 });
+    });
+  });
+
+  describe('raySegmentIntersect', () => {
+    it('detects a crossing wall', () => {
+      const t = raySegmentIntersect({ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 40, y: -10 }, { x: 40, y: 10 });
+      expect(t).toBeCloseTo(0.4, 5);
+    });
+
+    it('returns null when the wall is beside the ray', () => {
+      expect(raySegmentIntersect({ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 40, y: 5 }, { x: 40, y: 10 })).toBeNull();
+    });
+
+    it('returns null when the wall is beyond the ray end', () => {
+      expect(raySegmentIntersect({ x: 0, y: 0 }, { x: 30, y: 0 }, { x: 40, y: -10 }, { x: 40, y: 10 })).toBeNull();
+    });
+
+    it('returns null for parallel segments', () => {
+      expect(raySegmentIntersect({ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 0, y: 5 }, { x: 100, y: 5 })).toBeNull();
+    });
+  });
+
+  describe('rayCapsuleIntersect', () => {
+    it('hits the near face of a thick wall', () => {
+      const t = rayCapsuleIntersect({ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 40, y: -10 }, { x: 40, y: 10 }, 5);
+      expect(t).toBeCloseTo(0.35, 5);
+    });
+
+    it('hits the rounded cap past the segment end', () => {
+      const t = rayCapsuleIntersect({ x: 0, y: 12 }, { x: 100, y: 12 }, { x: 40, y: -10 }, { x: 40, y: 10 }, 5);
+      expect(t).not.toBeNull();
+      expect(t!).toBeGreaterThan(0.35);
+      expect(t!).toBeLessThan(0.4);
+    });
+
+    it('falls back to a thin segment at zero width', () => {
+      const t = rayCapsuleIntersect({ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 40, y: -10 }, { x: 40, y: 10 }, 0);
+      expect(t).toBeCloseTo(0.4, 5);
+    });
+  });
+
+  const square: Vec2[] = [{ x: 40, y: -10 }, { x: 60, y: -10 }, { x: 60, y: 10 }, { x: 40, y: 10 }];
+
+  describe('rayPolygonIntersect', () => {
+    it('returns the nearest edge hit', () => {
+      expect(rayPolygonIntersect({ x: 0, y: 0 }, { x: 100, y: 0 }, square)).toBeCloseTo(0.4, 5);
+    });
+
+    it('returns null on a miss', () => {
+      expect(rayPolygonIntersect({ x: 0, y: 20 }, { x: 100, y: 20 }, square)).toBeNull();
+    });
+  });
+
+  describe('pointInPolygon', () => {
+    it('distinguishes inside from outside', () => {
+      expect(pointInPolygon({ x: 50, y: 0 }, square)).toBe(true);
+      expect(pointInPolygon({ x: 30, y: 0 }, square)).toBe(false);
+      expect(pointInPolygon({ x: 50, y: 15 }, square)).toBe(false);
+    });
+  });
+
+  describe('circleSegmentPushOut', () => {
+    it('returns null when the circle clears the wall', () => {
+      expect(circleSegmentPushOut({ x: 0, y: 10 }, 5, { x: -10, y: 0 }, { x: 10, y: 0 }, 1)).toBeNull();
+    });
+
+    it('pushes perpendicular to the wall', () => {
+      const push = circleSegmentPushOut({ x: 0, y: 4 }, 5, { x: -10, y: 0 }, { x: 10, y: 0 }, 1)!;
+      expect(push.x).toBeCloseTo(0, 5);
+      expect(push.y).toBeCloseTo(2, 5);
+    });
+
+    it('pushes away from an end cap', () => {
+      const push = circleSegmentPushOut({ x: 13, y: 0 }, 5, { x: -10, y: 0 }, { x: 10, y: 0 }, 1)!;
+      expect(push.x).toBeCloseTo(3, 5);
+      expect(push.y).toBeCloseTo(0, 5);
+    });
+
+    it('still pushes a circle centered on the wall', () => {
+      const push = circleSegmentPushOut({ x: 0, y: 0 }, 5, { x: -10, y: 0 }, { x: 10, y: 0 }, 1)!;
+      expect(Math.hypot(push.x, push.y)).toBeCloseTo(6, 5);
+    });
+  });
+
+  describe('circlePolygonPushOut', () => {
+    it('returns null when the circle is clear', () => {
+      expect(circlePolygonPushOut({ x: 30, y: 0 }, 5, square)).toBeNull();
+    });
+
+    it('pushes an overlapping circle off the nearest edge', () => {
+      const push = circlePolygonPushOut({ x: 37, y: 0 }, 5, square)!;
+      expect(push.x).toBeCloseTo(-2, 5);
+      expect(push.y).toBeCloseTo(0, 5);
+    });
+
+    it('pushes a circle whose center is inside out through the nearest edge', () => {
+      const push = circlePolygonPushOut({ x: 50, y: 8 }, 5, square)!;
+      expect(push.x).toBeCloseTo(0, 5);
+      expect(push.y).toBeCloseTo(7, 5);
+    });
+  });
 });
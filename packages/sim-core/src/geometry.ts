@@ -15,6 +15,20 @@ export function torusDistance(a: Vec2, b: Vec2, width: number, height: number):
   return Math.sqrt(dx * dx + dy * dy);
 }
 
+/**
+ * Shortest displacement vector from `a` to `b` on a torus.
+ * Each component lies in [-size/2, size/2].
+ */
+export function torusDelta(a: Vec2, b: Vec2, width: number, height: number): Vec2 {
+  let dx = b.x - a.x;
+  let dy = b.y - a.y;
+  if (dx > width / 2) dx -= width;
+  else if (dx < -width / 2) dx += width;
+  if (dy > height / 2) dy -= height;
+  else if (dy < -height / 2) dy += height;
+  return { x: dx, y: dy };
+}
+
 /** Check if two circles overlap on a torus. */
 export function circlesOverlap(
   a: Vec2, ra: number, b: Vec2, rb: number,
@@ -53,3 +67,167 @@ export function rayCircleIntersect(
   }
   return null;
 }
+
+/** Closest point to `p` on the segment a–b. */
+export function closestPointOnSegment(p: Vec2, a: Vec2, b: Vec2): Vec2 {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq === 0) return { x: a.x, y: a.y };
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return { x: a.x + dx * t, y: a.y + dy * t };
+}
+
+/**
+ * Ray-segment intersection test.
+ * Returns normalized distance [0,1] along the ray, or null if no hit
+ * (parallel rays never hit).
+ */
+export function raySegmentIntersect(
+  rayStart: Vec2, rayEnd: Vec2, a: Vec2, b: Vec2,
+): number | null {
+  const rx = rayEnd.x - rayStart.x;
+  const ry = rayEnd.y - rayStart.y;
+  const sx = b.x - a.x;
+  const sy = b.y - a.y;
+  const denom = rx * sy - ry * sx;
+  if (Math.abs(denom) < 1e-12) return null;
+
+  const qx = a.x - rayStart.x;
+  const qy = a.y - rayStart.y;
+  const t = (qx * sy - qy * sx) / denom;
+  const u = (qx * ry - qy * rx) / denom;
+  if (t >= 0 && t <= 1 && u >= 0 && u <= 1) {
+    return t;
+  }
+  return null;
+}
+
+/**
+ * Ray intersection with a thick segment (capsule of half-width `halfWidth`
+ * around a–b). Returns normalized distance [0,1] along the ray, or null.
+ */
+export function rayCapsuleIntersect(
+  rayStart: Vec2, rayEnd: Vec2, a: Vec2, b: Vec2, halfWidth: number,
+): number | null {
+  if (halfWidth <= 0) return raySegmentIntersect(rayStart, rayEnd, a, b);
+
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len = Math.sqrt(dx * dx + dy * dy);
+  let best: number | null = null;
+  const consider = (t: number | null) => {
+    if (t !== null && (best === null || t < best)) best = t;
+  };
+
+  if (len > 0) {
+    // Both long sides, offset along the segment normal
+    const nx = (-dy / len) * halfWidth;
+    const ny = (dx / len) * halfWidth;
+    consider(raySegmentIntersect(rayStart, rayEnd, { x: a.x + nx, y: a.y + ny }, { x: b.x + nx, y: b.y + ny }));
+    consider(raySegmentIntersect(rayStart, rayEnd, { x: a.x - nx, y: a.y - ny }, { x: b.x - nx, y: b.y - ny }));
+  }
+  // Rounded caps
+  consider(rayCircleIntersect(rayStart, rayEnd, a, halfWidth));
+  consider(rayCircleIntersect(rayStart, rayEnd, b, halfWidth));
+  return best;
+}
+
+/**
+ * Ray intersection with a polygon outline (nearest edge hit).
+ * Returns normalized distance [0,1] along the ray, or null if no hit.
+ */
+export function rayPolygonIntersect(
+  rayStart: Vec2, rayEnd: Vec2, vertices: Vec2[],
+): number | null {
+  let best: number | null = null;
+  for (let i = 0; i < vertices.length; i++) {
+    const t = raySegmentIntersect(rayStart, rayEnd, vertices[i], vertices[(i + 1) % vertices.length]);
+    if (t !== null && (best === null || t < best)) best = t;
+  }
+  return best;
+}
+
+/** Even-odd point-in-polygon test. */
+export function pointInPolygon(p: Vec2, vertices: Vec2[]): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if ((a.y > p.y) !== (b.y > p.y)
+      && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Smallest displacement that moves a circle off a thick segment
+ * (capsule of half-width `halfWidth` around a–b), or null if they don't overlap.
+ */
+export function circleSegmentPushOut(
+  center: Vec2, radius: number, a: Vec2, b: Vec2, halfWidth: number,
+): Vec2 | null {
+  const closest = closestPointOnSegment(center, a, b);
+  const dx = center.x - closest.x;
+  const dy = center.y - closest.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  const minDist = radius + halfWidth;
+  if (dist >= minDist) return null;
+
+  if (dist > 1e-9) {
+    return { x: (dx / dist) * (minDist - dist), y: (dy / dist) * (minDist - dist) };
+  }
+  // Center exactly on the segment: push along its normal
+  const sx = b.x - a.x;
+  const sy = b.y - a.y;
+  const len = Math.sqrt(sx * sx + sy * sy);
+  if (len === 0) return { x: minDist, y: 0 };
+  return { x: (-sy / len) * minDist, y: (sx / len) * minDist };
+}
+
+/**
+ * Smallest displacement that moves a circle out of a convex polygon,
+ * or null if they don't overlap. A center inside the polygon is pushed
+ * out through the nearest edge.
+ */
+export function circlePolygonPushOut(
+  center: Vec2, radius: number, vertices: Vec2[],
+): Vec2 | null {
+  if (vertices.length === 0) return null;
+
+  let closest: Vec2 = vertices[0];
+  let bestDistSq = Infinity;
+  for (let i = 0; i < vertices.length; i++) {
+    const p = closestPointOnSegment(center, vertices[i], vertices[(i + 1) % vertices.length]);
+    const d = (center.x - p.x) ** 2 + (center.y - p.y) ** 2;
+    if (d < bestDistSq) {
+      bestDistSq = d;
+      closest = p;
+    }
+  }
+  const dist = Math.sqrt(bestDistSq);
+  const inside = pointInPolygon(center, vertices);
+  if (!inside && dist >= radius) return null;
+
+  // Outward direction: away from the edge, or away from the centroid when on/inside it
+  let dx = inside ? closest.x - center.x : center.x - closest.x;
+  let dy = inside ? closest.y - center.y : center.y - closest.y;
+  let len = Math.sqrt(dx * dx + dy * dy);
+  if (len < 1e-9) {
+    let cx = 0;
+    let cy = 0;
+    for (const v of vertices) {
+      cx += v.x;
+      cy += v.y;
+    }
+    dx = closest.x - cx / vertices.length;
+    dy = closest.y - cy / vertices.length;
+    len = Math.sqrt(dx * dx + dy * dy);
+    if (len < 1e-9) return { x: radius, y: 0 };
+  }
+
+  const push = inside ? dist + radius : radius - dist;
+  return { x: (dx / len) * push, y: (dy / len) * push };
+}
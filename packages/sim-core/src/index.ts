@@ -5,11 +5,14 @@ export {
   mutateDNA,
   crossoverBrain,
   crossoverDNA,
+  inheritLearnedWeights,
+  withActuator,
   countSensorInputs,
   countActuatorOutputs,
   resetInnovationCounter,
   getInnovationCounter,
 } from './dna.js';
+export type { MutationOptions } from './dna.js';
 export {
   buildBrainRuntime,
   brainForwardPass,
@@ -20,10 +23,47 @@ export {
 export {
   wrapPosition,
   torusDistance,
+  torusDelta,
   circlesOverlap,
   rayCircleIntersect,
+  closestPointOnSegment,
+  raySegmentIntersect,
+  rayCapsuleIntersect,
+  rayPolygonIntersect,
+  pointInPolygon,
+  circleSegmentPushOut,
+  circlePolygonPushOut,
 } from './geometry.js';
+export {
+  registerSensor,
+  registerActuator,
+  unregisterSensor,
+  unregisterActuator,
+  getSensorDefinition,
+  getActuatorDefinition,
+  sensorDefinitions,
+  actuatorDefinitions,
+  describeSensor,
+  describeActuator,
+} from './registry.js';
+export type {
+  SensorDefinition,
+  ActuatorDefinition,
+  WorldView,
+  RayHit,
+} from './registry.js';
 export { SpatialHash } from './spatial-hash.js';
+export { FoodField } from './food-field.js';
+export { PheromoneGrid } from './pheromone-grid.js';
+export { TerrainGrid } from './terrain-grid.js';
+export { Topology } from './topology.js';
+export {
+  DEFAULT_PALETTE,
+  SCENERY_COLORS,
+  groupColor,
+  dnaColor,
+  colorToHex,
+} from './appearance.js';
 export {
   evalExpr,
   compileExpr,
@@ -58,29 +98,80 @@ export type {
 } from './expr.js';
 export type {
   WorldConfig,
+  FoodDistributionConfig,
+  FoodHotspotConfig,
+  FoodBiomeConfig,
+  FoodFieldState,
+  PlantConfig,
+  DevelopmentConfig,
+  AgingConfig,
+  AppearanceConfig,
+  HearingConfig,
+  GrabConfig,
+  SprintConfig,
+  ShieldConfig,
+  HealthConfig,
+  SelfAdaptiveMutationConfig,
+  DiseaseConfig,
+  PathogenStrainConfig,
+  TerrainConfig,
+  TerrainTypeConfig,
+  PheromoneConfig,
+  PheromoneGridState,
   DNA,
   BodyGene,
+  ColorGene,
+  MutationGene,
+  Sex,
   SensorGene,
+  SensorGeneMap,
   ActuatorGene,
+  ActuatorGeneMap,
   RayVisionGene,
   TouchGene,
   EnergySenseGene,
   BroadcastReceiverGene,
+  PheromoneSenseGene,
+  TerrainSenseGene,
+  ColorVisionGene,
+  HearingGene,
+  AgeSenseGene,
+  SpeedSenseGene,
+  CooldownSenseGene,
+  DamageSenseGene,
+  ClockSenseGene,
+  HoldSenseGene,
   MoveActuatorGene,
   AttackActuatorGene,
   EatActuatorGene,
   DonateActuatorGene,
   BroadcastActuatorGene,
+  BiteActuatorGene,
+  DepositPheromoneActuatorGene,
+  MateChoiceActuatorGene,
+  GrabActuatorGene,
+  SprintActuatorGene,
+  ShieldActuatorGene,
+  ReproduceActuatorGene,
   BrainGenome,
   NodeGene,
   ConnectionGene,
   ActivationType,
   CreatureState,
   FoodItemState,
+  PlantState,
+  EggState,
+  GestationState,
+  HeldItem,
+  InfectionState,
   ObstacleState,
+  ObstacleShape,
+  ObstacleShapeConfig,
+  WorldBoundary,
   Vec2,
   WorldSnapshot,
   SimEvent,
+  DeathCause,
   TickMetrics,
 } from './types.js';
 export type { BrainRuntime } from './brain.js';
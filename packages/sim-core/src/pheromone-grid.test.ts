@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { PheromoneGrid } from './pheromone-grid.js';
+import { Topology } from './topology.js';
+import type { PheromoneConfig } from './types.js';
+
+function gridConfig(overrides: Partial<PheromoneConfig> = {}): PheromoneConfig {
+  return {
+    channels: 2,
+    cellSize: 10,
+    diffusionRate: 0,
+    evaporationRate: 0,
+    depositAmount: 0.5,
+    depositCost: 0,
+    ...overrides,
+  };
+}
+
+function total(grid: PheromoneGrid, channel: number): number {
+  return grid.getChannel(channel)!.reduce((sum, v) => sum + v, 0);
+}
+
+describe('PheromoneGrid', () => {
+  it('sizes the grid to cover the world', () => {
+    const grid = new PheromoneGrid(gridConfig(), 95, 40);
+    expect(grid.cols).toBe(10);
+    expect(grid.rows).toBe(4);
+    expect(grid.getChannel(0)!.length).toBe(40);
+  });
+
+  describe('deposit / sample', () => {
+    it('deposits into the cell under the position', () => {
+      const grid = new PheromoneGrid(gridConfig(), 100, 100);
+      grid.deposit(0, { x: 25, y: 35 }, 0.3);
+      expect(grid.sample(0, { x: 21, y: 39 })).toBeCloseTo(0.3, 5);
+      expect(grid.sample(0, { x: 35, y: 35 })).toBe(0);
+      expect(grid.sample(1, { x: 25, y: 35 })).toBe(0);
+    });
+
+    it('saturates at 1', () => {
+      const grid = new PheromoneGrid(gridConfig(), 100, 100);
+      for (let i = 0; i < 5; i++) grid.deposit(0, { x: 5, y: 5 }, 0.4);
+      expect(grid.sample(0, { x: 5, y: 5 })).toBe(1);
+    });
+
+    it('wraps positions outside the world', () => {
+      const grid = new PheromoneGrid(gridConfig(), 100, 100);
+      grid.deposit(0, { x: -5, y: 105 }, 0.5);
+      expect(grid.sample(0, { x: 95, y: 5 })).toBeCloseTo(0.5, 5);
+    });
+
+    it('ignores unknown channels', () => {
+      const grid = new PheromoneGrid(gridConfig(), 100, 100);
+      grid.deposit(5, { x: 5, y: 5 }, 0.5);
+      expect(grid.sample(5, { x: 5, y: 5 })).toBe(0);
+      expect(grid.getChannel(5)).toBeNull();
+    });
+  });
+
+  describe('step', () => {
+    it('evaporation decays concentration', () => {
+      const grid = new PheromoneGrid(gridConfig({ evaporationRate: 0.1 }), 100, 100);
+      grid.deposit(0, { x: 55, y: 55 }, 1);
+      grid.step();
+      grid.step();
+      expect(grid.sample(0, { x: 55, y: 55 })).toBeCloseTo(0.81, 5);
+    });
+
+    it('diffusion spreads to neighbours and conserves mass', () => {
+      const grid = new PheromoneGrid(gridConfig({ diffusionRate: 0.4 }), 100, 100);
+      grid.deposit(0, { x: 55, y: 55 }, 1);
+      grid.step();
+
+      expect(grid.sample(0, { x: 55, y: 55 })).toBeCloseTo(0.6, 5);
+      expect(grid.sample(0, { x: 65, y: 55 })).toBeCloseTo(0.1, 5);
+      expect(grid.sample(0, { x: 55, y: 45 })).toBeCloseTo(0.1, 5);
+      expect(grid.sample(0, { x: 65, y: 65 })).toBe(0);
+      expect(total(grid, 0)).toBeCloseTo(1, 5);
+    });
+
+    it('diffusion wraps around the torus', () => {
+      const grid = new PheromoneGrid(gridConfig({ diffusionRate: 0.4 }), 100, 100);
+      grid.deposit(0, { x: 5, y: 5 }, 1);
+      grid.step();
+      expect(grid.sample(0, { x: 95, y: 5 })).toBeCloseTo(0.1, 5);
+      expect(grid.sample(0, { x: 5, y: 95 })).toBeCloseTo(0.1, 5);
+    });
+
+    it('diffusion stops at walls and still conserves mass', () => {
+      const grid = new PheromoneGrid(gridConfig({ diffusionRate: 0.4 }), 100, 100, new Topology(100, 100, 'walled'));
+      grid.deposit(0, { x: 5, y: 5 }, 1);
+      grid.step();
+      expect(grid.sample(0, { x: 95, y: 5 })).toBe(0);
+      expect(grid.sample(0, { x: 5, y: 95 })).toBe(0);
+      expect(grid.sample(0, { x: 15, y: 5 })).toBeCloseTo(0.1, 5);
+      expect(grid.sample(0, { x: 5, y: 5 })).toBeCloseTo(0.8, 5);
+      expect(total(grid, 0)).toBeCloseTo(1, 5);
+    });
+
+    it('tiny concentrations are flushed to zero', () => {
+      const grid = new PheromoneGrid(gridConfig({ evaporationRate: 0.9 }), 100, 100);
+      grid.deposit(0, { x: 5, y: 5 }, 1);
+      for (let i = 0; i < 10; i++) grid.step();
+      expect(grid.sample(0, { x: 5, y: 5 })).toBe(0);
+    });
+  });
+
+  describe('gradient', () => {
+    it('points toward higher concentration', () => {
+      const grid = new PheromoneGrid(gridConfig(), 100, 100);
+      grid.deposit(0, { x: 65, y: 55 }, 1);
+      const g = grid.gradient(0, { x: 55, y: 55 });
+      expect(g.x).toBeGreaterThan(0);
+      expect(g.y).toBe(0);
+
+      grid.deposit(1, { x: 55, y: 45 }, 1);
+      const g1 = grid.gradient(1, { x: 55, y: 55 });
+      expect(g1.x).toBe(0);
+      expect(g1.y).toBeLessThan(0);
+    });
+
+    it('is computed across the wrap boundary', () => {
+      const grid = new PheromoneGrid(gridConfig(), 100, 100);
+      grid.deposit(0, { x: 95, y: 5 }, 1);
+      const g = grid.gradient(0, { x: 5, y: 5 });
+      expect(g.x).toBeLessThan(0);
+    });
+
+    it('is zero on a flat field', () => {
+      const grid = new PheromoneGrid(gridConfig(), 100, 100);
+      expect(grid.gradient(0, { x: 50, y: 50 })).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('state persistence', () => {
+    it('round-trips through JSON', () => {
+      const a = new PheromoneGrid(gridConfig(), 100, 100);
+      a.deposit(0, { x: 15, y: 15 }, 0.25);
+      a.deposit(1, { x: 85, y: 15 }, 0.75);
+
+      const b = new PheromoneGrid(gridConfig(), 100, 100);
+      b.setState(JSON.parse(JSON.stringify(a.getState())));
+      expect(b.sample(0, { x: 15, y: 15 })).toBeCloseTo(0.25, 5);
+      expect(b.sample(1, { x: 85, y: 15 })).toBeCloseTo(0.75, 5);
+    });
+
+    it('ignores state with a different layout', () => {
+      const a = new PheromoneGrid(gridConfig(), 100, 100);
+      a.deposit(0, { x: 15, y: 15 }, 0.5);
+      const b = new PheromoneGrid(gridConfig({ cellSize: 20 }), 100, 100);
+      b.setState(a.getState());
+      expect(total(b, 0)).toBe(0);
+    });
+  });
+});
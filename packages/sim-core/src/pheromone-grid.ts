@@ -0,0 +1,164 @@
+// ============================================================
+// Pheromone Grid — diffusing, evaporating chemical trails
+// ============================================================
+// A multi-channel scalar field over the world. Creatures deposit into
+// the cell they stand on; every tick each cell blends toward the mean
+// of its 4 neighbours (diffusion) and then decays (evaporation).
+// Neighbours wrap across periodic edges; at a wall a cell is its own
+// neighbour, so nothing leaks out.
+
+import type { Vec2, PheromoneConfig, PheromoneGridState } from './types.js';
+import { Topology } from './topology.js';
+
+/** Concentrations below this are flushed to 0 to keep the field sparse. */
+const MIN_CONCENTRATION = 1e-6;
+
+export class PheromoneGrid {
+  readonly channelCount: number;
+  readonly cols: number;
+  readonly rows: number;
+  readonly cellSize: number;
+
+  private readonly config: PheromoneConfig;
+  private readonly worldWidth: number;
+  private readonly worldHeight: number;
+  private readonly wrapX: boolean;
+  private readonly wrapY: boolean;
+
+  /** One row-major grid per channel. Values are clamped to [0, 1]. */
+  private channels: Float32Array[];
+  /** Scratch buffer for diffusion. */
+  private scratch: Float32Array;
+
+  constructor(
+    config: PheromoneConfig, worldWidth: number, worldHeight: number,
+    topology: Topology = new Topology(worldWidth, worldHeight),
+  ) {
+    this.config = config;
+    this.worldWidth = worldWidth;
+    this.worldHeight = worldHeight;
+    this.wrapX = topology.wrapX;
+    this.wrapY = topology.wrapY;
+    this.channelCount = config.channels;
+    this.cellSize = config.cellSize;
+    this.cols = Math.max(1, Math.ceil(worldWidth / config.cellSize));
+    this.rows = Math.max(1, Math.ceil(worldHeight / config.cellSize));
+
+    this.channels = [];
+    for (let c = 0; c < this.channelCount; c++) {
+      this.channels.push(new Float32Array(this.cols * this.rows));
+    }
+    this.scratch = new Float32Array(this.cols * this.rows);
+  }
+
+  /** Add pheromone to the cell containing `pos`. Unknown channels are ignored. */
+  deposit(channel: number, pos: Vec2, amount: number): void {
+    const grid = this.channels[channel];
+    if (!grid) return;
+    const idx = this.cellIndex(pos);
+    grid[idx] = Math.min(1, grid[idx] + amount);
+  }
+
+  /** Concentration (0..1) in the cell containing `pos`. */
+  sample(channel: number, pos: Vec2): number {
+    const grid = this.channels[channel];
+    if (!grid) return 0;
+    return grid[this.cellIndex(pos)];
+  }
+
+  /**
+   * Concentration gradient at `pos` (central differences over the
+   * neighbouring cells, wrapped). Points toward increasing concentration.
+   */
+  gradient(channel: number, pos: Vec2): Vec2 {
+    const grid = this.channels[channel];
+    if (!grid) return { x: 0, y: 0 };
+    const { col, row } = this.cellOf(pos);
+    const left = this.neighbourCol(col, -1);
+    const right = this.neighbourCol(col, 1);
+    const up = this.neighbourRow(row, -1);
+    const down = this.neighbourRow(row, 1);
+    return {
+      x: (grid[row * this.cols + right] - grid[row * this.cols + left]) / (2 * this.cellSize),
+      y: (grid[down * this.cols + col] - grid[up * this.cols + col]) / (2 * this.cellSize),
+    };
+  }
+
+  /** Advance one tick: diffuse toward the 4-neighbour mean, then evaporate. */
+  step(): void {
+    const diffusion = Math.max(0, Math.min(1, this.config.diffusionRate));
+    const keep = 1 - Math.max(0, Math.min(1, this.config.evaporationRate));
+    const { cols, rows } = this;
+
+    for (let c = 0; c < this.channelCount; c++) {
+      const grid = this.channels[c];
+      const next = this.scratch;
+
+      for (let row = 0; row < rows; row++) {
+        const up = this.neighbourRow(row, -1) * cols;
+        const down = this.neighbourRow(row, 1) * cols;
+        const base = row * cols;
+        for (let col = 0; col < cols; col++) {
+          const left = this.neighbourCol(col, -1);
+          const right = this.neighbourCol(col, 1);
+          const neighbours = (grid[base + left] + grid[base + right] + grid[up + col] + grid[down + col]) / 4;
+          const v = (grid[base + col] * (1 - diffusion) + neighbours * diffusion) * keep;
+          next[base + col] = v < MIN_CONCENTRATION ? 0 : v;
+        }
+      }
+
+      // Swap buffers
+      this.channels[c] = next;
+      this.scratch = grid;
+    }
+  }
+
+  /** Raw row-major grid for a channel (read-only; used by renderers). */
+  getChannel(channel: number): Float32Array | null {
+    return this.channels[channel] ?? null;
+  }
+
+  getState(): PheromoneGridState {
+    return {
+      cols: this.cols,
+      rows: this.rows,
+      channels: this.channels.map(g => Array.from(g)),
+    };
+  }
+
+  /** Restore from a snapshot. Ignored if the grid layout no longer matches. */
+  setState(state: PheromoneGridState): void {
+    if (state.cols !== this.cols || state.rows !== this.rows) return;
+    for (let c = 0; c < this.channelCount && c < state.channels.length; c++) {
+      this.channels[c].set(state.channels[c]);
+    }
+  }
+
+  /** Adjacent column: wraps on a periodic axis, stays put at a wall. */
+  private neighbourCol(col: number, step: number): number {
+    const next = col + step;
+    if (this.wrapX) return (next + this.cols) % this.cols;
+    return next < 0 || next >= this.cols ? col : next;
+  }
+
+  /** Adjacent row: wraps on a periodic axis, stays put at a wall. */
+  private neighbourRow(row: number, step: number): number {
+    const next = row + step;
+    if (this.wrapY) return (next + this.rows) % this.rows;
+    return next < 0 || next >= this.rows ? row : next;
+  }
+
+  private cellOf(pos: Vec2): { col: number; row: number } {
+    const x = ((pos.x % this.worldWidth) + this.worldWidth) % this.worldWidth;
+    const y = ((pos.y % this.worldHeight) + this.worldHeight) % this.worldHeight;
+    return {
+      col: Math.min(Math.floor(x / this.cellSize), this.cols - 1),
+      row: Math.min(Math.floor(y / this.cellSize), this.rows - 1),
+    };
+  }
+
+  private cellIndex(pos: Vec2): number {
+    const { col, row } = this.cellOf(pos);
+    return row * this.cols + col;
+  }
+}
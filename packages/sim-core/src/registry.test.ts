@@ -0,0 +1,225 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  registerSensor,
+  registerActuator,
+  unregisterSensor,
+  unregisterActuator,
+  getSensorDefinition,
+  sensorDefinitions,
+  actuatorDefinitions,
+  describeSensor,
+  describeActuator,
+  type SensorDefinition,
+  type ActuatorDefinition,
+} from './registry.js';
+import { World } from './world.js';
+import { createDefaultDNA, countSensorInputs, countActuatorOutputs, mutateDNA, resetInnovationCounter } from './dna.js';
+import { PRNG } from './prng.js';
+import type { WorldConfig } from './types.js';
+
+interface CompassGene {
+  type: 'compass';
+  gain: number;
+}
+
+interface GlowGene {
+  type: 'glow';
+}
+
+declare module './types.js' {
+  interface SensorGeneMap {
+    compass: CompassGene;
+  }
+  interface ActuatorGeneMap {
+    glow: GlowGene;
+  }
+}
+
+/** Heading as cos/sin, scaled by the gene's gain. */
+const compass: SensorDefinition<CompassGene> = {
+  type: 'compass',
+  inputCount: () => 2,
+  gather(gene, s, _world, out, offset) {
+    out[offset] = Math.cos(s.angle) * gene.gain;
+    out[offset + 1] = Math.sin(s.angle) * gene.gain;
+  },
+  energyCost: () => 0.5,
+  createDefault: () => ({ type: 'compass', gain: 1 }),
+  mutate(gene, mutationRate, mutationStrength, rng) {
+    if (rng.chance(mutationRate)) gene.gain += rng.gaussian() * mutationStrength;
+  },
+  describe: gene => `Compass(x${gene.gain})`,
+};
+
+/** Glowing creatures are simply marked as broadcasting on channel 3. */
+const glow: ActuatorDefinition<GlowGene> = {
+  type: 'glow',
+  outputCount: () => 1,
+  apply(_gene, s, _world, outputs, offset) {
+    s.isBroadcasting = outputs[offset] > 0.5;
+    s.broadcastChannel = 3;
+  },
+  energyCost: (_gene, s) => (s.isBroadcasting ? 1 : 0),
+  createDefault: () => ({ type: 'glow' }),
+};
+
+function testConfig(): WorldConfig {
+  return {
+    world: { width: 200, height: 200, boundary: 'torus' },
+    simulation: { tickRate: 30, brainRate: 10, maxCreatures: 100, initialCreatures: 0, seed: 42 },
+    energy: {
+      initialEnergy: 100, maxEnergy: 300, baseMetabolism: 0,
+      densityMetabolismFactor: 0,
+      moveCost: 0, turnCost: 0, attackCost: 0,
+      visionCostPerRay: 0, broadcastCost: 0,
+    },
+    food: { spawnRate: 0, nutritionValue: 30, maxCount: 0, radius: 4 },
+    combat: { baseDamage: 15, attackRadius: 10, attackCooldown: 5 },
+    reproduction: {
+      energyThreshold: 1000, offspringEnergyShare: 0.4,
+      mutationRate: 0.1, mutationStrength: 0.2, cooldown: 20,
+      crossoverRate: 0,
+    },
+    death: { foodDropRatio: 0.5, foodDropMax: 3 },
+    donation: { donateRadius: 15, donateAmount: 10, donateCost: 1.0 },
+    broadcast: { broadcastRadius: 100, signalChannels: 4 },
+    obstacles: { count: 0, minRadius: 10, maxRadius: 20 },
+    creatureDefaults: { radius: 5, maxSpeed: 2.0, maxTurnRate: 0.15 },
+  } as WorldConfig;
+}
+
+describe('module registry', () => {
+  afterEach(() => {
+    unregisterSensor('compass');
+    unregisterActuator('glow');
+  });
+
+  it('registers the built-in types in mutation-pool order', () => {
+    expect(sensorDefinitions().map(d => d.type)).toEqual([
+      'rayVision', 'touch', 'energySense', 'broadcastReceiver', 'pheromoneSense', 'terrainSense',
+      'colorVision', 'hearing', 'ageSense', 'speedSense', 'cooldownSense', 'damageSense', 'clockSense',
+      'holdSense',
+    ]);
+    expect(actuatorDefinitions().map(d => d.type)).toEqual([
+      'move', 'attack', 'eat', 'donate', 'broadcast', 'bite', 'depositPheromone', 'mateChoice', 'grab', 'sprint', 'shield',
+      'reproduce',
+    ]);
+  });
+
+  it('rejects a type that is already registered', () => {
+    expect(() => registerSensor(getSensorDefinition('touch')!)).toThrow(/already registered/);
+    registerSensor(compass);
+    expect(() => registerSensor(compass)).toThrow(/compass/);
+  });
+
+  it('counts inputs and outputs of registered types', () => {
+    registerSensor(compass);
+    registerActuator(glow);
+    expect(countSensorInputs([{ type: 'compass', gain: 1 }, { type: 'touch' }])).toBe(2 + 2 + 3);
+    expect(countActuatorOutputs([{ type: 'move' }, { type: 'glow' }])).toBe(3);
+  });
+
+  it('ignores genes of unregistered types', () => {
+    expect(countSensorInputs([{ type: 'compass', gain: 1 }])).toBe(2);
+    expect(countActuatorOutputs([{ type: 'glow' }])).toBe(0);
+  });
+
+  it('labels genes with their describe hook, falling back to the type', () => {
+    registerSensor(compass);
+    expect(describeSensor({ type: 'compass', gain: 2 })).toBe('Compass(x2)');
+    expect(describeSensor({ type: 'rayVision', rayCount: 3, fov: 1.5, maxDistance: 50, offsetAngle: 0 }))
+      .toBe('RayVision(3r, fov=1.5)');
+    expect(describeSensor({ type: 'touch' })).toBe('touch');
+    expect(describeActuator({ type: 'broadcast', channel: 2 })).toBe('broadcast(2)');
+  });
+
+  it('structural mutation can add and mutate registered types', () => {
+    registerSensor(compass);
+    registerActuator(glow);
+    const rng = new PRNG(7);
+    const base = createDefaultDNA(0, rng);
+    let sawCompass = false;
+    let sawGlow = false;
+    for (let i = 0; i < 300 && !(sawCompass && sawGlow); i++) {
+      const child = mutateDNA(base, 1.0, 0.5, rng);
+      sawCompass ||= child.sensors.some(s => s.type === 'compass');
+      sawGlow ||= child.actuators.some(a => a.type === 'glow');
+      const inputs = child.brain.nodeGenes.filter(n => n.type === 'input').length;
+      const outputs = child.brain.nodeGenes.filter(n => n.type === 'output').length;
+      expect(inputs).toBe(countSensorInputs(child.sensors));
+      expect(outputs).toBe(countActuatorOutputs(child.actuators));
+    }
+    expect(sawCompass).toBe(true);
+    expect(sawGlow).toBe(true);
+
+    const dna = { ...base, sensors: [{ type: 'compass' as const, gain: 1 }] };
+    const gains = new Set<number>();
+    for (let i = 0; i < 20; i++) {
+      for (const s of mutateDNA(dna, 1.0, 0.5, rng).sensors) {
+        if (s.type === 'compass') gains.add(s.gain);
+      }
+    }
+    expect(gains.size).toBeGreaterThan(1);
+  });
+
+  it('structural mutation only adds types enabled by the world config', () => {
+    registerActuator({ ...glow, enabled: config => config.broadcast.signalChannels > 3 });
+    const added = (config: WorldConfig): Set<string> => {
+      const rng = new PRNG(11);
+      const base = createDefaultDNA(0, rng);
+      const types = new Set<string>();
+      for (let i = 0; i < 400; i++) {
+        const child = mutateDNA(base, 1.0, 0.5, rng, { config });
+        for (const s of child.sensors) types.add(s.type);
+        for (const a of child.actuators) types.add(a.type);
+      }
+      return types;
+    };
+
+    const plain = added(testConfig());
+    for (const type of ['pheromoneSense', 'terrainSense', 'hearing', 'holdSense', 'bite', 'depositPheromone',
+      'mateChoice', 'grab', 'sprint', 'shield', 'reproduce']) {
+      expect(plain.has(type)).toBe(false);
+    }
+    expect(plain.has('glow')).toBe(true);
+    expect(plain.has('ageSense')).toBe(true);
+
+    const cfg = testConfig();
+    cfg.broadcast.signalChannels = 2;
+    cfg.pheromones = { channels: 2, cellSize: 10, diffusionRate: 0, evaporationRate: 0, depositAmount: 1, depositCost: 0 };
+    const withPheromones = added(cfg);
+    expect(withPheromones.has('glow')).toBe(false);
+    expect(withPheromones.has('pheromoneSense')).toBe(true);
+    expect(withPheromones.has('depositPheromone')).toBe(true);
+  });
+
+  it('the world gathers, applies and charges registered types', () => {
+    registerSensor(compass);
+    registerActuator(glow);
+    resetInnovationCounter();
+    const w = new World(testConfig());
+    w.initialize();
+    (w as any).brainTickAccumulator = -100;
+
+    const dna = createDefaultDNA(0, new PRNG(1));
+    dna.sensors = [{ type: 'compass', gain: 2 }];
+    dna.actuators = [{ type: 'glow' }];
+    const id = w.spawnCreature(dna, { x: 100, y: 100 }, Math.PI / 2, 100);
+    const creature = w.creatures.get(id)!;
+    (w as any).updateSpatialHashes();
+
+    const inputs: Float32Array = (w as any).gatherSensorInputs(creature);
+    expect(inputs).toHaveLength(4);
+    expect(inputs[2]).toBeCloseTo(0, 5);
+    expect(inputs[3]).toBeCloseTo(2, 5);
+
+    (w as any).applyBrainOutputs(creature, new Float32Array([1]));
+    expect(creature.state.isBroadcasting).toBe(true);
+    expect(creature.state.broadcastChannel).toBe(3);
+
+    // 0.5 for the compass + 1 while glowing
+    const before = creature.state.energy;
+    w.step();
+    expect(before - creature.state.energy).toBeCloseTo(1.5, 5);
+  });
+});
@@ -0,0 +1,179 @@
+// ============================================================
+// Module registry — sensor and actuator types
+// ============================================================
+// Each sensor/actuator gene type is described by one definition: how many
+// brain inputs/outputs it uses, how the world fills or reads them, what it
+// costs per tick, the gene structural mutation adds and how its parameters
+// mutate. DNA counting/mutation and the world's sense/act loops only go
+// through these definitions, so a new type is one definition plus its gene
+// interface (added to `SensorGeneMap` / `ActuatorGeneMap`).
+//
+// The built-in types live in builtins.ts and are registered on load.
+
+import type { PRNG } from './prng.js';
+import type { Topology } from './topology.js';
+import type { PheromoneGrid } from './pheromone-grid.js';
+import type { TerrainGrid } from './terrain-grid.js';
+import type { ExprContext } from './expr.js';
+import type {
+  WorldConfig,
+  DNA,
+  CreatureState,
+  FoodItemState,
+  PlantState,
+  EggState,
+  ObstacleState,
+  SensorGene,
+  ActuatorGene,
+  RayVisionGene,
+  ColorVisionGene,
+  ColorGene,
+  Vec2,
+} from './types.js';
+import { BUILTIN_SENSORS, BUILTIN_ACTUATORS } from './builtins.js';
+
+/** First thing a vision ray hit. */
+export interface RayHit {
+  /** Normalized distance [0,1] along the ray (1 = nothing in range). */
+  distance: number;
+  /** 'wall' = a world edge (walled / cylinder boundaries). */
+  kind: 'none' | 'food' | 'egg' | 'plant' | 'creature' | 'obstacle' | 'wall';
+  creature?: CreatureState;
+}
+
+/** What the world exposes to sensor and actuator definitions. */
+export interface WorldView {
+  readonly config: WorldConfig;
+  readonly topology: Topology;
+  readonly rng: PRNG;
+  readonly pheromones: PheromoneGrid | null;
+  readonly terrain: TerrainGrid | null;
+
+  creatureById(id: number): CreatureState | undefined;
+  creaturesNear(pos: Vec2, radius: number): CreatureState[];
+  foodNear(pos: Vec2, radius: number): FoodItemState[];
+  plantsNear(pos: Vec2, radius: number): PlantState[];
+  eggsNear(pos: Vec2, radius: number): EggState[];
+  obstaclesNear(pos: Vec2, radius: number): ObstacleState[];
+  /** Whether a circle overlaps an obstacle's actual shape. */
+  obstacleOverlaps(pos: Vec2, radius: number, obs: ObstacleState): boolean;
+
+  /** End points of a vision sensor's rays, fanned across its fov. */
+  visionRays(s: CreatureState, sensor: RayVisionGene | ColorVisionGene): Vec2[];
+  /** Cast one ray from `s` against everything visible. */
+  castRay(s: CreatureState, rayEnd: Vec2): RayHit;
+  /** Colour of what a ray hit (null = nothing). */
+  seenColor(hit: RayHit): ColorGene | null;
+  /** Noise heard by `s` (see `hearing` config). */
+  listen(s: CreatureState): { intensity: number; bearing: number };
+  /** Ticks until death of old age (Infinity without `aging`). */
+  lifespan(dna: DNA): number;
+  /** Attack + bite damage taken since the last brain tick. */
+  damageTaken(s: CreatureState): number;
+  /** Expression context of a creature (world variables included). */
+  creatureVars(s: CreatureState): ExprContext;
+}
+
+export interface SensorDefinition<G extends SensorGene = SensorGene> {
+  type: G['type'];
+  /** Brain inputs this gene feeds. */
+  inputCount(gene: G): number;
+  /** Write `inputCount(gene)` values into `out` starting at `offset`. */
+  gather(gene: G, s: CreatureState, world: WorldView, out: Float32Array, offset: number): void;
+  /** Energy per tick for carrying the sensor. Omitted = free. */
+  energyCost?(gene: G, s: CreatureState, world: WorldView, vars: ExprContext): number;
+  /** Gene added by structural mutation. Omitted = never added by mutation. */
+  createDefault?(rng: PRNG): G;
+  /**
+   * Whether the type does anything in a world with this config (e.g. its
+   * config section is present). Structural mutation only adds enabled
+   * types. Omitted = always enabled.
+   */
+  enabled?(config: WorldConfig): boolean;
+  /** Mutate the gene's parameters in place. */
+  mutate?(gene: G, mutationRate: number, mutationStrength: number, rng: PRNG): void;
+  /** Crossover identity: genes with the same key are alternatives. Omitted = the type. */
+  key?(gene: G): string;
+  /** Short label for inspectors. Omitted = the type. */
+  describe?(gene: G): string;
+}
+
+export interface ActuatorDefinition<G extends ActuatorGene = ActuatorGene> {
+  type: G['type'];
+  /** Brain outputs this gene reads. */
+  outputCount(gene: G): number;
+  /** Read `outputCount(gene)` values from `outputs` starting at `offset`. */
+  apply(gene: G, s: CreatureState, world: WorldView, outputs: Float32Array, offset: number): void;
+  /** Energy per tick (e.g. while the action is on). Omitted = free. */
+  energyCost?(gene: G, s: CreatureState, world: WorldView, vars: ExprContext): number;
+  /** Gene added by structural mutation. Omitted = never added by mutation. */
+  createDefault?(rng: PRNG): G;
+  /**
+   * Whether the type does anything in a world with this config (e.g. its
+   * config section is present). Structural mutation only adds enabled
+   * types. Omitted = always enabled.
+   */
+  enabled?(config: WorldConfig): boolean;
+  /** Mutate the gene's parameters in place. */
+  mutate?(gene: G, mutationRate: number, mutationStrength: number, rng: PRNG): void;
+  /** Short label for inspectors. Omitted = the type. */
+  describe?(gene: G): string;
+}
+
+// Registration order is kept: it fixes the mutation pools (and so the
+// random stream of a seeded run).
+const sensors = new Map<string, SensorDefinition>();
+const actuators = new Map<string, ActuatorDefinition>();
+
+/** Register a sensor type. Throws if the type is already registered. */
+export function registerSensor<G extends SensorGene>(def: SensorDefinition<G>): void {
+  if (sensors.has(def.type)) throw new Error(`Sensor type already registered: "${def.type}"`);
+  sensors.set(def.type, def as unknown as SensorDefinition);
+}
+
+/** Register an actuator type. Throws if the type is already registered. */
+export function registerActuator<G extends ActuatorGene>(def: ActuatorDefinition<G>): void {
+  if (actuators.has(def.type)) throw new Error(`Actuator type already registered: "${def.type}"`);
+  actuators.set(def.type, def as unknown as ActuatorDefinition);
+}
+
+/** Remove a sensor type (for tests and hot-reloading plugins). */
+export function unregisterSensor(type: string): boolean {
+  return sensors.delete(type);
+}
+
+/** Remove an actuator type (for tests and hot-reloading plugins). */
+export function unregisterActuator(type: string): boolean {
+  return actuators.delete(type);
+}
+
+export function getSensorDefinition(type: string): SensorDefinition | undefined {
+  return sensors.get(type);
+}
+
+export function getActuatorDefinition(type: string): ActuatorDefinition | undefined {
+  return actuators.get(type);
+}
+
+/** All sensor definitions, in registration order. */
+export function sensorDefinitions(): SensorDefinition[] {
+  return [...sensors.values()];
+}
+
+/** All actuator definitions, in registration order. */
+export function actuatorDefinitions(): ActuatorDefinition[] {
+  return [...actuators.values()];
+}
+
+/** Inspector label for a sensor gene. */
+export function describeSensor(gene: SensorGene): string {
+  return sensors.get(gene.type)?.describe?.(gene) ?? gene.type;
+}
+
+/** Inspector label for an actuator gene. */
+export function describeActuator(gene: ActuatorGene): string {
+  return actuators.get(gene.type)?.describe?.(gene) ?? gene.type;
+}
+
+for (const def of BUILTIN_SENSORS) registerSensor(def);
+for (const def of BUILTIN_ACTUATORS) registerActuator(def);
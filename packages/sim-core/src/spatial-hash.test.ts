@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { SpatialHash } from './spatial-hash.js';
+import { Topology } from './topology.js';
 import type { Vec2 } from './types.js';
 
 interface TestEntity {
@@ -170,6 +171,104 @@ describe('SpatialHash', () => {
       const count = results.filter(r => r.id === e.id).length;
       expect(count).toBe(1);
     });
+
+    it('follows a ray past each edge of the world', () => {
+      const right = entity(1, 190, 100);
+      const left = entity(2, 10, 100);
+      const bottom = entity(3, 100, 190);
+      const top = entity(4, 100, 10);
+      for (const e of [right, left, bottom, top]) hash.insert(e);
+
+      expect(hash.queryRay({ x: 20, y: 100 }, { x: -30, y: 100 }, 5)).toContain(right);
+      expect(hash.queryRay({ x: 180, y: 100 }, { x: 230, y: 100 }, 5)).toContain(left);
+      expect(hash.queryRay({ x: 100, y: 20 }, { x: 100, y: -30 }, 5)).toContain(bottom);
+      expect(hash.queryRay({ x: 100, y: 180 }, { x: 100, y: 230 }, 5)).toContain(top);
+    });
+
+    it('covers every cell once when the ray is longer than the world', () => {
+      const e1 = entity(1, 25, 100);
+      const e2 = entity(2, 125, 100);
+      hash.insert(e1);
+      hash.insert(e2);
+      const results = hash.queryRay({ x: 100, y: 100 }, { x: 350, y: 100 }, 5);
+      expect(results.filter(r => r === e1)).toHaveLength(1);
+      expect(results.filter(r => r === e2)).toHaveLength(1);
+    });
+
+    it('crosses a short last cell when the world is not a whole number of cells', () => {
+      // 390 wide with 50-wide cells: the last column is only 40 wide, so this
+      // 92-unit ray touches four columns (6, 7, 0 and 1)
+      const odd = new SpatialHash<TestEntity>(390, 200, 50);
+      const e = entity(1, 51, 100);
+      odd.insert(e);
+      expect(odd.queryRay({ x: 349, y: 100 }, { x: 441, y: 100 }, 0)).toContain(e);
+    });
+
+    it('does not cross walls', () => {
+      const walled = new SpatialHash<TestEntity>(200, 200, 50, new Topology(200, 200, 'walled'));
+      const e = entity(1, 190, 100);
+      walled.insert(e);
+      expect(walled.queryRay({ x: 20, y: 100 }, { x: -30, y: 100 }, 5)).not.toContain(e);
+    });
+  });
+
+  describe('insertBounded', () => {
+    it('is found from any cell its bounds overlap', () => {
+      const e = entity(1, 100, 100);
+      hash.insertBounded(e, 60);
+      expect(hash.queryRadius({ x: 10, y: 10 }, 0)).toContain(e);
+      expect(hash.queryRadius({ x: 190, y: 190 }, 0)).toContain(e);
+    });
+
+    it('does not reach cells outside its bounds', () => {
+      const e = entity(1, 25, 25);
+      hash.insertBounded(e, 10);
+      expect(hash.queryRadius({ x: 125, y: 25 }, 0)).not.toContain(e);
+      // Bounds cross the seam into the last column/row
+      expect(hash.queryRadius({ x: 175, y: 25 }, 0)).toContain(e);
+      expect(hash.queryRadius({ x: 25, y: 175 }, 0)).toContain(e);
+    });
+
+    it('stores the entity once per cell even when bounds exceed the world', () => {
+      const e = entity(1, 100, 100);
+      hash.insertBounded(e, 1000);
+      expect(hash.queryRadius({ x: 25, y: 25 }, 0)).toEqual([e]);
+    });
+  });
+
+  describe('bounded topologies', () => {
+    it('walled queries do not wrap across edges', () => {
+      const walled = new SpatialHash<TestEntity>(200, 200, 50, new Topology(200, 200, 'walled'));
+      const e = entity(1, 190, 10);
+      walled.insert(e);
+      expect(walled.queryRadius({ x: 10, y: 10 }, 20)).not.toContain(e);
+      expect(walled.queryRadius({ x: 180, y: 10 }, 20)).toContain(e);
+    });
+
+    it('cylinder queries wrap x but not y', () => {
+      const cyl = new SpatialHash<TestEntity>(200, 200, 50, new Topology(200, 200, 'cylinder'));
+      const right = entity(1, 190, 100);
+      const bottom = entity(2, 100, 190);
+      cyl.insert(right);
+      cyl.insert(bottom);
+      expect(cyl.queryRadius({ x: 10, y: 100 }, 20)).toContain(right);
+      expect(cyl.queryRadius({ x: 100, y: 10 }, 20)).not.toContain(bottom);
+    });
+
+    it('walled rays do not wrap', () => {
+      const walled = new SpatialHash<TestEntity>(200, 200, 50, new Topology(200, 200, 'walled'));
+      const e = entity(1, 10, 100);
+      walled.insert(e);
+      expect(walled.queryRay({ x: 150, y: 100 }, { x: 250, y: 100 }, 5)).not.toContain(e);
+    });
+
+    it('insertBounded stops at walls', () => {
+      const walled = new SpatialHash<TestEntity>(200, 200, 50, new Topology(200, 200, 'walled'));
+      const e = entity(1, 10, 10);
+      walled.insertBounded(e, 60);
+      expect(walled.queryRadius({ x: 75, y: 75 }, 0)).toEqual([e]);
+      expect(walled.queryRadius({ x: 175, y: 10 }, 0)).toEqual([]);
+    });
   });
 
   describe('edge cases', () => {
@@ -213,6 +312,15 @@ describe('SpatialHash', () => {
       expect(results).toContain(e2);
     });
 
+    it('returns each entity once when the radius exceeds the world', () => {
+      const e = entity(1, 10, 10);
+      hash.insert(e);
+      expect(hash.queryRadius({ x: 100, y: 100 }, 150)).toEqual([e]);
+      const single = new SpatialHash<TestEntity>(10, 10, 20);
+      single.insert(e);
+      expect(single.queryRadius({ x: 5, y: 5 }, 30)).toEqual([e]);
+    });
+
     it('works with very small world', () => {
       const small = new SpatialHash<TestEntity>(10, 10, 5);
       const e = entity(1, 5, 5);
@@ -1,9 +1,11 @@
 import type { Vec2 } from './types.js';
+import { Topology } from './topology.js';
 
 /**
- * Simple spatial hash grid for fast neighbor queries on a torus world.
- * Entities are indexed by their cell position. Queries return all entities
- * in the neighborhood of cells around the query point.
+ * Simple spatial hash grid for fast neighbor queries. Queries wrap across
+ * the periodic axes of the world topology (both, on the default torus) and
+ * stop at walls. Entities are indexed by their cell position. Queries return
+ * all entities in the neighborhood of cells around the query point.
  */
 export class SpatialHash<T extends { position: Vec2 }> {
   private cellSize: number;
@@ -11,13 +13,20 @@ export class SpatialHash<T extends { position: Vec2 }> {
   private rows: number;
   private worldWidth: number;
   private worldHeight: number;
+  private wrapX: boolean;
+  private wrapY: boolean;
 
   /** grid[row * cols + col] = array of entries in that cell */
   private grid: T[][];
 
-  constructor(worldWidth: number, worldHeight: number, cellSize: number) {
+  constructor(
+    worldWidth: number, worldHeight: number, cellSize: number,
+    topology: Topology = new Topology(worldWidth, worldHeight),
+  ) {
     this.worldWidth = worldWidth;
     this.worldHeight = worldHeight;
+    this.wrapX = topology.wrapX;
+    this.wrapY = topology.wrapY;
     this.cellSize = cellSize;
     this.cols = Math.ceil(worldWidth / cellSize);
     this.rows = Math.ceil(worldHeight / cellSize);
@@ -41,6 +50,35 @@ export class SpatialHash<T extends { position: Vec2 }> {
     this.grid[row * this.cols + col].push(entity);
   }
 
+  /**
+   * Insert an extended entity into every cell overlapped by the bounding box
+   * of its circle of `radius` (wrapping around the torus). Each cell holds it
+   * at most once, but a query spanning several of those cells returns it once
+   * per cell — callers that care must dedupe.
+   */
+  insertBounded(entity: T, radius: number): void {
+    const span = Math.ceil(Math.max(0, radius) / this.cellSize);
+    const centerCol = this.posToCol(entity.position.x);
+    const centerRow = this.posToRow(entity.position.y);
+    // Periodic axes cover at most every cell once; walled axes stop at the edge
+    const col0 = this.wrapX ? centerCol - span : Math.max(0, centerCol - span);
+    const row0 = this.wrapY ? centerRow - span : Math.max(0, centerRow - span);
+    const colCount = this.wrapX
+      ? Math.min(this.cols, span * 2 + 1)
+      : Math.min(this.cols - 1, centerCol + span) - col0 + 1;
+    const rowCount = this.wrapY
+      ? Math.min(this.rows, span * 2 + 1)
+      : Math.min(this.rows - 1, centerRow + span) - row0 + 1;
+
+    for (let dr = 0; dr < rowCount; dr++) {
+      const row = this.wrapRow(row0 + dr);
+      for (let dc = 0; dc < colCount; dc++) {
+        const col = this.wrapCol(col0 + dc);
+        this.grid[row * this.cols + col].push(entity);
+      }
+    }
+  }
+
   /**
    * Query all entities within `radius` of `center`.
    * Returns entities from all cells that *could* contain hits;
@@ -50,13 +88,19 @@ export class SpatialHash<T extends { position: Vec2 }> {
     const cellSpan = Math.ceil(radius / this.cellSize);
     const centerCol = this.posToCol(center.x);
     const centerRow = this.posToRow(center.y);
+    // A span wider than the world would revisit wrapped cells (and return
+    // their entities twice), so periodic axes cover each cell at most once
+    const colCount = this.wrapX ? Math.min(this.cols, cellSpan * 2 + 1) : cellSpan * 2 + 1;
+    const rowCount = this.wrapY ? Math.min(this.rows, cellSpan * 2 + 1) : cellSpan * 2 + 1;
 
     const results: T[] = [];
 
-    for (let dr = -cellSpan; dr <= cellSpan; dr++) {
-      for (let dc = -cellSpan; dc <= cellSpan; dc++) {
-        const col = ((centerCol + dc) % this.cols + this.cols) % this.cols;
-        const row = ((centerRow + dr) % this.rows + this.rows) % this.rows;
+    for (let dr = 0; dr < rowCount; dr++) {
+      const row = this.wrapRow(centerRow - cellSpan + dr);
+      if (row < 0) continue;
+      for (let dc = 0; dc < colCount; dc++) {
+        const col = this.wrapCol(centerCol - cellSpan + dc);
+        if (col < 0) continue;
         const bucket = this.grid[row * this.cols + col];
         for (let i = 0; i < bucket.length; i++) {
           results.push(bucket[i]);
@@ -69,36 +113,31 @@ export class SpatialHash<T extends { position: Vec2 }> {
 
   /**
    * Query all entities in cells that a ray from `start` to `end` passes through,
-   * plus a margin for entity radius.
+   * plus a margin for entity radius. The ray is given in unwrapped coordinates
+   * (its end may lie past the seam); on periodic axes the covered cells wrap.
    */
   queryRay(start: Vec2, end: Vec2, margin: number): T[] {
-    // Compute bounding box of the ray in world coords, then find all overlapping cells.
-    // For simplicity, use the axis-aligned bounding box + margin.
+    // Axis-aligned bounding box of the ray + margin
     const minX = Math.min(start.x, end.x) - margin;
     const maxX = Math.max(start.x, end.x) + margin;
     const minY = Math.min(start.y, end.y) - margin;
     const maxY = Math.max(start.y, end.y) + margin;
 
     const col0 = this.posToCol(minX);
-    const col1 = this.posToCol(maxX);
     const row0 = this.posToRow(minY);
-    const row1 = this.posToRow(maxY);
+    const colCount = this.wrapX
+      ? this.wrappedCellCount(maxX - minX, this.cols, this.worldWidth)
+      : this.posToCol(maxX) - col0 + 1;
+    const rowCount = this.wrapY
+      ? this.wrappedCellCount(maxY - minY, this.rows, this.worldHeight)
+      : this.posToRow(maxY) - row0 + 1;
 
     const results: T[] = [];
-    const visited = new Set<number>();
-
-    // Handle wrap-around: iterate through the cell range
-    const colSpan = ((col1 - col0) % this.cols + this.cols) % this.cols;
-    const rowSpan = ((row1 - row0) % this.rows + this.rows) % this.rows;
-
-    for (let dr = 0; dr <= rowSpan && dr <= this.rows; dr++) {
-      for (let dc = 0; dc <= colSpan && dc <= this.cols; dc++) {
-        const col = (col0 + dc) % this.cols;
-        const row = (row0 + dr) % this.rows;
-        const idx = row * this.cols + col;
-        if (visited.has(idx)) continue;
-        visited.add(idx);
-        const bucket = this.grid[idx];
+    for (let dr = 0; dr < rowCount; dr++) {
+      const row = this.wrapRow(row0 + dr);
+      for (let dc = 0; dc < colCount; dc++) {
+        const col = this.wrapCol(col0 + dc);
+        const bucket = this.grid[row * this.cols + col];
         for (let i = 0; i < bucket.length; i++) {
           results.push(bucket[i]);
         }
@@ -108,14 +147,37 @@ export class SpatialHash<T extends { position: Vec2 }> {
     return results;
   }
 
+  /**
+   * Cells touched by an interval of `length` on a periodic axis, counted from
+   * the cell holding its start (one extra when the world size is not a whole
+   * number of cells, since the short last cell may be crossed). Never more
+   * than the whole axis, so no cell is visited twice.
+   */
+  private wrappedCellCount(length: number, cells: number, worldSize: number): number {
+    const partial = worldSize % this.cellSize === 0 ? 0 : 1;
+    return Math.min(cells, Math.floor(length / this.cellSize) + 2 + partial);
+  }
+
   private posToCol(x: number): number {
-    // Wrap to [0, worldWidth) then divide by cellSize
-    const wrapped = ((x % this.worldWidth) + this.worldWidth) % this.worldWidth;
-    return Math.min(Math.floor(wrapped / this.cellSize), this.cols - 1);
+    // Wrap to [0, worldWidth) (or clamp against walls) then divide by cellSize
+    const wrapped = this.wrapX ? ((x % this.worldWidth) + this.worldWidth) % this.worldWidth : x;
+    return Math.max(0, Math.min(Math.floor(wrapped / this.cellSize), this.cols - 1));
   }
 
   private posToRow(y: number): number {
-    const wrapped = ((y % this.worldHeight) + this.worldHeight) % this.worldHeight;
-    return Math.min(Math.floor(wrapped / this.cellSize), this.rows - 1);
+    const wrapped = this.wrapY ? ((y % this.worldHeight) + this.worldHeight) % this.worldHeight : y;
+    return Math.max(0, Math.min(Math.floor(wrapped / this.cellSize), this.rows - 1));
+  }
+
+  /** Column index wrapped on a periodic axis, or -1 past a wall. */
+  private wrapCol(col: number): number {
+    if (this.wrapX) return (col % this.cols + this.cols) % this.cols;
+    return col >= 0 && col < this.cols ? col : -1;
+  }
+
+  /** Row index wrapped on a periodic axis, or -1 past a wall. */
+  private wrapRow(row: number): number {
+    if (this.wrapY) return (row % this.rows + this.rows) % this.rows;
+    return row >= 0 && row < this.rows ? row : -1;
   }
 }
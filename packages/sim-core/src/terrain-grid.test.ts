@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { TerrainGrid } from './terrain-grid.js';
+import type { TerrainConfig, TerrainTypeConfig } from './types.js';
+
+const GRASS: TerrainTypeConfig = { name: 'grass', moveCostFactor: 1, speedFactor: 1, fertility: 1 };
+const SAND: TerrainTypeConfig = { name: 'sand', moveCostFactor: 2, speedFactor: 0.7, fertility: 0.2 };
+const WATER: TerrainTypeConfig = { name: 'water', moveCostFactor: 4, speedFactor: 0.3, fertility: 0 };
+
+function terrainConfig(overrides: Partial<TerrainConfig> = {}): TerrainConfig {
+  return {
+    types: [GRASS, SAND, WATER],
+    cellSize: 10,
+    ...overrides,
+  };
+}
+
+function countTypes(grid: TerrainGrid): number[] {
+  const counts = grid.types.map(() => 0);
+  for (const t of grid.getCells()) counts[t]++;
+  return counts;
+}
+
+describe('TerrainGrid', () => {
+  it('sizes the grid to cover the world', () => {
+    const grid = new TerrainGrid(terrainConfig({ cells: [[0]] }), 95, 40, 1);
+    expect(grid.cols).toBe(10);
+    expect(grid.rows).toBe(4);
+    expect(grid.getCells().length).toBe(40);
+  });
+
+  describe('explicit layout', () => {
+    it('maps positions to the configured cells', () => {
+      const grid = new TerrainGrid(terrainConfig({ cells: [[0, 1], [2, 0]] }), 20, 20, 1);
+      expect(grid.typeAt({ x: 5, y: 5 }).name).toBe('grass');
+      expect(grid.typeAt({ x: 15, y: 5 }).name).toBe('sand');
+      expect(grid.typeAt({ x: 5, y: 15 }).name).toBe('water');
+      expect(grid.typeIndexAt({ x: 15, y: 15 })).toBe(0);
+    });
+
+    it('tiles a smaller layout and wraps positions', () => {
+      const grid = new TerrainGrid(terrainConfig({ cells: [[0, 1]] }), 40, 40, 1);
+      expect(grid.typeAt({ x: 25, y: 35 }).name).toBe('grass');
+      expect(grid.typeAt({ x: 35, y: 35 }).name).toBe('sand');
+      expect(grid.typeAt({ x: -5, y: -5 }).name).toBe('sand');
+    });
+
+    it('clamps out-of-range type indices', () => {
+      const grid = new TerrainGrid(terrainConfig({ cells: [[-3, 9]] }), 20, 10, 1);
+      expect(grid.typeAt({ x: 5, y: 5 }).name).toBe('grass');
+      expect(grid.typeAt({ x: 15, y: 5 }).name).toBe('water');
+    });
+  });
+
+  describe('generated layout', () => {
+    it('is deterministic for a seed', () => {
+      const a = new TerrainGrid(terrainConfig(), 200, 200, 7);
+      const b = new TerrainGrid(terrainConfig(), 200, 200, 7);
+      const c = new TerrainGrid(terrainConfig(), 200, 200, 8);
+      expect(Array.from(a.getCells())).toEqual(Array.from(b.getCells()));
+      expect(Array.from(a.getCells())).not.toEqual(Array.from(c.getCells()));
+    });
+
+    it('config seed overrides the world seed', () => {
+      const a = new TerrainGrid(terrainConfig({ seed: 3 }), 200, 200, 7);
+      const b = new TerrainGrid(terrainConfig({ seed: 3 }), 200, 200, 8);
+      expect(Array.from(a.getCells())).toEqual(Array.from(b.getCells()));
+    });
+
+    it('assigns types by noise thresholds', () => {
+      const mixed = new TerrainGrid(terrainConfig({ thresholds: [0.45, 0.55] }), 400, 400, 1);
+      for (const n of countTypes(mixed)) expect(n).toBeGreaterThan(0);
+
+      const allGrass = new TerrainGrid(terrainConfig({ thresholds: [2, 3] }), 200, 200, 1);
+      expect(countTypes(allGrass)).toEqual([400, 0, 0]);
+
+      const allWater = new TerrainGrid(terrainConfig({ thresholds: [-1, -1] }), 200, 200, 1);
+      expect(countTypes(allWater)).toEqual([0, 0, 400]);
+    });
+
+    it('forms contiguous regions rather than per-cell noise', () => {
+      const grid = new TerrainGrid(terrainConfig({ thresholds: [0.5, 2], noiseScale: 100 }), 400, 400, 1);
+      const cells = grid.getCells();
+      let same = 0;
+      let total = 0;
+      for (let row = 0; row < grid.rows; row++) {
+        for (let col = 0; col < grid.cols; col++) {
+          const right = row * grid.cols + ((col + 1) % grid.cols);
+          if (cells[row * grid.cols + col] === cells[right]) same++;
+          total++;
+        }
+      }
+      expect(same / total).toBeGreaterThan(0.8);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+// ============================================================
+// Terrain Grid — static ground types over the torus
+// ============================================================
+// Each cell holds an index into `terrain.types`. The layout is either
+// given explicitly in config or generated from seeded, tileable value
+// noise, so it never needs to be stored in snapshots.
+
+import { PRNG } from './prng.js';
+import type { Vec2, TerrainConfig, TerrainTypeConfig } from './types.js';
+
+/** Neutral terrain used for out-of-range indices. */
+const PLAIN: TerrainTypeConfig = { name: 'plain', moveCostFactor: 1, speedFactor: 1, fertility: 1 };
+
+/** Noise octaves summed for generated layouts (each half the size, half the weight). */
+const NOISE_OCTAVES = 3;
+
+export class TerrainGrid {
+  readonly cols: number;
+  readonly rows: number;
+  readonly cellSize: number;
+  readonly types: readonly TerrainTypeConfig[];
+
+  private readonly worldWidth: number;
+  private readonly worldHeight: number;
+
+  /** Row-major type indices. */
+  private readonly cells: Uint8Array;
+
+  constructor(config: TerrainConfig, worldWidth: number, worldHeight: number, seed: number) {
+    this.worldWidth = worldWidth;
+    this.worldHeight = worldHeight;
+    this.types = config.types;
+    this.cellSize = config.cellSize;
+    this.cols = Math.max(1, Math.ceil(worldWidth / config.cellSize));
+    this.rows = Math.max(1, Math.ceil(worldHeight / config.cellSize));
+    this.cells = new Uint8Array(this.cols * this.rows);
+
+    if (config.cells) {
+      this.loadCells(config.cells);
+    } else {
+      this.generate(config, seed);
+    }
+  }
+
+  /** Terrain type of the cell containing `pos`. */
+  typeAt(pos: Vec2): TerrainTypeConfig {
+    return this.types[this.cells[this.cellIndex(pos)]] ?? PLAIN;
+  }
+
+  /** Type index of the cell containing `pos`. */
+  typeIndexAt(pos: Vec2): number {
+    return this.cells[this.cellIndex(pos)];
+  }
+
+  /** Raw row-major type indices (read-only; used by renderers). */
+  getCells(): Uint8Array {
+    return this.cells;
+  }
+
+  /** Copy an explicit layout; missing rows/cells keep type 0 and the layout tiles if smaller. */
+  private loadCells(rows: number[][]): void {
+    if (rows.length === 0) return;
+    for (let row = 0; row < this.rows; row++) {
+      const src = rows[row % rows.length];
+      if (!src || src.length === 0) continue;
+      for (let col = 0; col < this.cols; col++) {
+        this.cells[row * this.cols + col] = this.clampType(src[col % src.length]);
+      }
+    }
+  }
+
+  /**
+   * Fill cells from tileable value noise in [0, 1): type `i` is the first
+   * whose threshold exceeds the noise value (the last type takes the rest).
+   * Without thresholds, the types split the range evenly.
+   */
+  private generate(config: TerrainConfig, seed: number): void {
+    const rng = new PRNG(config.seed ?? seed);
+    const typeCount = config.types.length;
+    const thresholds = config.thresholds
+      ?? Array.from({ length: typeCount - 1 }, (_, i) => (i + 1) / typeCount);
+
+    const octaves: { lattice: Float32Array; cols: number; rows: number; weight: number }[] = [];
+    let featureSize = Math.max(config.noiseScale ?? config.cellSize * 8, config.cellSize);
+    let weight = 1;
+    let totalWeight = 0;
+    for (let o = 0; o < NOISE_OCTAVES; o++) {
+      const cols = Math.max(1, Math.round(this.worldWidth / featureSize));
+      const rows = Math.max(1, Math.round(this.worldHeight / featureSize));
+      const lattice = new Float32Array(cols * rows);
+      for (let i = 0; i < lattice.length; i++) lattice[i] = rng.random();
+      octaves.push({ lattice, cols, rows, weight });
+      totalWeight += weight;
+      featureSize /= 2;
+      weight /= 2;
+    }
+
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        // Sample at the cell center, as a fraction of the world (tiles on the torus)
+        const u = ((col + 0.5) * this.cellSize) / this.worldWidth;
+        const v = ((row + 0.5) * this.cellSize) / this.worldHeight;
+        let value = 0;
+        for (const oct of octaves) {
+          value += sampleLattice(oct.lattice, oct.cols, oct.rows, u, v) * oct.weight;
+        }
+        value /= totalWeight;
+
+        let type = 0;
+        while (type < thresholds.length && value >= thresholds[type]) type++;
+        this.cells[row * this.cols + col] = this.clampType(type);
+      }
+    }
+  }
+
+  private clampType(type: number): number {
+    const max = Math.max(0, this.types.length - 1);
+    return Math.max(0, Math.min(max, Math.floor(type) || 0));
+  }
+
+  private cellIndex(pos: Vec2): number {
+    const x = ((pos.x % this.worldWidth) + this.worldWidth) % this.worldWidth;
+    const y = ((pos.y % this.worldHeight) + this.worldHeight) % this.worldHeight;
+    const col = Math.min(Math.floor(x / this.cellSize), this.cols - 1);
+    const row = Math.min(Math.floor(y / this.cellSize), this.rows - 1);
+    return row * this.cols + col;
+  }
+}
+
+/** Smoothly interpolated lookup into a wrapping lattice at fractional coords (u, v) ∈ [0, 1). */
+function sampleLattice(lattice: Float32Array, cols: number, rows: number, u: number, v: number): number {
+  const x = u * cols;
+  const y = v * rows;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = smoothstep(x - x0);
+  const ty = smoothstep(y - y0);
+  const c0 = x0 % cols;
+  const c1 = (x0 + 1) % cols;
+  const r0 = (y0 % rows) * cols;
+  const r1 = ((y0 + 1) % rows) * cols;
+  const top = lattice[r0 + c0] + (lattice[r0 + c1] - lattice[r0 + c0]) * tx;
+  const bottom = lattice[r1 + c0] + (lattice[r1 + c1] - lattice[r1 + c0]) * tx;
+  return top + (bottom - top) * ty;
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
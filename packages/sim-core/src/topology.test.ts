@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { Topology } from './topology.js';
+import type { Vec2 } from './types.js';
+
+describe('Topology', () => {
+  it('defaults to a torus', () => {
+    const t = new Topology(100, 100);
+    expect(t.boundary).toBe('torus');
+    expect(t.wrapX).toBe(true);
+    expect(t.wrapY).toBe(true);
+  });
+
+  it('cylinder wraps x only; walled wraps neither', () => {
+    const cyl = new Topology(100, 100, 'cylinder');
+    expect([cyl.wrapX, cyl.wrapY]).toEqual([true, false]);
+    const walled = new Topology(100, 100, 'walled');
+    expect([walled.wrapX, walled.wrapY]).toEqual([false, false]);
+  });
+
+  describe('confine', () => {
+    it('wraps on a torus', () => {
+      const pos: Vec2 = { x: -10, y: 130 };
+      expect(new Topology(100, 100).confine(pos, 5)).toBe(false);
+      expect(pos).toEqual({ x: 90, y: 30 });
+    });
+
+    it('clamps a circle inside the walls', () => {
+      const pos: Vec2 = { x: -10, y: 130 };
+      expect(new Topology(100, 100, 'walled').confine(pos, 5)).toBe(true);
+      expect(pos).toEqual({ x: 5, y: 95 });
+    });
+
+    it('wraps x and clamps y on a cylinder', () => {
+      const pos: Vec2 = { x: 105, y: -3 };
+      expect(new Topology(100, 100, 'cylinder').confine(pos, 2)).toBe(true);
+      expect(pos).toEqual({ x: 5, y: 2 });
+    });
+
+    it('leaves interior positions alone', () => {
+      const pos: Vec2 = { x: 50, y: 50 };
+      expect(new Topology(100, 100, 'walled').confine(pos, 5)).toBe(false);
+      expect(pos).toEqual({ x: 50, y: 50 });
+    });
+
+    it('centers a circle wider than the world', () => {
+      const pos: Vec2 = { x: 3, y: 3 };
+      new Topology(10, 10, 'walled').confine(pos, 20);
+      expect(pos).toEqual({ x: 5, y: 5 });
+    });
+  });
+
+  describe('delta / distance', () => {
+    const a: Vec2 = { x: 5, y: 5 };
+    const b: Vec2 = { x: 95, y: 95 };
+
+    it('crosses both seams on a torus', () => {
+      expect(new Topology(100, 100).delta(a, b)).toEqual({ x: -10, y: -10 });
+    });
+
+    it('crosses only the x seam on a cylinder', () => {
+      expect(new Topology(100, 100, 'cylinder').delta(a, b)).toEqual({ x: -10, y: 90 });
+    });
+
+    it('never crosses walls', () => {
+      const t = new Topology(100, 100, 'walled');
+      expect(t.delta(a, b)).toEqual({ x: 90, y: 90 });
+      expect(t.distance(a, b)).toBeCloseTo(Math.hypot(90, 90), 5);
+      expect(t.circlesOverlap(a, 5, b, 5)).toBe(false);
+      expect(new Topology(100, 100).circlesOverlap(a, 10, b, 10)).toBe(true);
+    });
+  });
+
+  describe('touchesWall', () => {
+    it('detects contact with walls only', () => {
+      const walled = new Topology(100, 100, 'walled');
+      expect(walled.touchesWall({ x: 5, y: 50 }, 5)).toBe(true);
+      expect(walled.touchesWall({ x: 50, y: 96 }, 5)).toBe(true);
+      expect(walled.touchesWall({ x: 50, y: 50 }, 5)).toBe(false);
+
+      const cyl = new Topology(100, 100, 'cylinder');
+      expect(cyl.touchesWall({ x: 2, y: 50 }, 5)).toBe(false);
+      expect(cyl.touchesWall({ x: 50, y: 2 }, 5)).toBe(true);
+
+      expect(new Topology(100, 100).touchesWall({ x: 0, y: 0 }, 5)).toBe(false);
+    });
+  });
+
+  describe('rayWallIntersect', () => {
+    it('returns the fraction of the ray inside the walls', () => {
+      const t = new Topology(100, 100, 'walled');
+      expect(t.rayWallIntersect({ x: 80, y: 50 }, { x: 120, y: 50 })).toBeCloseTo(0.5, 5);
+      expect(t.rayWallIntersect({ x: 50, y: 20 }, { x: 50, y: -20 })).toBeCloseTo(0.5, 5);
+    });
+
+    it('takes the nearer wall when leaving through a corner', () => {
+      const t = new Topology(100, 100, 'walled');
+      expect(t.rayWallIntersect({ x: 90, y: 80 }, { x: 110, y: 120 })).toBeCloseTo(0.5, 5);
+    });
+
+    it('returns null when the ray stays inside', () => {
+      const t = new Topology(100, 100, 'walled');
+      expect(t.rayWallIntersect({ x: 20, y: 20 }, { x: 80, y: 80 })).toBeNull();
+    });
+
+    it('ignores periodic edges', () => {
+      expect(new Topology(100, 100).rayWallIntersect({ x: 80, y: 50 }, { x: 120, y: 50 })).toBeNull();
+      const cyl = new Topology(100, 100, 'cylinder');
+      expect(cyl.rayWallIntersect({ x: 80, y: 50 }, { x: 120, y: 50 })).toBeNull();
+      expect(cyl.rayWallIntersect({ x: 50, y: 80 }, { x: 50, y: 120 })).toBeCloseTo(0.5, 5);
+    });
+  });
+
+  describe('nearestImage', () => {
+    it('shifts a point across the seam toward the reference', () => {
+      const t = new Topology(100, 100);
+      expect(t.nearestImage({ x: 5, y: 95 }, { x: 110, y: -10 })).toEqual({ x: 105, y: -5 });
+      expect(t.nearestImage({ x: 40, y: 40 }, { x: 50, y: 50 })).toEqual({ x: 40, y: 40 });
+    });
+
+    it('only shifts along periodic axes', () => {
+      const t = new Topology(100, 100, 'cylinder');
+      expect(t.nearestImage({ x: 5, y: 95 }, { x: 110, y: -10 })).toEqual({ x: 105, y: 95 });
+    });
+  });
+
+  describe('rayCircleIntersect', () => {
+    it('hits a circle across each edge of a torus', () => {
+      const t = new Topology(100, 100);
+      expect(t.rayCircleIntersect({ x: 90, y: 50 }, { x: 130, y: 50 }, { x: 10, y: 50 }, 2)).toBeCloseTo(0.45, 5);
+      expect(t.rayCircleIntersect({ x: 10, y: 50 }, { x: -30, y: 50 }, { x: 90, y: 50 }, 2)).toBeCloseTo(0.45, 5);
+      expect(t.rayCircleIntersect({ x: 50, y: 90 }, { x: 50, y: 130 }, { x: 50, y: 10 }, 2)).toBeCloseTo(0.45, 5);
+      expect(t.rayCircleIntersect({ x: 50, y: 10 }, { x: 50, y: -30 }, { x: 50, y: 90 }, 2)).toBeCloseTo(0.45, 5);
+    });
+
+    it('misses across a wall', () => {
+      const t = new Topology(100, 100, 'cylinder');
+      expect(t.rayCircleIntersect({ x: 50, y: 90 }, { x: 50, y: 130 }, { x: 50, y: 10 }, 2)).toBeNull();
+    });
+  });
+});
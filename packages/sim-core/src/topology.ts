@@ -0,0 +1,132 @@
+// ============================================================
+// Topology — how the world's edges behave
+// ============================================================
+// 'torus'    — both axes wrap (the original world).
+// 'cylinder' — x wraps, top and bottom are walls.
+// 'walled'   — all four edges are walls.
+// Distances, neighbour queries and position updates go through this
+// class, so the rest of the simulation never checks which axes wrap.
+
+import type { Vec2, WorldBoundary } from './types.js';
+import { rayCircleIntersect } from './geometry.js';
+
+export class Topology {
+  readonly width: number;
+  readonly height: number;
+  readonly boundary: WorldBoundary;
+  /** Left and right edges meet. */
+  readonly wrapX: boolean;
+  /** Top and bottom edges meet. */
+  readonly wrapY: boolean;
+
+  constructor(width: number, height: number, boundary: WorldBoundary = 'torus') {
+    this.width = width;
+    this.height = height;
+    this.boundary = boundary;
+    this.wrapX = boundary !== 'walled';
+    this.wrapY = boundary === 'torus';
+  }
+
+  /**
+   * Bring a position back into the world: wrap periodic axes, clamp walled
+   * ones so a circle of `radius` stays inside. Mutates pos.
+   * @returns true if a wall stopped the position.
+   */
+  confine(pos: Vec2, radius = 0): boolean {
+    let hitWall = false;
+    if (this.wrapX) {
+      pos.x = ((pos.x % this.width) + this.width) % this.width;
+    } else {
+      const x = clampAxis(pos.x, radius, this.width);
+      hitWall = x !== pos.x;
+      pos.x = x;
+    }
+    if (this.wrapY) {
+      pos.y = ((pos.y % this.height) + this.height) % this.height;
+    } else {
+      const y = clampAxis(pos.y, radius, this.height);
+      hitWall = hitWall || y !== pos.y;
+      pos.y = y;
+    }
+    return hitWall;
+  }
+
+  /** Shortest displacement vector from `a` to `b` (seams are crossed only on periodic axes). */
+  delta(a: Vec2, b: Vec2): Vec2 {
+    let dx = b.x - a.x;
+    let dy = b.y - a.y;
+    if (this.wrapX) {
+      if (dx > this.width / 2) dx -= this.width;
+      else if (dx < -this.width / 2) dx += this.width;
+    }
+    if (this.wrapY) {
+      if (dy > this.height / 2) dy -= this.height;
+      else if (dy < -this.height / 2) dy += this.height;
+    }
+    return { x: dx, y: dy };
+  }
+
+  /** Shortest distance between two points. */
+  distance(a: Vec2, b: Vec2): number {
+    const d = this.delta(a, b);
+    return Math.sqrt(d.x * d.x + d.y * d.y);
+  }
+
+  /** Check if two circles overlap. */
+  circlesOverlap(a: Vec2, ra: number, b: Vec2, rb: number): boolean {
+    return this.distance(a, b) < ra + rb;
+  }
+
+  /** Whether a circle of `radius` at `pos` touches a wall. Always false on a torus. */
+  touchesWall(pos: Vec2, radius: number): boolean {
+    if (!this.wrapX && (pos.x - radius <= 0 || pos.x + radius >= this.width)) return true;
+    if (!this.wrapY && (pos.y - radius <= 0 || pos.y + radius >= this.height)) return true;
+    return false;
+  }
+
+  /**
+   * The copy of `point` nearest to `reference`, shifted by whole world sizes
+   * on periodic axes so it can be compared with unwrapped coordinates.
+   */
+  nearestImage(point: Vec2, reference: Vec2): Vec2 {
+    const d = this.delta(reference, point);
+    return { x: reference.x + d.x, y: reference.y + d.y };
+  }
+
+  /**
+   * Ray–circle hit for a ray in unwrapped coordinates (its end may lie past
+   * a seam). The circle is tested at its copy nearest the ray's midpoint —
+   * the one the ray can reach, for rays shorter than the world.
+   */
+  rayCircleIntersect(rayStart: Vec2, rayEnd: Vec2, center: Vec2, radius: number): number | null {
+    const mid = { x: (rayStart.x + rayEnd.x) / 2, y: (rayStart.y + rayEnd.y) / 2 };
+    return rayCircleIntersect(rayStart, rayEnd, this.nearestImage(center, mid), radius);
+  }
+
+  /**
+   * Normalized distance [0,1] along the ray at which it reaches a wall,
+   * or null if it stays inside (always null on a torus).
+   */
+  rayWallIntersect(rayStart: Vec2, rayEnd: Vec2): number | null {
+    let best: number | null = null;
+    const consider = (start: number, end: number, size: number) => {
+      const d = end - start;
+      let t: number | null = null;
+      if (end > size && d > 0) t = (size - start) / d;
+      else if (end < 0 && d < 0) t = -start / d;
+      if (t !== null) {
+        t = Math.max(0, t);
+        if (best === null || t < best) best = t;
+      }
+    };
+    if (!this.wrapX) consider(rayStart.x, rayEnd.x, this.width);
+    if (!this.wrapY) consider(rayStart.y, rayEnd.y, this.height);
+    return best;
+  }
+}
+
+function clampAxis(v: number, radius: number, size: number): number {
+  const lo = Math.min(radius, size / 2);
+  const hi = Math.max(size - radius, size / 2);
+  return Math.max(lo, Math.min(hi, v));
+}
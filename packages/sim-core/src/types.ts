@@ -11,11 +11,14 @@ import type { ConfigValue } from './expr.js';
  * can be expressed in JSON without code changes. Structural fields
  * (world size, tick rate, etc.) remain plain numbers.
  */
+export type WorldBoundary = 'torus' | 'walled' | 'cylinder';
+
 export interface WorldConfig {
   world: {
     width: number;
     height: number;
-    boundary: 'torus';
+    /** Edge behaviour: 'torus' wraps both axes, 'cylinder' wraps x only, 'walled' wraps neither. */
+    boundary: WorldBoundary;
   };
   simulation: {
     tickRate: number;
@@ -36,7 +39,11 @@ export interface WorldConfig {
     broadcastCost: ConfigValue;
   };
   food: {
-    spawnRate: number;
+    /**
+     * Food items spawned per tick. A plain number is rounded up (0.3 spawns one
+     * item every tick); an expression's fractional part spawns with matching probability.
+     */
+    spawnRate: ConfigValue;
     nutritionValue: ConfigValue;
     maxCount: number;
     radius: number;
@@ -45,6 +52,23 @@ export interface WorldConfig {
     baseDamage: ConfigValue;
     attackRadius: number;
     attackCooldown: number;
+    /**
+     * Graded attacks: the `attack` output above 0.5 sets the strength
+     * (0.5..1 → 0..1), scaling both damage and `energy.attackCost`.
+     * Omitted/false = every attack is full strength.
+     */
+    gradedAttack?: boolean;
+    /**
+     * Full angle (radians) of the attack cone, centred on the heading. Only
+     * targets inside it are hit. Omitted = all directions (2π).
+     */
+    attackArc?: number;
+    /**
+     * Damage multiplier per target. Variables: attacker's creature.*,
+     * attack.distance, attack.radius and attack.angle (radians off the
+     * heading, 0..π). Omitted = full damage anywhere in range.
+     */
+    damageFalloff?: ConfigValue;
   };
   reproduction: {
     energyThreshold: ConfigValue;
@@ -54,6 +78,44 @@ export interface WorldConfig {
     cooldown: number;
     /** Probability of sexual reproduction (crossover) when a mate is nearby. 0 = always asexual. */
     crossoverRate: number;
+    /** Radius searched for a mate. Omitted = `creatureDefaults.radius * 20`. */
+    mateSearchRadius?: number;
+    /**
+     * Sexual-selection mode: creatures get a `sex`, mates must be of the
+     * opposite sex and both partners must accept (see `mateChoice`).
+     */
+    sexes?: boolean;
+    /**
+     * What starts reproduction. 'auto' (default): any adult at or above
+     * `energyThreshold` off cooldown. 'actuator': additionally only when its
+     * `reproduce` output is on; creatures without the actuator never reproduce.
+     */
+    trigger?: 'auto' | 'actuator';
+    /**
+     * With `trigger: 'actuator'`, the graded share output maps onto
+     * `minOffspringShare..maxOffspringShare` of the parent's energy
+     * (instead of `offspringEnergyShare`). Defaults: 0.1 and 0.9.
+     */
+    minOffspringShare?: number;
+    maxOffspringShare?: number;
+    /**
+     * Self-adaptive mutation: every genome carries its own rates and strength
+     * (`DNA.mutation`), which mutate log-normally each generation within
+     * bounds set by `mutationRate` / `mutationStrength`. Omitted = every
+     * lineage uses the global values.
+     */
+    selfAdaptive?: SelfAdaptiveMutationConfig;
+    /**
+     * What children inherit of their parents' learning (Hebbian weight
+     * changes). 'darwinian' (default): genomic weights only. 'lamarckian':
+     * the parent's current runtime weights are written into the child's
+     * genome. 'partial': `inheritanceShare` of the learned change, with noise.
+     */
+    inheritance?: 'darwinian' | 'lamarckian' | 'partial';
+    /** Share of the learned weight change passed on in 'partial' mode, 0..1. Default: 0.5. */
+    inheritanceShare?: number;
+    /** Standard deviation of the noise on that share in 'partial' mode. Default: 0.1. */
+    inheritanceNoise?: number;
   };
   death: {
     foodDropRatio: number;
@@ -72,12 +134,372 @@ export interface WorldConfig {
     count: number;
     minRadius: number;
     maxRadius: number;
+    /** Fixed obstacles (walls, polygons) placed in addition to the `count` random circles. */
+    shapes?: ObstacleShapeConfig[];
+    /** Drifting random obstacles. Omitted = all random obstacles are static. */
+    motion?: {
+      /** Probability that a random obstacle drifts (0..1). */
+      fraction: number;
+      /** Drift speed range (world units per tick); the direction is random. */
+      minSpeed: number;
+      maxSpeed: number;
+    };
+    /** Hit points of random obstacles; attacks erode them. Omitted = indestructible. */
+    durability?: number;
+    /** Ticks between re-rolling all obstacles from config (0 / omitted = never). */
+    regenerateInterval?: number;
   };
   creatureDefaults: {
     radius: number;
     maxSpeed: number;
     maxTurnRate: number;
   };
+  /**
+   * Time-varying environment. Drives the `world.dayPhase` and `world.season`
+   * expression variables. Omitted = no cycles (both phases stay at 0).
+   */
+  environment?: {
+    /** Ticks per day/night cycle (0 = no cycle). */
+    dayLength: number;
+    /** Ticks per seasonal cycle (0 = no cycle). */
+    seasonLength: number;
+    /**
+     * Effective ray vision range. Evaluated per creature with `sensor.maxDistance`
+     * (the gene value) in context. Omitted = gene value is used as is.
+     */
+    rayMaxDistance?: ConfigValue;
+  };
+  /**
+   * Spatially varying food supply: hotspots, biomes and a fertility map.
+   * Omitted = food spawns uniformly at random (original behavior).
+   */
+  foodDistribution?: FoodDistributionConfig;
+  /**
+   * Living plants: grow over time, seed nearby and are grazed partially.
+   * Omitted = no plants.
+   */
+  plants?: PlantConfig;
+  /**
+   * Multi-channel pheromone grid for the `depositPheromone` actuator and the
+   * `pheromoneSense` sensor. Omitted = no grid (both genes are inert).
+   */
+  pheromones?: PheromoneConfig;
+  /**
+   * How offspring come into the world (eggs, gestation) and the juvenile
+   * stage. Omitted = offspring spawn instantly as adults.
+   */
+  development?: DevelopmentConfig;
+  /**
+   * Senescence: creatures die of old age at their (evolvable) `lifespan` and
+   * pay rising metabolism as they approach it. Omitted = creatures never age.
+   */
+  aging?: AgingConfig;
+  /**
+   * Infectious disease: pathogen strains spread between nearby creatures and
+   * drain energy until recovery. Omitted = no disease.
+   */
+  disease?: DiseaseConfig;
+  /**
+   * Ground types (grass, sand, water, …) that change movement cost, speed and
+   * food fertility, sensed by `terrainSense`. Omitted = uniform plane.
+   */
+  terrain?: TerrainConfig;
+  /**
+   * Evolvable RGB body colour (`DNA.color`), seen by `colorVision` and drawn
+   * by renderers. Omitted = creatures carry no colour gene.
+   */
+  appearance?: AppearanceConfig;
+  /**
+   * Noise made by moving and attacking creatures, heard by the `hearing`
+   * sensor. Omitted = the world is silent (hearing reads 0).
+   */
+  hearing?: HearingConfig;
+  /**
+   * Picking up food and towing smaller creatures with the `grab` actuator.
+   * Omitted = `grab` has no effect.
+   */
+  grab?: GrabConfig;
+  /** Burst speed via the `sprint` actuator. Omitted = `sprint` has no effect. */
+  sprint?: SprintConfig;
+  /** Damage reduction via the `shield` actuator. Omitted = `shield` has no effect. */
+  shield?: ShieldConfig;
+  /**
+   * Hit points separate from energy: attacks damage health, which regenerates
+   * over time, and a creature dies when it runs out. Omitted = attacks
+   * subtract from energy.
+   */
+  health?: HealthConfig;
+  /**
+   * Predation via the `bite` actuator: a bite drains energy from a victim and
+   * transfers part of it to the biter. Omitted = `bite` has no effect.
+   */
+  predation?: {
+    /** Max center-to-center distance to bite a creature. */
+    biteRadius: number;
+    /** Energy drained from the victim per bite (capped at its remaining energy). */
+    biteDamage: ConfigValue;
+    /** Fraction of drained energy the biter can digest (further scaled by its diet). */
+    transferRatio: number;
+    /** Energy cost of a bite attempt. */
+    biteCost: ConfigValue;
+  };
+  /** Creature–creature collision physics. Omitted = creatures overlap freely. */
+  physics?: {
+    /**
+     * 'none' — no push-out, 'hard' — overlap fully projected out each tick,
+     * 'soft' — spring-like push-out resolving `stiffness` of the overlap per tick.
+     */
+    collisionMode: 'none' | 'hard' | 'soft';
+    /** Fraction of overlap resolved per tick in 'soft' mode (0..1). */
+    stiffness: number;
+    /** Mass = body.radius ^ massExponent. 2 = area-proportional, 0 = equal masses. */
+    massExponent: number;
+  };
+}
+
+/** Gaussian food patch. Globally spawned food lands in a patch with probability ∝ weight. */
+export interface FoodHotspotConfig {
+  x: number;
+  y: number;
+  /** Standard deviation of the patch (world units). */
+  sigma: number;
+  /** Relative share of global food spawns placed in this patch. */
+  weight: number;
+  /** Drift per tick (world units). The patch wraps around the torus. */
+  driftX?: number;
+  driftY?: number;
+}
+
+/** Named rectangle with its own food supply. */
+export interface FoodBiomeConfig {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Extra food spawned per tick inside the rectangle (on top of `food.spawnRate`). */
+  spawnRate: ConfigValue;
+  /** Nutrition of any food spawned inside the rectangle. Omitted = `food.nutritionValue`. */
+  nutrition?: ConfigValue;
+}
+
+export interface FoodDistributionConfig {
+  /** Relative share of global food spawns placed uniformly (vs. in hotspots). */
+  backgroundWeight: number;
+  hotspots: FoodHotspotConfig[];
+  biomes: FoodBiomeConfig[];
+  /** Grid fertility map. Omitted = fertility is always 1. */
+  fertility?: {
+    /** Cell size of the fertility grid (world units). */
+    cellSize: number;
+    /** Fertility lost by a cell each time food is eaten in it. */
+    depletionPerFood: number;
+    /** Fertility regained by every cell per tick (capped at 1). */
+    regenRate: number;
+  };
+}
+
+export interface PlantConfig {
+  /** Plants placed by `initialize()`. */
+  initialCount: number;
+  /** Seeding stops at this many plants. */
+  maxCount: number;
+  /** Collision / vision radius of a plant. */
+  radius: number;
+  /** Nutrition of a new plant (also what seeding costs the parent). */
+  initialNutrition: number;
+  /** Growth stops at this nutrition. */
+  maxNutrition: number;
+  /** Nutrition gained per tick. Context: world variables, `plant.nutrition`, `plant.age`. */
+  growthRate: ConfigValue;
+  /** Minimum nutrition before a plant can seed. */
+  seedThreshold: number;
+  /** Per-tick probability that a plant above `seedThreshold` seeds. */
+  seedChance: number;
+  /** Max distance from parent to seedling. */
+  seedRadius: number;
+  /** Max nutrition a creature grazes from a plant per tick. Context: creature + world variables. */
+  grazeAmount: ConfigValue;
+}
+
+export interface DevelopmentConfig {
+  /**
+   * 'instant' — the child spawns next to the parent right away;
+   * 'egg' — the parent lays an egg that hatches after `incubationTime`;
+   * 'gestation' — the parent carries the child for `gestationTime` ticks.
+   */
+  mode: 'instant' | 'egg' | 'gestation';
+  /** Ticks before an egg hatches. */
+  incubationTime: number;
+  /** Collision / vision radius of an egg. */
+  eggRadius: number;
+  /** Ticks a pregnant parent carries its offspring. */
+  gestationTime: number;
+  /** Age (ticks) at which a creature stops being juvenile. 0 = no juvenile stage. */
+  maturityAge: number;
+  /** Speed multiplier for juveniles. */
+  juvenileSpeedFactor: number;
+  /** Attack and bite damage multiplier for juveniles. */
+  juvenileAttackFactor: number;
+}
+
+export interface AgingConfig {
+  /** Lifespan (ticks) given to creatures spawned without a `lifespan` gene. */
+  defaultLifespan: number;
+  /** Clamp for the `lifespan` gene. */
+  minLifespan: number;
+  maxLifespan: number;
+  /**
+   * Extra base metabolism at the end of life: the multiplier grows linearly
+   * from 1 at birth to `1 + senescenceMetabolism` at `lifespan`.
+   */
+  senescenceMetabolism: number;
+}
+
+export interface AppearanceConfig {
+  /**
+   * Colour given to creatures spawned without a `color` gene, indexed by
+   * `groupId` (wrapping). Omitted = the built-in group palette.
+   */
+  palette?: ColorGene[];
+}
+
+export interface GrabConfig {
+  /** How far beyond touching a creature can reach to grab something. */
+  reach: number;
+  /**
+   * Extra energy per tick per unit of speed per unit of load. Load is the
+   * carried item's area relative to the carrier's (food of the carrier's
+   * size = 1).
+   */
+  loadCost: ConfigValue;
+  /** Largest creature that can be towed, as a ratio of the carrier's radius. Default: 0.8. */
+  maxCreatureRatio?: number;
+}
+
+export interface SprintConfig {
+  /** Extra forward speed at full sprint, as a multiple of the current speed (1 = double). */
+  speedBoost: number;
+  /** Energy per tick at full sprint (scaled by sprint intensity). */
+  cost: ConfigValue;
+  /** Fatigue gained per tick at full sprint. Fatigue (0..1) scales the boost down. */
+  fatigueRate: number;
+  /** Fatigue recovered per tick while not sprinting (scaled by how little it sprints). */
+  recoveryRate: number;
+}
+
+export interface ShieldConfig {
+  /** Share of attack damage blocked at full shield, 0..1. */
+  maxReduction: number;
+  /** Energy per tick at full shield (scaled by shield intensity). */
+  cost: ConfigValue;
+}
+
+export interface SelfAdaptiveMutationConfig {
+  /** Log-normal step τ: each parameter is multiplied by exp(τ·N(0,1)) per generation. Default: 0.2. */
+  learningRate?: number;
+  /**
+   * How far a lineage may drift from the global value, as a factor either
+   * way: bounds are `global / range .. global * range` (rates capped at 1).
+   * Default: 10.
+   */
+  range?: number;
+}
+
+export interface HealthConfig {
+  /** Hit points at full health (creature variables; evaluated per tick). */
+  maxHealth: ConfigValue;
+  /** Health regained per tick while below the maximum. */
+  regenRate: ConfigValue;
+  /** Energy per point of health regained. Default: 0. */
+  regenCost?: ConfigValue;
+}
+
+export interface HearingConfig {
+  /** Max distance at which a creature can be heard. */
+  range: number;
+  /** Noise per unit of speed (world units per tick). */
+  speedNoise: number;
+  /** Extra noise of a creature that is attacking. */
+  attackNoise: number;
+  /**
+   * Fraction of a source's noise that reaches the listener. Evaluated per
+   * listener–source pair with `sound.distance`, `sound.range` and
+   * `sound.noise` (plus the listener's variables) in context.
+   * Omitted = linear falloff `1 - sound.distance / sound.range`.
+   */
+  attenuation?: ConfigValue;
+}
+
+export interface TerrainTypeConfig {
+  name: string;
+  /** Multiplier on `energy.moveCost` while standing on this terrain. */
+  moveCostFactor: number;
+  /** Multiplier on speed while standing on this terrain. */
+  speedFactor: number;
+  /** Probability (0..1) that food or a seedling landing here actually appears. */
+  fertility: number;
+  /** Display color for renderers (CSS hex, e.g. "#c2b280"). */
+  color?: string;
+}
+
+export interface TerrainConfig {
+  types: TerrainTypeConfig[];
+  /** Grid cell size (world units). */
+  cellSize: number;
+  /**
+   * Explicit layout: rows of type indices. Tiles if smaller than the grid.
+   * Omitted = generated from seeded noise.
+   */
+  cells?: number[][];
+  /** Size of the largest noise features (world units). Omitted = `cellSize * 8`. */
+  noiseScale?: number;
+  /**
+   * Ascending noise cut-offs in [0, 1]: type `i` covers noise below
+   * `thresholds[i]`, the last type takes the rest. Omitted = even split.
+   */
+  thresholds?: number[];
+  /** Noise seed. Omitted = `simulation.seed`. */
+  seed?: number;
+}
+
+export interface PathogenStrainConfig {
+  name: string;
+  /** Per-tick probability of infecting each susceptible creature within `transmissionRadius`. */
+  transmissionChance: number;
+  /** Energy lost per tick while infected. Context: creature + world variables. */
+  energyDrain: ConfigValue;
+  /** Ticks from infection to recovery. */
+  duration: number;
+}
+
+export interface DiseaseConfig {
+  strains: PathogenStrainConfig[];
+  /** Max center-to-center distance for transmission. */
+  transmissionRadius: number;
+  /** Ticks a recovered creature is immune to the same strain. */
+  immunityDuration: number;
+  /** Creatures infected (with a random strain) by `initialize()`. */
+  initialInfected: number;
+  /** Per-tick probability that a random creature catches a random strain from the environment. */
+  spontaneousRate: number;
+  /** Extra metabolism per tick per unit of `resistance` (summed over strains). */
+  resistanceCost: number;
+}
+
+export interface PheromoneConfig {
+  /** Number of independent channels. */
+  channels: number;
+  /** Grid cell size (world units). */
+  cellSize: number;
+  /** Fraction of each cell blended toward its 4-neighbour mean per tick (0..1). */
+  diffusionRate: number;
+  /** Fraction of concentration lost per tick (0..1). */
+  evaporationRate: number;
+  /** Concentration added per tick while depositing (cells saturate at 1). */
+  depositAmount: number;
+  /** Energy cost per tick of depositing. */
+  depositCost: ConfigValue;
 }
 
 // ============================================================
@@ -88,21 +510,87 @@ export interface DNA {
   groupId: number;
   hasIFF: boolean;
   body: BodyGene;
+  /**
+   * Herbivore ↔ carnivore trade-off, 0..1. Plant food yields `1 - diet` of its
+   * nutrition, meat from bites yields `diet`. Omitted = 0 (pure herbivore).
+   */
+  diet?: number;
+  /**
+   * Biological sex, used only when `reproduction.sexes` is on. Assigned at
+   * random at birth (never mutated). Omitted = assigned on spawn.
+   */
+  sex?: Sex;
+  /**
+   * Ticks until death of old age, used only when `aging` is configured.
+   * Omitted = `aging.defaultLifespan` (assigned on spawn).
+   */
+  lifespan?: number;
+  /**
+   * Resistance to each disease strain (index = strain), 0..1. Scales down the
+   * chance of catching it. Omitted = no resistance (assigned on spawn).
+   */
+  resistance?: number[];
+  /**
+   * Body colour, used only when `appearance` is configured. Omitted = the
+   * group's palette colour (assigned on spawn).
+   */
+  color?: ColorGene;
+  /**
+   * Own mutation parameters, used only when `reproduction.selfAdaptive` is
+   * configured. Omitted = the global rates (assigned on spawn).
+   */
+  mutation?: MutationGene;
   sensors: SensorGene[];
   actuators: ActuatorGene[];
   brain: BrainGenome;
 }
 
+export type Sex = 'male' | 'female';
+
 export interface BodyGene {
   radius: number; // 3..10
 }
 
+/** Per-genome mutation parameters (see `reproduction.selfAdaptive`). */
+export interface MutationGene {
+  /** Chance of jittering each numeric parameter (weights, body, sensor settings). */
+  weightRate: number;
+  /** Chance of each structural change (sensors, actuators, brain nodes and connections). */
+  structuralRate: number;
+  /** Standard deviation of the numeric jitter. */
+  strength: number;
+}
+
+/** RGB colour, each channel 0..1. */
+export interface ColorGene {
+  r: number;
+  g: number;
+  b: number;
+}
+
 // Sensor types
-export type SensorGene =
-  | RayVisionGene
-  | TouchGene
-  | EnergySenseGene
-  | BroadcastReceiverGene;
+/**
+ * Sensor genes by `type`. Extend this interface (declaration merging) to
+ * add a sensor type, then register its definition (see `registerSensor`).
+ */
+export interface SensorGeneMap {
+  rayVision: RayVisionGene;
+  touch: TouchGene;
+  energySense: EnergySenseGene;
+  broadcastReceiver: BroadcastReceiverGene;
+  pheromoneSense: PheromoneSenseGene;
+  terrainSense: TerrainSenseGene;
+  colorVision: ColorVisionGene;
+  hearing: HearingGene;
+  ageSense: AgeSenseGene;
+  speedSense: SpeedSenseGene;
+  cooldownSense: CooldownSenseGene;
+  damageSense: DamageSenseGene;
+  clockSense: ClockSenseGene;
+  holdSense: HoldSenseGene;
+}
+
+export type SensorGene = SensorGeneMap[keyof SensorGeneMap];
 
 export interface RayVisionGene {
   type: 'rayVision';
@@ -125,13 +613,85 @@ export interface BroadcastReceiverGene {
   channels: number[];
 }
 
+export interface PheromoneSenseGene {
+  type: 'pheromoneSense';
+  channels: number[];
+}
+
+export interface TerrainSenseGene {
+  type: 'terrainSense';
+  lookAhead: number;      // 5..100, distance of the second sample along the heading
+}
+
+/** Own age: fraction of lifespan with `aging`, otherwise a saturating curve. */
+export interface AgeSenseGene {
+  type: 'ageSense';
+}
+
+/** Own speed and turn rate, as fractions of their maxima. */
+export interface SpeedSenseGene {
+  type: 'speedSense';
+}
+
+/** Remaining attack and reproduction cooldowns, as fractions of their full length. */
+export interface CooldownSenseGene {
+  type: 'cooldownSense';
+}
+
+/**
+ * Damage from attacks and bites since the last brain tick, as a share of what
+ * was left to lose: remaining health when `health` is configured, energy otherwise.
+ */
+export interface DamageSenseGene {
+  type: 'damageSense';
+}
+
+/** Internal oscillator: sin/cos of the creature's age over an evolvable period. */
+export interface ClockSenseGene {
+  type: 'clockSense';
+  period: number;         // 10..2000 ticks
+}
+
+/** Whether the creature is carrying food / towing a creature (`grab`). */
+export interface HoldSenseGene {
+  type: 'holdSense';
+}
+
+/** Loudness and left/right bearing of nearby noise (see `hearing` config). */
+export interface HearingGene {
+  type: 'hearing';
+}
+
+/** Rays like `rayVision`, but each reports the colour of what it hit. */
+export interface ColorVisionGene {
+  type: 'colorVision';
+  rayCount: number;       // 1..16
+  fov: number;            // 0.1..2π
+  maxDistance: number;     // 10..200
+  offsetAngle: number;    // -π..π
+}
+
 // Actuator types
-export type ActuatorGene =
-  | MoveActuatorGene
-  | AttackActuatorGene
-  | EatActuatorGene
-  | DonateActuatorGene
-  | BroadcastActuatorGene;
+/**
+ * Actuator genes by `type`. Extend this interface (declaration merging) to
+ * add an actuator type, then register its definition (see `registerActuator`).
+ */
+export interface ActuatorGeneMap {
+  move: MoveActuatorGene;
+  attack: AttackActuatorGene;
+  eat: EatActuatorGene;
+  donate: DonateActuatorGene;
+  broadcast: BroadcastActuatorGene;
+  bite: BiteActuatorGene;
+  depositPheromone: DepositPheromoneActuatorGene;
+  mateChoice: MateChoiceActuatorGene;
+  grab: GrabActuatorGene;
+  sprint: SprintActuatorGene;
+  shield: ShieldActuatorGene;
+  reproduce: ReproduceActuatorGene;
+}
+
+export type ActuatorGene = ActuatorGeneMap[keyof ActuatorGeneMap];
 
 export interface MoveActuatorGene {
   type: 'move';
@@ -154,6 +714,42 @@ export interface BroadcastActuatorGene {
   channel: number;
 }
 
+export interface BiteActuatorGene {
+  type: 'bite';
+}
+
+export interface DepositPheromoneActuatorGene {
+  type: 'depositPheromone';
+  channel: number;
+}
+
+export interface MateChoiceActuatorGene {
+  type: 'mateChoice';
+}
+
+/** Graded burst of speed that tires the creature (see `sprint` config). */
+export interface SprintActuatorGene {
+  type: 'sprint';
+}
+
+/** Graded guard against attack damage, paid for every tick (see `shield` config). */
+export interface ShieldActuatorGene {
+  type: 'shield';
+}
+
+/**
+ * Decide when to split and how much energy the offspring gets
+ * (see `reproduction.trigger`). Outputs: reproduce, energy share.
+ */
+export interface ReproduceActuatorGene {
+  type: 'reproduce';
+}
+
+/** Hold on to food or a smaller creature while the output is on (see `grab` config). */
+export interface GrabActuatorGene {
+  type: 'grab';
+}
+
 // ============================================================
 // Brain (NEAT genome) types
 // ============================================================
@@ -201,52 +797,199 @@ export interface CreatureState {
   isBroadcasting: boolean;
   broadcastChannel: number;
   isAttacking: boolean;
+  /** Strength of this tick's attack, 0..1 (always 1 without `combat.gradedAttack`). */
+  attackStrength: number;
+  /** Sprint intensity this tick, 0..1 (`sprint` output). */
+  sprint: number;
+  /** Accumulated sprint fatigue, 0..1. */
+  fatigue: number;
+  /** Shield intensity this tick, 0..1 (`shield` output). */
+  shield: number;
+  /** Hit points (`health` config). Absent without it. */
+  health?: number;
   isDonating: boolean;
   isEating: boolean;
+  isBiting: boolean;
+  isDepositing: boolean;
+  depositChannel: number;
+  /** Willing to mate this tick (`mateChoice` output). Always true without the actuator. */
+  isAcceptingMate: boolean;
+  /** Wants to reproduce this tick (`reproduce` output; used with `reproduction.trigger: 'actuator'`). */
+  isReproducing: boolean;
+  /** Offspring energy share chosen this tick, 0..1 (`reproduce` output). */
+  reproduceShare: number;
+  /** Wants to hold something this tick (`grab` output). */
+  isGrabbing: boolean;
+  /** What the creature is carrying (`grab`), or null. Kept across snapshot loads. */
+  holding: HeldItem | null;
+  /** Offspring being carried (`development.mode = 'gestation'`), or null. */
+  gestation: GestationState | null;
+  /** Strains the creature currently carries. */
+  infections: InfectionState[];
+  /** Strains the creature recently recovered from and cannot catch again yet. */
+  immunities: InfectionState[];
   velocity: number;    // current speed scalar
   angularVelocity: number; // current turn rate
   /** Runtime brain weights (Hebbian-modified). Present in snapshots for persistence. */
   runtimeWeights?: number[];
 }
 
+/** A food item or creature held by a `grab` carrier. */
+export interface HeldItem {
+  kind: 'food' | 'creature';
+  id: number;
+}
+
 export interface FoodItemState {
   id: number;
   position: Vec2;
   nutrition: number;
+  /** Nutrition was set by the item's biome; otherwise it follows `food.nutritionValue` when eaten. */
+  biomeNutrition?: boolean;
 }
 
+export interface PlantState {
+  id: number;
+  position: Vec2;
+  /** Current biomass; grazing takes from it, the plant dies at 0. */
+  nutrition: number;
+  age: number;
+}
+
+export interface InfectionState {
+  /** Index into `disease.strains`. */
+  strain: number;
+  /** Ticks until recovery (infection) or until immunity wears off. */
+  ticksLeft: number;
+}
+
+/** Offspring conceived but not yet born; its energy is already paid by the parent. */
+export interface GestationState {
+  ticksLeft: number;
+  dna: DNA;
+  energy: number;
+  mateId: number | null;
+}
+
+export interface EggState {
+  id: number;
+  position: Vec2;
+  /** Energy the hatchling starts with (also what eating the egg yields). */
+  energy: number;
+  dna: DNA;
+  parentId: number;
+  mateId: number | null;
+  /** Ticks until hatching. */
+  incubation: number;
+}
+
+/** A fixed obstacle in world coordinates (see `obstacles.shapes`). */
+export type ObstacleShapeConfig = (
+  | { type: 'circle'; x: number; y: number; radius: number }
+  | {
+    type: 'segment';
+    from: Vec2;
+    to: Vec2;
+    /** Wall thickness (world units). Default 2. */
+    thickness?: number;
+  }
+  | {
+    type: 'polygon';
+    /** Convex outline, in order (either winding). */
+    vertices: Vec2[];
+  }
+) & {
+  /** Drift per tick. Omitted = static. */
+  velocity?: Vec2;
+  /** Hit points; attacks erode it. Omitted = indestructible. */
+  durability?: number;
+};
+
+/** Non-circular obstacle outline, relative to the obstacle's `position`. */
+export type ObstacleShape =
+  | { type: 'segment'; a: Vec2; b: Vec2; halfWidth: number }
+  | { type: 'polygon'; vertices: Vec2[] };
+
 export interface ObstacleState {
   id: number;
+  /** Circle center, segment midpoint or polygon vertex centroid. */
   position: Vec2;
+  /** Circle radius; for other shapes, the bounding radius around `position`. */
   radius: number;
+  /** Outline. Omitted = circle of `radius`. */
+  shape?: ObstacleShape;
+  /** Drift per tick (wraps on periodic axes, bounces off walls). Omitted = static. */
+  velocity?: Vec2;
+  /** Remaining hit points. Omitted = indestructible. */
+  durability?: number;
+  /** Hit points when intact (for display). */
+  maxDurability?: number;
 }
 
 // ============================================================
 // World snapshot (for save/load)
 // ============================================================
 
+/** Mutable food-field state (drifting hotspot centers and fertility grid). */
+export interface FoodFieldState {
+  hotspots: Vec2[];
+  fertility: number[];
+}
+
+/** Pheromone concentrations, one row-major array per channel. */
+export interface PheromoneGridState {
+  cols: number;
+  rows: number;
+  channels: number[][];
+}
+
 export interface WorldSnapshot {
   tick: number;
   creatures: CreatureState[];
   food: FoodItemState[];
   obstacles: ObstacleState[];
+  plants?: PlantState[];
+  eggs?: EggState[];
   config: WorldConfig;
   prngState: number[];
   nextEntityId: number;
   innovationCounter: number;
+  foodField?: FoodFieldState;
+  pheromones?: PheromoneGridState;
 }
 
 // ============================================================
 // Event types (for logging / debugging)
 // ============================================================
 
+/**
+ * 'eaten' = drained to zero by a bite (the carcass is consumed, no food drops).
+ * 'old_age' = reached its lifespan (`aging`).
+ * 'disease' = ran out of energy while infected.
+ */
+export type DeathCause = 'starvation' | 'killed' | 'eaten' | 'old_age' | 'disease';
+
 export type SimEvent =
-  | { type: 'creature_born'; tick: number; creatureId: number; parentId: number | null }
-  | { type: 'creature_died'; tick: number; creatureId: number; cause: 'starvation' | 'killed' }
+  | { type: 'creature_born'; tick: number; creatureId: number; parentId: number | null; mateId?: number }
+  | { type: 'creature_died'; tick: number; creatureId: number; cause: DeathCause }
   | { type: 'creature_ate'; tick: number; creatureId: number; foodId: number; energyGained: number }
   | { type: 'creature_attacked'; tick: number; attackerId: number; targetId: number; damage: number }
+  | { type: 'creature_bit'; tick: number; attackerId: number; targetId: number; energyTaken: number; energyGained: number }
   | { type: 'creature_donated'; tick: number; donorId: number; recipientId: number; amount: number }
-  | { type: 'food_spawned'; tick: number; foodId: number };
+  | { type: 'creature_mated'; tick: number; parentId: number; mateId: number }
+  | { type: 'creature_grabbed'; tick: number; creatureId: number; kind: HeldItem['kind']; targetId: number }
+  | { type: 'creature_released'; tick: number; creatureId: number; kind: HeldItem['kind']; targetId: number }
+  | { type: 'creature_grazed'; tick: number; creatureId: number; plantId: number; energyGained: number }
+  | { type: 'creature_infected'; tick: number; creatureId: number; strain: number; sourceId: number | null }
+  | { type: 'creature_recovered'; tick: number; creatureId: number; strain: number }
+  | { type: 'egg_laid'; tick: number; eggId: number; parentId: number }
+  | { type: 'egg_hatched'; tick: number; eggId: number; creatureId: number }
+  | { type: 'egg_eaten'; tick: number; creatureId: number; eggId: number; energyGained: number }
+  | { type: 'food_spawned'; tick: number; foodId: number }
+  | { type: 'plant_spawned'; tick: number; plantId: number; parentId: number | null }
+  | { type: 'obstacle_damaged'; tick: number; obstacleId: number; attackerId: number; damage: number }
+  | { type: 'obstacle_destroyed'; tick: number; obstacleId: number; attackerId: number }
+  | { type: 'obstacles_regenerated'; tick: number; count: number };
 
 // ============================================================
 // Metrics
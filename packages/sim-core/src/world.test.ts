@@ -1,8 +1,11 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { World } from './world.js';
-import { createDefaultDNA, resetInnovationCounter } from './dna.js';
+import { createDefaultDNA, countActuatorOutputs, mutateDNA, resetInnovationCounter } from './dna.js';
 import { PRNG } from './prng.js';
-import type { WorldConfig, DNA, Vec2 } from './types.js';
+import { torusDistance } from './geometry.js';
+import { DEFAULT_PALETTE, SCENERY_COLORS } from './appearance.js';
+import type { WorldConfig, DNA, Vec2, CreatureState } from './types.js';
+import type { ConfigValue } from './expr.js';
 
 /** Minimal world config for quick tests. */
 function testConfig(overrides: Partial<Record<string, unknown>> = {}): WorldConfig {
@@ -110,6 +113,14 @@ describe('World', () => {
       expect(world.food.size).toBeLessThanOrEqual(initialFood + 2);
     });
 
+    it('a plain-number spawn rate spawns ceil(rate) food per tick', () => {
+      const cfg = testConfig();
+      cfg.food.spawnRate = 0.3;
+      const w = new World(cfg);
+      for (let i = 0; i < 5; i++) w.step();
+      expect(w.food.size).toBe(5);
+    });
+
     it('creatures lose energy from metabolism each tick', () => {
       const rng = new PRNG(1);
       const dna = createDefaultDNA(0, rng);
@@ -266,6 +277,116 @@ describe('World', () => {
       w.step();
       expect(w.creatures.size).toBeLessThanOrEqual(3);
     });
+
+    it('in actuator mode only creatures whose reproduce output is on split', () => {
+      const w = new World(testConfig({ reproduction: { ...testConfig().reproduction, trigger: 'actuator' } }));
+      (w as any).brainTickAccumulator = -100;
+      const idle = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 50, y: 50 }, 0, 200);
+      const eager = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 150, y: 150 }, 0, 200);
+      w.creatures.get(eager)!.state.isReproducing = true;
+      w.step();
+      const parents = w.events.filter(e => e.type === 'creature_born').map(e => e.type === 'creature_born' && e.parentId);
+      expect(parents).toEqual([eager]);
+      expect(w.creatures.get(idle)!.state.reproductionCooldown).toBe(0);
+    });
+
+    it('in actuator mode the initial population gets a reproduce actuator', () => {
+      const config = (trigger?: 'actuator'): WorldConfig => {
+        const cfg = testConfig({ reproduction: { ...testConfig().reproduction, trigger } });
+        cfg.simulation.initialCreatures = 8;
+        return cfg;
+      };
+      for (const seeds of [undefined, [createDefaultDNA(2, new PRNG(3))]]) {
+        const w = new World(config('actuator'));
+        w.initialize(seeds);
+        expect(w.creatures.size).toBe(8);
+        for (const c of w.getCreatureStates()) {
+          expect(c.dna.actuators.filter(a => a.type === 'reproduce')).toHaveLength(1);
+          expect(c.dna.brain.nodeGenes.filter(n => n.type === 'output')).toHaveLength(countActuatorOutputs(c.dna.actuators));
+        }
+      }
+
+      const plain = new World(config());
+      plain.initialize();
+      for (const c of plain.getCreatureStates()) {
+        expect(c.dna.actuators.some(a => a.type === 'reproduce')).toBe(false);
+      }
+    });
+
+    it('the reproduce output chooses the offspring energy share', () => {
+      const childShare = (share: number): number => {
+        const w = new World(testConfig({
+          reproduction: { ...testConfig().reproduction, trigger: 'actuator', minOffspringShare: 0.2, maxOffspringShare: 0.6 },
+        }));
+        (w as any).brainTickAccumulator = -100;
+        const dna = createDefaultDNA(0, new PRNG(1));
+        dna.actuators = [...dna.actuators, { type: 'reproduce' }];
+        const parent = w.creatures.get(w.spawnCreature(dna, { x: 100, y: 100 }, 0, 200))!;
+        const outputs = new Float32Array(countActuatorOutputs(dna.actuators));
+        outputs.set([1, share], outputs.length - 2);
+        (w as any).applyBrainOutputs(parent, outputs);
+        w.step();
+        const born = w.events.find(e => e.type === 'creature_born' && e.parentId === parent.state.id);
+        const child = born?.type === 'creature_born' ? w.creatures.get(born.creatureId)!.state : null;
+        return child ? child.energy / (child.energy + parent.state.energy) : 0;
+      };
+      expect(childShare(0)).toBeCloseTo(0.2, 5);
+      expect(childShare(0.5)).toBeCloseTo(0.4, 5);
+      expect(childShare(1)).toBeCloseTo(0.6, 5);
+    });
+
+    it('self-adaptive mutation gives every creature its own mutation parameters', () => {
+      const reproduction = { ...testConfig().reproduction, selfAdaptive: { learningRate: 0.5 } };
+      const w = new World(testConfig({ reproduction }));
+      (w as any).brainTickAccumulator = -100;
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 100, y: 100 }, 0, 200);
+      const parent = w.creatures.get(id)!.state;
+      expect(parent.dna.mutation).toEqual({
+        weightRate: reproduction.mutationRate, structuralRate: reproduction.mutationRate,
+        strength: reproduction.mutationStrength,
+      });
+      w.step();
+      const born = w.events.find(e => e.type === 'creature_born' && e.parentId === id);
+      const child = born?.type === 'creature_born' ? w.creatures.get(born.creatureId)!.state : null;
+      expect(child?.dna.mutation).toBeDefined();
+      expect(child!.dna.mutation).not.toEqual(parent.dna.mutation);
+
+      expect(world.creatures.get(world.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 0, y: 0 }, 0, 50))!
+        .state.dna.mutation).toBeUndefined();
+    });
+
+    it('lamarckian inheritance writes the parent\'s learned weights into the child genome', () => {
+      const child = (inheritance: 'darwinian' | 'lamarckian'): { learned: number[]; genomic: number[]; inherited: number[] } => {
+        const reproduction = { ...testConfig().reproduction, mutationRate: 0, inheritance };
+        const w = new World(testConfig({ reproduction }));
+        (w as any).brainTickAccumulator = -100;
+        const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 100, y: 100 }, 0, 200);
+        const runtime = w.creatures.get(id)!.brainRuntime;
+        runtime.connWeight.forEach((weight, i) => { runtime.connWeight[i] = weight + 0.5; });
+        w.step();
+        const born = w.events.find(e => e.type === 'creature_born' && e.parentId === id);
+        const dna = born?.type === 'creature_born' ? w.creatures.get(born.creatureId)!.state.dna : null;
+        return {
+          learned: w.getRuntimeWeights(id)!,
+          genomic: w.getCreatureById(id)!.dna.brain.connectionGenes.map(c => c.weight),
+          inherited: dna!.brain.connectionGenes.map(c => c.weight),
+        };
+      };
+      const lamarck = child('lamarckian');
+      expect(lamarck.inherited).toEqual(lamarck.learned);
+      expect(lamarck.inherited).not.toEqual(lamarck.genomic);
+      const darwin = child('darwinian');
+      expect(darwin.inherited).toEqual(darwin.genomic);
+    });
+
+    it('the reproduce output is ignored in auto mode', () => {
+      const rng = new PRNG(1);
+      const id = world.spawnCreature(createDefaultDNA(0, rng), { x: 100, y: 100 }, 0, 200);
+      (world as any).brainTickAccumulator = -100;
+      world.creatures.get(id)!.state.isReproducing = false;
+      world.step();
+      expect(world.creatures.get(id)!.state.reproductionCooldown).toBeGreaterThan(0);
+    });
   });
 
   describe('combat', () => {
@@ -418,6 +539,33 @@ describe('World', () => {
       expect(w2.food.size).toBe(snap.food.length);
     });
 
+    it('loading keeps entity ids and state without emitting events', () => {
+      const cfg = testConfig();
+      cfg.simulation.initialCreatures = 5;
+      const w = new World(cfg);
+      w.initialize();
+      for (let i = 0; i < 10; i++) w.step();
+      const [first] = w.getCreatureStates();
+      first.isAttacking = true;
+      first.velocity = 1.5;
+
+      const snap = JSON.parse(JSON.stringify(w.getSnapshot()));
+      const w2 = new World(testConfig());
+      w2.loadSnapshot(snap);
+
+      expect(w2.events).toEqual([]);
+      expect(w2.getCreatureStates().map(c => c.id)).toEqual(snap.creatures.map((c: CreatureState) => c.id));
+      expect(w2.getFoodStates().map(f => f.id)).toEqual(snap.food.map((f: { id: number }) => f.id));
+      const restored = w2.creatures.get(first.id)!.state;
+      expect(restored.age).toBe(first.age);
+      expect(restored.isAttacking).toBe(true);
+      expect(restored.velocity).toBe(1.5);
+
+      // New entities continue after the saved ids
+      const id = w2.spawnFood({ x: 10, y: 10 });
+      expect(id).toBe(snap.nextEntityId);
+    });
+
     it('snapshot is JSON-serializable', () => {
       const cfg = testConfig();
       cfg.simulation.initialCreatures = 3;
@@ -591,6 +739,242 @@ describe('World', () => {
     it('getObstacleStates returns empty array when no obstacles', () => {
       expect(world.getObstacleStates()).toEqual([]);
     });
+
+    describe('walls and polygons', () => {
+      function shapeWorld(shapes: unknown[]): World {
+        const cfg = testConfig();
+        cfg.obstacles = { count: 0, minRadius: 10, maxRadius: 20, shapes } as WorldConfig['obstacles'];
+        cfg.food.spawnRate = 0;
+        cfg.food.maxCount = 0;
+        resetInnovationCounter();
+        const w = new World(cfg);
+        w.initialize();
+        (w as any).brainTickAccumulator = -100;
+        return w;
+      }
+
+      const wall = { type: 'segment', from: { x: 100, y: 50 }, to: { x: 100, y: 150 }, thickness: 4 };
+      // Square straddling the x seam: x ∈ [-10, 10] → [190, 200) ∪ [0, 10]
+      const seamSquare = {
+        type: 'polygon',
+        vertices: [{ x: -10, y: 90 }, { x: 10, y: 90 }, { x: 10, y: 110 }, { x: -10, y: 110 }],
+      };
+
+      it('places configured shapes around their center with a bounding radius', () => {
+        const w = shapeWorld([wall, seamSquare]);
+        const [seg, poly] = w.getObstacleStates();
+        expect(seg.position).toEqual({ x: 100, y: 100 });
+        expect(seg.radius).toBeCloseTo(52, 5);
+        expect(seg.shape).toEqual({ type: 'segment', a: { x: 0, y: -50 }, b: { x: 0, y: 50 }, halfWidth: 2 });
+        expect(poly.position).toEqual({ x: 0, y: 100 });
+        expect(poly.radius).toBeCloseTo(Math.SQRT2 * 10, 5);
+      });
+
+      it('a wall stops a creature walking into it', () => {
+        const w = shapeWorld([wall]);
+        const dna = createDefaultDNA(0, new PRNG(1));
+        const id = w.spawnCreature(dna, { x: 80, y: 100 }, 0, 200);
+        const s = w.creatures.get(id)!.state;
+        for (let i = 0; i < 30; i++) {
+          s.velocity = 2;
+          s.angularVelocity = 0;
+          w.step();
+        }
+        expect(s.position.x).toBeLessThanOrEqual(100 - 2 - dna.body.radius + 1e-6);
+        expect(s.position.x).toBeGreaterThan(90);
+      });
+
+      it('pushes a creature out of a polygon across the world edge', () => {
+        const w = shapeWorld([seamSquare]);
+        const dna = createDefaultDNA(0, new PRNG(1));
+        const id = w.spawnCreature(dna, { x: 194, y: 100 }, 0, 200);
+        w.step();
+        const s = w.getCreatureById(id)!;
+        expect(s.position.x).toBeCloseTo(190 - dna.body.radius, 5);
+        expect(s.position.y).toBeCloseTo(100, 5);
+      });
+
+      it('rayVision sees a wall as a solid object', () => {
+        const w = shapeWorld([wall]);
+        const dna = createDefaultDNA(0, new PRNG(1));
+        dna.sensors = [{ type: 'rayVision', rayCount: 1, fov: 0, maxDistance: 100, offsetAngle: 0 }];
+        const id = w.spawnCreature(dna, { x: 48, y: 100 }, 0, 200);
+        const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+        // Near face at x = 98 → 50 / 100
+        expect(inputs[2]).toBeCloseTo(0.5, 5);
+        expect(Array.from(inputs.slice(3, 6))).toEqual([0, 0, 0]);
+      });
+
+      it('touch feels a wall', () => {
+        const w = shapeWorld([wall]);
+        const dna = createDefaultDNA(0, new PRNG(1));
+        dna.sensors = [{ type: 'touch' }];
+        const id = w.spawnCreature(dna, { x: 100 - dna.body.radius, y: 60 }, 0, 200);
+        const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+        expect(inputs[3]).toBe(1);
+      });
+
+      it('food spawning avoids polygons', () => {
+        const cfg = testConfig();
+        cfg.world = { width: 100, height: 100, boundary: 'torus' };
+        cfg.obstacles = {
+          count: 0, minRadius: 10, maxRadius: 20,
+          shapes: [{ type: 'polygon', vertices: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }] }],
+        };
+        cfg.food.maxCount = 30;
+        resetInnovationCounter();
+        const w = new World(cfg);
+        w.initialize();
+        const inside = w.getFoodStates().filter(f => f.position.y > 5 && f.position.y < 45);
+        expect(inside.length).toBe(0);
+      });
+
+      it('shapes survive a snapshot round trip', () => {
+        const w = shapeWorld([wall, seamSquare]);
+        const snap = JSON.parse(JSON.stringify(w.getSnapshot()));
+        const w2 = new World(testConfig());
+        w2.loadSnapshot(snap);
+        expect(w2.getObstacleStates()).toEqual(w.getObstacleStates());
+
+        const dna = createDefaultDNA(0, new PRNG(1));
+        const id = w2.spawnCreature(dna, { x: 101, y: 100 }, 0, 200);
+        (w2 as any).brainTickAccumulator = -100;
+        w2.step();
+        expect(w2.getCreatureById(id)!.position.x).toBeGreaterThanOrEqual(102 + dna.body.radius - 1e-6);
+      });
+    });
+
+    describe('moving and destructible obstacles', () => {
+      function dynamicWorld(obstacles: Partial<WorldConfig['obstacles']>, boundary = 'torus'): World {
+        const cfg = testConfig();
+        cfg.world = { width: 200, height: 200, boundary } as WorldConfig['world'];
+        cfg.obstacles = { count: 0, minRadius: 10, maxRadius: 20, ...obstacles };
+        cfg.food.spawnRate = 0;
+        cfg.food.maxCount = 0;
+        resetInnovationCounter();
+        const w = new World(cfg);
+        w.initialize();
+        (w as any).brainTickAccumulator = -100;
+        return w;
+      }
+
+      it('random obstacles drift at a speed within the configured range', () => {
+        const w = dynamicWorld({ count: 4, motion: { fraction: 1, minSpeed: 0.5, maxSpeed: 1.5 } });
+        const before = w.getObstacleStates().map(o => ({ ...o.position }));
+        w.step();
+        const after = w.getObstacleStates();
+        for (let i = 0; i < after.length; i++) {
+          const v = after[i].velocity!;
+          const speed = Math.hypot(v.x, v.y);
+          expect(speed).toBeGreaterThanOrEqual(0.5);
+          expect(speed).toBeLessThanOrEqual(1.5);
+          expect(torusDistance(before[i], after[i].position, 200, 200)).toBeCloseTo(speed, 5);
+        }
+      });
+
+      it('a drifting obstacle wraps on a torus and bounces off a wall', () => {
+        const shapes = [{ type: 'circle' as const, x: 185, y: 100, radius: 10, velocity: { x: 3, y: 0 } }];
+        const torus = dynamicWorld({ shapes });
+        for (let i = 0; i < 10; i++) torus.step();
+        expect(torus.getObstacleStates()[0].position.x).toBeCloseTo(15, 5);
+
+        const walled = dynamicWorld({ shapes }, 'walled');
+        for (let i = 0; i < 10; i++) walled.step();
+        const obs = walled.getObstacleStates()[0];
+        expect(obs.velocity).toEqual({ x: -3, y: 0 });
+        expect(obs.position.x).toBeLessThanOrEqual(190);
+      });
+
+      it('creatures are pushed out of an obstacle that moved into them', () => {
+        const w = dynamicWorld({
+          shapes: [{ type: 'circle', x: 70, y: 100, radius: 10, velocity: { x: 2, y: 0 } }],
+        });
+        const dna = createDefaultDNA(0, new PRNG(1));
+        const id = w.spawnCreature(dna, { x: 90, y: 100 }, 0, 200);
+        for (let i = 0; i < 10; i++) w.step();
+        const s = w.getCreatureById(id)!;
+        const obs = w.getObstacleStates()[0];
+        expect(s.position.x - obs.position.x).toBeGreaterThanOrEqual(10 + dna.body.radius - 1e-6);
+      });
+
+      it('attacks erode a destructible obstacle until it is destroyed', () => {
+        const w = dynamicWorld({ shapes: [{ type: 'circle', x: 60, y: 100, radius: 5, durability: 20 }] });
+        const dna = createDefaultDNA(0, new PRNG(1));
+        dna.actuators.push({ type: 'attack' });
+        const id = w.spawnCreature(dna, { x: 50, y: 100 }, 0, 200);
+        const s = w.creatures.get(id)!.state;
+        s.isAttacking = true;
+        s.attackCooldown = 0;
+
+        w.step();
+        const obsId = w.getObstacleStates()[0].id;
+        expect(w.getObstacleStates()[0].durability).toBe(5);
+        expect(w.events).toContainEqual(expect.objectContaining({ type: 'obstacle_damaged', obstacleId: obsId, attackerId: id, damage: 15 }));
+
+        for (let i = 0; i < 10 && w.getObstacleStates().length > 0; i++) w.step();
+        expect(w.getObstacleStates()).toEqual([]);
+        expect(w.events).toContainEqual(expect.objectContaining({ type: 'obstacle_destroyed', obstacleId: obsId, attackerId: id }));
+      });
+
+      it('obstacles without durability cannot be damaged', () => {
+        const w = dynamicWorld({ shapes: [{ type: 'circle', x: 60, y: 100, radius: 5 }] });
+        const dna = createDefaultDNA(0, new PRNG(1));
+        const id = w.spawnCreature(dna, { x: 50, y: 100 }, 0, 200);
+        const s = w.creatures.get(id)!.state;
+        s.isAttacking = true;
+        s.attackCooldown = 0;
+        w.step();
+        expect(w.getObstacleStates()).toHaveLength(1);
+        expect(w.events.some(e => e.type === 'obstacle_damaged')).toBe(false);
+      });
+
+      it('random obstacles get the configured durability', () => {
+        const w = dynamicWorld({ count: 3, durability: 40 });
+        for (const o of w.getObstacleStates()) {
+          expect(o.durability).toBe(40);
+          expect(o.maxDurability).toBe(40);
+        }
+      });
+
+      it('re-rolls the layout every regenerateInterval ticks, reproducibly', () => {
+        const run = () => {
+          const w = dynamicWorld({ count: 3, regenerateInterval: 5 });
+          const initial = w.getObstacleStates().map(o => ({ ...o.position }));
+          for (let i = 0; i < 5; i++) w.step();
+          expect(w.getObstacleStates().map(o => o.position)).toEqual(initial);
+          w.step();
+          expect(w.events).toContainEqual(expect.objectContaining({ type: 'obstacles_regenerated', count: 3 }));
+          const regenerated = w.getObstacleStates();
+          expect(regenerated.map(o => o.position)).not.toEqual(initial);
+          return regenerated;
+        };
+        expect(run()).toEqual(run());
+      });
+
+      it('static obstacles stay put when motion is not configured', () => {
+        const w = dynamicWorld({ count: 3 });
+        const before = w.getObstacleStates().map(o => ({ ...o.position }));
+        for (let i = 0; i < 5; i++) w.step();
+        expect(w.getObstacleStates().map(o => o.position)).toEqual(before);
+        expect(w.getObstacleStates().every(o => o.velocity === undefined && o.durability === undefined)).toBe(true);
+      });
+
+      it('snapshots keep velocity and durability without sharing state', () => {
+        const w = dynamicWorld({
+          shapes: [{ type: 'circle', x: 60, y: 100, radius: 5, velocity: { x: 1, y: 0 }, durability: 30 }],
+        });
+        const snap = w.getSnapshot();
+        w.step();
+        expect(snap.obstacles[0].position).toEqual({ x: 60, y: 100 });
+
+        const w2 = new World(testConfig());
+        w2.loadSnapshot(snap);
+        expect(w2.getObstacleStates()[0]).toMatchObject({ velocity: { x: 1, y: 0 }, durability: 30, maxDurability: 30 });
+        (w2 as any).brainTickAccumulator = -100;
+        w2.step();
+        expect(snap.obstacles[0].position).toEqual({ x: 60, y: 100 });
+      });
+    });
   });
 
   describe('density-dependent metabolism', () => {
@@ -680,4 +1064,2258 @@ describe('World', () => {
       expect(cost).toBeCloseTo(1.0 * radiusScale, 1);
     });
   });
+
+  describe('creature collisions', () => {
+    function spawnPair(w: World, posB: Vec2, radiusA = 5, radiusB = 5): [number, number] {
+      const rng = new PRNG(7);
+      const dnaA = createDefaultDNA(2, rng);
+      dnaA.body.radius = radiusA;
+      const dnaB = createDefaultDNA(2, rng);
+      dnaB.body.radius = radiusB;
+      const a = w.spawnCreature(dnaA, { x: 100, y: 100 }, 0, 50);
+      const b = w.spawnCreature(dnaB, posB, 0, 50);
+      (w as any).brainTickAccumulator = -100;
+      return [a, b];
+    }
+
+    it('creatures overlap freely when physics is not configured', () => {
+      const [a, b] = spawnPair(world, { x: 104, y: 100 });
+      world.step();
+      const dist = Math.abs(world.getCreatureById(b)!.position.x - world.getCreatureById(a)!.position.x);
+      expect(dist).toBeCloseTo(4, 5);
+    });
+
+    it('hard mode separates overlapping creatures completely', () => {
+      const cfg = testConfig({ physics: { collisionMode: 'hard', stiffness: 0.5, massExponent: 2 } });
+      const w = new World(cfg);
+      const [a, b] = spawnPair(w, { x: 104, y: 100 });
+      w.step();
+      const dist = Math.abs(w.getCreatureById(b)!.position.x - w.getCreatureById(a)!.position.x);
+      expect(dist).toBeCloseTo(10, 3);
+    });
+
+    it('soft mode resolves only a fraction of the overlap per tick', () => {
+      const cfg = testConfig({ physics: { collisionMode: 'soft', stiffness: 0.5, massExponent: 2 } });
+      const w = new World(cfg);
+      const [a, b] = spawnPair(w, { x: 104, y: 100 });
+      w.step();
+      const dist = Math.abs(w.getCreatureById(b)!.position.x - w.getCreatureById(a)!.position.x);
+      // Overlap 6 → half resolved → distance 4 + 3 = 7
+      expect(dist).toBeCloseTo(7, 3);
+    });
+
+    it('heavier creatures are displaced less', () => {
+      const cfg = testConfig({ physics: { collisionMode: 'hard', stiffness: 1, massExponent: 2 } });
+      const w = new World(cfg);
+      const [a, b] = spawnPair(w, { x: 105, y: 100 }, 10, 5);
+      w.step();
+      const movedA = Math.abs(w.getCreatureById(a)!.position.x - 100);
+      const movedB = Math.abs(w.getCreatureById(b)!.position.x - 105);
+      // Overlap 10, masses 100:25 → big one moves 2, small one moves 8
+      expect(movedA).toBeCloseTo(2, 3);
+      expect(movedB).toBeCloseTo(8, 3);
+    });
+
+    it('pushes apart across the torus seam', () => {
+      const cfg = testConfig({ physics: { collisionMode: 'hard', stiffness: 1, massExponent: 0 } });
+      const w = new World(cfg);
+      const rng = new PRNG(7);
+      const a = w.spawnCreature(createDefaultDNA(2, rng), { x: 1, y: 50 }, 0, 50);
+      const b = w.spawnCreature(createDefaultDNA(2, rng), { x: 199, y: 50 }, 0, 50);
+      (w as any).brainTickAccumulator = -100;
+      w.step();
+      const sa = w.getCreatureById(a)!;
+      const sb = w.getCreatureById(b)!;
+      const radii = sa.dna.body.radius + sb.dna.body.radius;
+      expect(torusDistance(sa.position, sb.position, 200, 200)).toBeCloseTo(radii, 3);
+      // A moved right, B moved left — neither jumped across the world
+      expect(sa.position.x).toBeGreaterThan(1);
+      expect(sb.position.x).toBeLessThan(199);
+    });
+
+    it('mode none leaves overlaps untouched', () => {
+      const cfg = testConfig({ physics: { collisionMode: 'none', stiffness: 1, massExponent: 2 } });
+      const w = new World(cfg);
+      const [a, b] = spawnPair(w, { x: 104, y: 100 });
+      w.step();
+      const dist = Math.abs(w.getCreatureById(b)!.position.x - w.getCreatureById(a)!.position.x);
+      expect(dist).toBeCloseTo(4, 5);
+    });
+  });
+
+  describe('environment cycles', () => {
+    it('world variables are available to config formulas', () => {
+      const cfg = testConfig({ environment: { dayLength: 10, seasonLength: 100 } });
+      cfg.energy.moveCost = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      // Metabolism = dayPhase + season + populationDensity (radius 5 → no scaling)
+      cfg.energy.baseMetabolism = {
+        op: 'add',
+        args: [
+          { op: 'var', name: 'world.dayPhase' },
+          { op: 'var', name: 'world.season' },
+          { op: 'var', name: 'world.populationDensity' },
+        ],
+      };
+      const w = new World(cfg);
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.body.radius = 5;
+      const id = w.spawnCreature(dna, { x: 100, y: 100 }, 0, 50);
+      (w as any).brainTickAccumulator = -100;
+      w.tick = 15;
+      w.step();
+      // dayPhase = 5/10, season = 15/100, density = 1/100
+      expect(w.getCreatureById(id)!.energy).toBeCloseTo(50 - (0.5 + 0.15 + 0.01), 5);
+    });
+
+    it('phases stay at 0 without an environment section', () => {
+      const cfg = testConfig();
+      cfg.energy.moveCost = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      cfg.energy.baseMetabolism = {
+        op: 'add',
+        args: [{ op: 'var', name: 'world.dayPhase' }, { op: 'var', name: 'world.season' }],
+      };
+      const w = new World(cfg);
+      const dna = createDefaultDNA(2, new PRNG(1));
+      const id = w.spawnCreature(dna, { x: 100, y: 100 }, 0, 50);
+      (w as any).brainTickAccumulator = -100;
+      w.tick = 37;
+      w.step();
+      expect(w.getCreatureById(id)!.energy).toBe(50);
+    });
+
+    it('food spawn rate can follow the day/night cycle', () => {
+      const cfg = testConfig({ environment: { dayLength: 10, seasonLength: 0 } });
+      cfg.food.maxCount = 1000;
+      cfg.food.spawnRate = {
+        op: 'if',
+        cond: { op: 'lt', args: [{ op: 'var', name: 'world.dayPhase' }, { op: 'lit', value: 0.5 }] },
+        then: { op: 'lit', value: 3 },
+        else: { op: 'lit', value: 0 },
+      };
+      const w = new World(cfg);
+      for (let i = 0; i < 5; i++) w.step();
+      expect(w.food.size).toBe(15); // day: 5 ticks × 3
+      for (let i = 0; i < 5; i++) w.step();
+      expect(w.food.size).toBe(15); // night: nothing spawns
+    });
+
+    it('fractional expression spawn rate spawns on average the right amount', () => {
+      const cfg = testConfig();
+      cfg.food.maxCount = 10000;
+      cfg.food.spawnRate = { op: 'lit', value: 0.25 };
+      const w = new World(cfg);
+      for (let i = 0; i < 400; i++) w.step();
+      expect(w.food.size).toBeGreaterThan(60);
+      expect(w.food.size).toBeLessThan(140);
+    });
+
+    it('rayMaxDistance formula limits effective vision range', () => {
+      const sensorCfg = (rayMaxDistance?: ConfigValue) => {
+        const cfg = testConfig({ environment: { dayLength: 0, seasonLength: 0, rayMaxDistance } });
+        cfg.food.spawnRate = 0;
+        const w = new World(cfg);
+        const dna = createDefaultDNA(2, new PRNG(1));
+        dna.sensors = [{ type: 'rayVision', rayCount: 1, fov: 0.1, maxDistance: 60, offsetAngle: 0 }];
+        const id = w.spawnCreature(dna, { x: 50, y: 50 }, 0, 100);
+        w.spawnFood({ x: 90, y: 50 });
+        (w as any).updateSpatialHashes();
+        const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+        return { distance: inputs[2], hitFood: inputs[3] };
+      };
+
+      expect(sensorCfg(undefined).hitFood).toBe(1);
+      // Halve the gene's range: 30 < 36 (food edge) → no hit
+      const halved = sensorCfg({ op: 'mul', args: [{ op: 'var', name: 'sensor.maxDistance' }, { op: 'lit', value: 0.5 }] });
+      expect(halved.hitFood).toBe(0);
+      expect(halved.distance).toBe(1);
+    });
+  });
+
+  describe('food distribution', () => {
+    it('hotspots concentrate spawned food', () => {
+      const cfg = testConfig({
+        foodDistribution: {
+          backgroundWeight: 0,
+          hotspots: [{ x: 50, y: 150, sigma: 8, weight: 1 }],
+          biomes: [],
+        },
+      });
+      cfg.food.maxCount = 1000;
+      cfg.food.spawnRate = 5;
+      const w = new World(cfg);
+      for (let i = 0; i < 20; i++) w.step();
+
+      const food = w.getFoodStates();
+      expect(food.length).toBeGreaterThan(50);
+      const near = food.filter(f => torusDistance(f.position, { x: 50, y: 150 }, 200, 200) < 30);
+      expect(near.length / food.length).toBeGreaterThan(0.95);
+    });
+
+    it('biomes spawn extra food with their own nutrition', () => {
+      const cfg = testConfig({
+        foodDistribution: {
+          backgroundWeight: 1,
+          hotspots: [],
+          biomes: [{ name: 'rich', x: 0, y: 0, width: 40, height: 40, spawnRate: 3, nutrition: 80 }],
+        },
+      });
+      cfg.food.maxCount = 1000;
+      cfg.food.spawnRate = 0;
+      const w = new World(cfg);
+      for (let i = 0; i < 10; i++) w.step();
+
+      const food = w.getFoodStates();
+      expect(food.length).toBe(30);
+      for (const f of food) {
+        expect(f.position.x).toBeLessThan(40);
+        expect(f.position.y).toBeLessThan(40);
+        expect(f.nutrition).toBe(80);
+      }
+    });
+
+    it('eating biome food yields the biome nutrition', () => {
+      const cfg = testConfig({
+        foodDistribution: {
+          backgroundWeight: 1,
+          hotspots: [],
+          biomes: [{ name: 'rich', x: 0, y: 0, width: 100, height: 100, spawnRate: 0, nutrition: 80 }],
+        },
+      });
+      cfg.food.spawnRate = 0;
+      cfg.energy.baseMetabolism = 0;
+      cfg.energy.moveCost = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      cfg.reproduction.energyThreshold = 1000;
+      const w = new World(cfg);
+      (w as any).spawnFieldFood(() => ({ x: 50, y: 50 }));
+      expect(w.getFoodStates()[0].nutrition).toBe(80);
+
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 50, y: 50 }, 0, 100);
+      (w as any).brainTickAccumulator = -100;
+      w.creatures.get(id)!.state.isEating = true;
+      w.step();
+      expect(w.food.size).toBe(0);
+      expect(w.creatures.get(id)!.state.energy).toBeCloseTo(180, 5);
+    });
+
+    it('plain food follows live edits of food.nutritionValue', () => {
+      const cfg = testConfig();
+      cfg.food.spawnRate = 0;
+      cfg.energy.baseMetabolism = 0;
+      cfg.energy.moveCost = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      cfg.reproduction.energyThreshold = 1000;
+      const w = new World(cfg);
+      w.spawnFood({ x: 50, y: 50 });
+      cfg.food.nutritionValue = 45;
+
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 50, y: 50 }, 0, 100);
+      (w as any).brainTickAccumulator = -100;
+      w.creatures.get(id)!.state.isEating = true;
+      w.step();
+      expect(w.food.size).toBe(0);
+      expect(w.creatures.get(id)!.state.energy).toBeCloseTo(145, 5);
+    });
+
+    it('eating depletes fertility of the cell', () => {
+      const cfg = testConfig({
+        foodDistribution: {
+          backgroundWeight: 1,
+          hotspots: [],
+          biomes: [],
+          fertility: { cellSize: 50, depletionPerFood: 0.3, regenRate: 0 },
+        },
+      });
+      cfg.food.spawnRate = 0;
+      const w = new World(cfg);
+      w.spawnFood({ x: 60, y: 60 });
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 60, y: 60 }, 0, 100);
+      (w as any).brainTickAccumulator = -100;
+      w.creatures.get(id)!.state.isEating = true;
+      w.step();
+
+      const fertility = w.getFoodFieldState()!.fertility;
+      // 4x4 grid → cell (1, 1)
+      expect(fertility[5]).toBeCloseTo(0.7, 5);
+      expect(fertility[0]).toBe(1);
+    });
+
+    it('depleted cells spawn less food', () => {
+      const cfg = testConfig({
+        foodDistribution: {
+          backgroundWeight: 1,
+          hotspots: [],
+          biomes: [],
+          fertility: { cellSize: 100, depletionPerFood: 1, regenRate: 0 },
+        },
+      });
+      cfg.food.maxCount = 10000;
+      cfg.food.spawnRate = 10;
+      const w = new World(cfg);
+      // Exhaust the top-left quadrant
+      (w as any).foodField.deplete({ x: 10, y: 10 });
+      for (let i = 0; i < 20; i++) w.step();
+
+      const inDepleted = w.getFoodStates().filter(f => f.position.x < 100 && f.position.y < 100);
+      expect(w.food.size).toBeGreaterThan(100);
+      expect(inDepleted.length).toBe(0);
+    });
+
+    it('snapshot preserves hotspot drift and fertility', () => {
+      const cfg = testConfig({
+        foodDistribution: {
+          backgroundWeight: 0,
+          hotspots: [{ x: 10, y: 10, sigma: 5, weight: 1, driftX: 1 }],
+          biomes: [],
+          fertility: { cellSize: 50, depletionPerFood: 0.5, regenRate: 0 },
+        },
+      });
+      const w = new World(cfg);
+      for (let i = 0; i < 5; i++) w.step();
+      (w as any).foodField.deplete({ x: 120, y: 120 });
+
+      const snap = JSON.parse(JSON.stringify(w.getSnapshot()));
+      const w2 = new World(testConfig());
+      w2.loadSnapshot(snap);
+      expect(w2.getFoodFieldState()).toEqual(w.getFoodFieldState());
+      expect(w2.getFoodFieldState()!.hotspots[0].x).toBeCloseTo(15, 5);
+    });
+
+    it('no foodDistribution keeps the field disabled', () => {
+      expect(world.getFoodFieldState()).toBeNull();
+      expect(world.getSnapshot().foodField).toBeUndefined();
+    });
+  });
+
+  describe('predation', () => {
+    /** World with bites enabled and all passive energy costs zeroed. */
+    function predationWorld(): World {
+      const cfg = testConfig({
+        predation: { biteRadius: 12, biteDamage: 40, transferRatio: 0.5, biteCost: 1 },
+      });
+      cfg.food.spawnRate = 0;
+      cfg.energy.baseMetabolism = 0;
+      cfg.energy.moveCost = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      cfg.reproduction.energyThreshold = 1000;
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    function spawnBiter(w: World, pos: Vec2, energy: number, diet?: number): number {
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.actuators.push({ type: 'bite' });
+      dna.diet = diet;
+      const id = w.spawnCreature(dna, pos, 0, energy);
+      w.creatures.get(id)!.state.isBiting = true;
+      return id;
+    }
+
+    it('bite transfers victim energy scaled by transferRatio and diet', () => {
+      const w = predationWorld();
+      const pId = spawnBiter(w, { x: 50, y: 50 }, 100, 1);
+      const vId = w.spawnCreature(createDefaultDNA(1, new PRNG(2)), { x: 58, y: 50 }, 0, 100);
+      w.step();
+
+      expect(w.creatures.get(vId)!.state.energy).toBeCloseTo(60, 5);
+      // 100 - biteCost 1 + 40 * 0.5 * 1
+      expect(w.creatures.get(pId)!.state.energy).toBeCloseTo(119, 5);
+      const bit = w.events.find(e => e.type === 'creature_bit');
+      expect(bit).toMatchObject({ attackerId: pId, targetId: vId, energyTaken: 40, energyGained: 20 });
+    });
+
+    it('herbivores gain nothing from meat', () => {
+      const w = predationWorld();
+      const pId = spawnBiter(w, { x: 50, y: 50 }, 100);
+      const vId = w.spawnCreature(createDefaultDNA(1, new PRNG(2)), { x: 58, y: 50 }, 0, 100);
+      w.step();
+
+      expect(w.creatures.get(vId)!.state.energy).toBeCloseTo(60, 5);
+      expect(w.creatures.get(pId)!.state.energy).toBeCloseTo(99, 5);
+    });
+
+    it('bites only the nearest creature and respects cooldown', () => {
+      const w = predationWorld();
+      const pId = spawnBiter(w, { x: 50, y: 50 }, 100, 1);
+      const nearId = w.spawnCreature(createDefaultDNA(1, new PRNG(2)), { x: 56, y: 50 }, 0, 100);
+      const farId = w.spawnCreature(createDefaultDNA(1, new PRNG(3)), { x: 50, y: 60 }, 0, 100);
+      w.step();
+      w.step(); // still on cooldown
+
+      expect(w.creatures.get(nearId)!.state.energy).toBeCloseTo(60, 5);
+      expect(w.creatures.get(farId)!.state.energy).toBeCloseTo(100, 5);
+      expect(w.creatures.get(pId)!.state.attackCooldown).toBeGreaterThan(0);
+    });
+
+    it('a fully drained victim is eaten and leaves no food', () => {
+      const w = predationWorld();
+      spawnBiter(w, { x: 50, y: 50 }, 100, 1);
+      const vId = w.spawnCreature(createDefaultDNA(1, new PRNG(2)), { x: 58, y: 50 }, 0, 30);
+      w.step();
+
+      expect(w.getCreatureById(vId)).toBeUndefined();
+      expect(w.food.size).toBe(0);
+      const died = w.events.find(e => e.type === 'creature_died');
+      expect(died).toMatchObject({ creatureId: vId, cause: 'eaten' });
+      const bit = w.events.find(e => e.type === 'creature_bit');
+      expect(bit).toMatchObject({ energyTaken: 30, energyGained: 15 });
+    });
+
+    it('IFF prevents biting the same group', () => {
+      const w = predationWorld();
+      const pId = spawnBiter(w, { x: 50, y: 50 }, 100, 1);
+      w.creatures.get(pId)!.state.dna.hasIFF = true;
+      const vId = w.spawnCreature(createDefaultDNA(2, new PRNG(2)), { x: 58, y: 50 }, 0, 100);
+      w.step();
+
+      expect(w.creatures.get(vId)!.state.energy).toBeCloseTo(100, 5);
+    });
+
+    it('bite does nothing without a predation config', () => {
+      const w = new World(testConfig());
+      (w as any).brainTickAccumulator = -100;
+      const pId = spawnBiter(w, { x: 50, y: 50 }, 70, 1);
+      w.spawnCreature(createDefaultDNA(1, new PRNG(2)), { x: 58, y: 50 }, 0, 70);
+      w.step();
+
+      expect(w.events.some(e => e.type === 'creature_bit')).toBe(false);
+      expect(w.creatures.get(pId)!.state.attackCooldown).toBe(0);
+    });
+
+    it('creatures without predation keep full nutrition after many mutations', () => {
+      const cfg = testConfig();
+      cfg.food.spawnRate = 0;
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      let dna = createDefaultDNA(0, new PRNG(1));
+      const rng = new PRNG(9);
+      for (let i = 0; i < 50; i++) dna = mutateDNA(dna, 1.0, 1.0, rng);
+      const c = w.creatures.get(w.spawnCreature(dna, { x: 50, y: 50 }, 0, 40))!;
+      expect(c.state.dna.diet).toBeUndefined();
+      c.state.isEating = true;
+      const bystander = w.creatures.get(w.spawnCreature(dna, { x: 150, y: 150 }, 0, 40))!;
+      w.spawnFood({ x: 50, y: 50 });
+      w.step();
+      expect(c.state.energy - bystander.state.energy).toBeCloseTo(30, 5);
+    });
+
+    it('predation worlds give every creature a diet gene', () => {
+      const w = predationWorld();
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 50, y: 50 }, 0, 100);
+      expect(w.creatures.get(id)!.state.dna.diet).toBe(0);
+    });
+
+    it('diet scales plant nutrition', () => {
+      const w = predationWorld();
+      const id = spawnBiter(w, { x: 50, y: 50 }, 100, 0.75);
+      const c = w.creatures.get(id)!;
+      c.state.isBiting = false;
+      c.state.isEating = true;
+      w.spawnFood({ x: 50, y: 50 });
+      w.step();
+
+      // nutritionValue 30 * (1 - 0.75)
+      expect(c.state.energy).toBeCloseTo(107.5, 5);
+    });
+  });
+
+  describe('pheromones', () => {
+    const pheromoneCfg = {
+      channels: 2, cellSize: 10, diffusionRate: 0, evaporationRate: 0,
+      depositAmount: 0.25, depositCost: 0.5,
+    };
+
+    function pheromoneWorld(overrides: Partial<typeof pheromoneCfg> = {}): World {
+      const cfg = testConfig({ pheromones: { ...pheromoneCfg, ...overrides } });
+      cfg.food.spawnRate = 0;
+      cfg.energy.baseMetabolism = 0;
+      cfg.energy.moveCost = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    it('depositing creature lays pheromone on its channel and pays for it', () => {
+      const w = pheromoneWorld();
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.actuators.push({ type: 'depositPheromone', channel: 1 });
+      const id = w.spawnCreature(dna, { x: 55, y: 55 }, 0, 70);
+      const s = w.creatures.get(id)!.state;
+      s.isDepositing = true;
+      s.depositChannel = 1;
+      w.step();
+      w.step();
+
+      const grid = w.getPheromoneGrid()!;
+      expect(grid.sample(1, { x: 55, y: 55 })).toBeCloseTo(0.5, 5);
+      expect(grid.sample(0, { x: 55, y: 55 })).toBe(0);
+      expect(s.energy).toBeCloseTo(69, 5);
+    });
+
+    it('brain output drives the deposit actuator', () => {
+      const w = pheromoneWorld();
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.actuators = [{ type: 'depositPheromone', channel: 1 }];
+      const id = w.spawnCreature(dna, { x: 55, y: 55 }, 0, 70);
+      const c = w.creatures.get(id)!;
+      (w as any).applyBrainOutputs(c, new Float32Array([0.9]));
+      expect(c.state.isDepositing).toBe(true);
+      expect(c.state.depositChannel).toBe(1);
+      (w as any).applyBrainOutputs(c, new Float32Array([0.1]));
+      expect(c.state.isDepositing).toBe(false);
+    });
+
+    it('pheromoneSense reports concentration and gradient direction', () => {
+      const w = pheromoneWorld();
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [{ type: 'pheromoneSense', channels: [0, 1] }];
+      // Facing +x; trail lies to the creature's right (+y)
+      const id = w.spawnCreature(dna, { x: 55, y: 55 }, 0, 70);
+      const grid = w.getPheromoneGrid()!;
+      grid.deposit(0, { x: 55, y: 55 }, 0.4);
+      grid.deposit(0, { x: 55, y: 65 }, 1);
+
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      expect(inputs.length).toBe(6);
+      expect(inputs[2]).toBeCloseTo(0.4, 5);
+      expect(inputs[3]).toBeCloseTo(0.5, 5);
+      // Empty channel
+      expect(inputs[4]).toBe(0);
+      expect(inputs[5]).toBe(0);
+    });
+
+    it('sensor inputs are zero without a pheromone config', () => {
+      const w = new World(testConfig());
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [{ type: 'pheromoneSense', channels: [0] }];
+      const id = w.spawnCreature(dna, { x: 55, y: 55 }, 0, 70);
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      expect(Array.from(inputs.slice(2))).toEqual([0, 0]);
+      expect(w.getPheromoneGrid()).toBeNull();
+    });
+
+    it('trails evaporate over time', () => {
+      const w = pheromoneWorld({ evaporationRate: 0.5 });
+      w.getPheromoneGrid()!.deposit(0, { x: 55, y: 55 }, 1);
+      w.step();
+      expect(w.getPheromoneGrid()!.sample(0, { x: 55, y: 55 })).toBeCloseTo(0.5, 5);
+    });
+
+    it('snapshot preserves the grid', () => {
+      const w = pheromoneWorld();
+      w.getPheromoneGrid()!.deposit(1, { x: 125, y: 35 }, 0.75);
+
+      const snap = JSON.parse(JSON.stringify(w.getSnapshot()));
+      const w2 = new World(testConfig());
+      w2.loadSnapshot(snap);
+      expect(w2.getPheromoneGrid()!.sample(1, { x: 125, y: 35 })).toBeCloseTo(0.75, 5);
+      expect(w2.getPheromoneState()).toEqual(w.getPheromoneState());
+    });
+  });
+
+  describe('sexual selection', () => {
+    function mateWorld(reproduction: Record<string, unknown> = {}): World {
+      const cfg = testConfig();
+      cfg.food.spawnRate = 0;
+      cfg.reproduction = { ...cfg.reproduction, crossoverRate: 1, ...reproduction };
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    /** Spawn a ready parent and a low-energy (non-reproducing) candidate mate. */
+    function spawnPair(w: World, dx: number, sexes?: ['male' | 'female', 'male' | 'female']) {
+      const rng = new PRNG(1);
+      const a = createDefaultDNA(0, rng);
+      const b = createDefaultDNA(0, rng);
+      if (sexes) {
+        a.sex = sexes[0];
+        b.sex = sexes[1];
+      }
+      const parentId = w.spawnCreature(a, { x: 100, y: 100 }, 0, 200);
+      const mateId = w.spawnCreature(b, { x: 100 + dx, y: 100 }, 0, 50);
+      return { parentId, mateId };
+    }
+
+    function matings(w: World) {
+      return w.events.filter(e => e.type === 'creature_mated');
+    }
+
+    it('records both parents in a creature_mated event', () => {
+      const w = mateWorld();
+      const { parentId, mateId } = spawnPair(w, 20);
+      w.step();
+
+      const [ev] = matings(w);
+      expect(ev).toBeDefined();
+      if (ev.type !== 'creature_mated') return;
+      expect(ev.parentId).toBe(parentId);
+      expect(ev.mateId).toBe(mateId);
+      const birth = w.events.find(e => e.type === 'creature_born' && e.parentId === parentId);
+      expect(birth).toMatchObject({ mateId });
+    });
+
+    it('records a mating in egg and gestation modes even if no child is born', () => {
+      for (const mode of ['egg', 'gestation'] as const) {
+        const w = mateWorld();
+        w.config.development = {
+          mode, incubationTime: 3, eggRadius: 3, gestationTime: 3,
+          maturityAge: 0, juvenileSpeedFactor: 0.5, juvenileAttackFactor: 0.5,
+        };
+        const { parentId, mateId } = spawnPair(w, 20);
+        w.step();
+        expect(matings(w)).toEqual([expect.objectContaining({ parentId, mateId })]);
+
+        // The egg is lost or the carrier dies before birth
+        if (mode === 'egg') w.eggs.clear();
+        else w.creatures.get(parentId)!.state.energy = -1;
+        const later = [];
+        for (let i = 0; i < 5; i++) {
+          w.step();
+          later.push(...w.events);
+        }
+        expect(later.some(e => e.type === 'creature_born' && e.parentId === parentId)).toBe(false);
+        expect(later.some(e => e.type === 'creature_mated')).toBe(false);
+      }
+    });
+
+    it('mateSearchRadius limits how far a mate is searched', () => {
+      const near = mateWorld({ mateSearchRadius: 50 });
+      spawnPair(near, 40);
+      near.step();
+      expect(matings(near)).toHaveLength(1);
+
+      const far = mateWorld({ mateSearchRadius: 30 });
+      spawnPair(far, 40);
+      far.step();
+      expect(matings(far)).toHaveLength(0);
+      // Falls back to asexual reproduction
+      expect(far.creatures.size).toBe(3);
+    });
+
+    it('assigns a sex on spawn only when sexes is on', () => {
+      const off = mateWorld();
+      const id = off.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 10, y: 10 }, 0, 50);
+      expect(off.creatures.get(id)!.state.dna.sex).toBeUndefined();
+
+      const on = mateWorld({ sexes: true });
+      const seen = new Set<string>();
+      for (let i = 0; i < 20; i++) {
+        const cid = on.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 10 + i * 5, y: 10 }, 0, 50);
+        seen.add(on.creatures.get(cid)!.state.dna.sex!);
+      }
+      expect([...seen].sort()).toEqual(['female', 'male']);
+    });
+
+    it('requires mates of the opposite sex', () => {
+      const same = mateWorld({ sexes: true });
+      spawnPair(same, 20, ['female', 'female']);
+      same.step();
+      expect(matings(same)).toHaveLength(0);
+
+      const opposite = mateWorld({ sexes: true });
+      spawnPair(opposite, 20, ['female', 'male']);
+      opposite.step();
+      expect(matings(opposite)).toHaveLength(1);
+    });
+
+    it('both partners must accept', () => {
+      const rejectedByMate = mateWorld({ sexes: true });
+      const a = spawnPair(rejectedByMate, 20, ['female', 'male']);
+      rejectedByMate.creatures.get(a.mateId)!.state.isAcceptingMate = false;
+      rejectedByMate.step();
+      expect(matings(rejectedByMate)).toHaveLength(0);
+
+      const rejectedByParent = mateWorld({ sexes: true });
+      const b = spawnPair(rejectedByParent, 20, ['female', 'male']);
+      rejectedByParent.creatures.get(b.parentId)!.state.isAcceptingMate = false;
+      rejectedByParent.step();
+      expect(matings(rejectedByParent)).toHaveLength(0);
+    });
+
+    it('acceptance is ignored when sexes is off', () => {
+      const w = mateWorld();
+      const { mateId } = spawnPair(w, 20);
+      w.creatures.get(mateId)!.state.isAcceptingMate = false;
+      w.step();
+      expect(matings(w)).toHaveLength(1);
+    });
+
+    it('children get a fresh random sex', () => {
+      const w = mateWorld({ sexes: true, crossoverRate: 0 });
+      const rng = new PRNG(1);
+      const seen = new Set<string>();
+      for (let i = 0; i < 10; i++) {
+        const dna = createDefaultDNA(0, rng);
+        dna.sex = 'female';
+        w.spawnCreature(dna, { x: 15 + (i % 5) * 35, y: 30 + Math.floor(i / 5) * 80 }, 0, 200);
+      }
+      const parents = new Set(w.creatures.keys());
+      w.step();
+      for (const [id, c] of w.creatures) {
+        if (!parents.has(id)) seen.add(c.state.dna.sex!);
+      }
+      expect(seen.has('male')).toBe(true);
+    });
+
+    it('mateChoice output sets isAcceptingMate', () => {
+      const w = mateWorld({ sexes: true });
+      const dna = createDefaultDNA(0, new PRNG(1));
+      dna.actuators = [{ type: 'mateChoice' }];
+      const id = w.spawnCreature(dna, { x: 50, y: 50 }, 0, 50);
+      const c = w.creatures.get(id)!;
+      expect(c.state.isAcceptingMate).toBe(true);
+
+      (w as any).applyBrainOutputs(c, new Float32Array([0.2]));
+      expect(c.state.isAcceptingMate).toBe(false);
+      (w as any).applyBrainOutputs(c, new Float32Array([0.9]));
+      expect(c.state.isAcceptingMate).toBe(true);
+    });
+  });
+
+  describe('development', () => {
+    const devCfg = {
+      mode: 'instant' as 'instant' | 'egg' | 'gestation',
+      incubationTime: 3, eggRadius: 3, gestationTime: 3,
+      maturityAge: 0, juvenileSpeedFactor: 0.5, juvenileAttackFactor: 0.5,
+    };
+
+    function devWorld(overrides: Partial<typeof devCfg> = {}): World {
+      const cfg = testConfig({ development: { ...devCfg, ...overrides } });
+      cfg.food.spawnRate = 0;
+      cfg.energy.baseMetabolism = 0;
+      cfg.energy.moveCost = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      cfg.energy.attackCost = 0;
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    /** A parent that reproduces on the first step; its offspring (60) stays below the threshold. */
+    function spawnParent(w: World): number {
+      return w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 100, y: 100 }, 0, 150);
+    }
+
+    it('egg mode lays an egg instead of spawning a child', () => {
+      const w = devWorld({ mode: 'egg' });
+      const parentId = spawnParent(w);
+      w.step();
+
+      expect(w.creatures.size).toBe(1);
+      const [egg] = w.getEggStates();
+      expect(egg.parentId).toBe(parentId);
+      expect(egg.energy).toBeCloseTo(60, 5);
+      expect(egg.incubation).toBe(3);
+      expect(w.events.some(e => e.type === 'egg_laid' && e.eggId === egg.id)).toBe(true);
+    });
+
+    it('eggs hatch after incubationTime', () => {
+      const w = devWorld({ mode: 'egg' });
+      const parentId = spawnParent(w);
+      w.step();
+      const [egg] = w.getEggStates();
+
+      w.step();
+      w.step();
+      expect(w.eggs.size).toBe(1);
+
+      w.step();
+      expect(w.eggs.size).toBe(0);
+      expect(w.creatures.size).toBe(2);
+      const hatched = w.events.find(e => e.type === 'egg_hatched');
+      expect(hatched).toBeDefined();
+      if (hatched?.type !== 'egg_hatched') return;
+      expect(hatched.eggId).toBe(egg.id);
+      const born = w.events.find(e => e.type === 'creature_born' && e.creatureId === hatched.creatureId);
+      expect(born).toMatchObject({ parentId });
+      const child = w.creatures.get(hatched.creatureId)!.state;
+      expect(child.position).toEqual(egg.position);
+      expect(child.energy).toBeCloseTo(60, 5);
+    });
+
+    it('eggs are eaten by eating creatures (IFF spares its own group)', () => {
+      const w = devWorld({ mode: 'egg', incubationTime: 100 });
+      const dna = createDefaultDNA(0, new PRNG(1));
+      const eggId = w.layEgg({ x: 50, y: 50 }, dna, 40, 999);
+
+      const friendDna = createDefaultDNA(0, new PRNG(2));
+      friendDna.hasIFF = true;
+      const friend = w.spawnCreature(friendDna, { x: 50, y: 50 }, 0, 50);
+      w.creatures.get(friend)!.state.isEating = true;
+      w.step();
+      expect(w.eggs.has(eggId)).toBe(true);
+
+      const foe = w.spawnCreature(createDefaultDNA(1, new PRNG(3)), { x: 52, y: 50 }, 0, 50);
+      w.creatures.get(foe)!.state.isEating = true;
+      w.step();
+      expect(w.eggs.has(eggId)).toBe(false);
+      expect(w.creatures.get(foe)!.state.energy).toBeCloseTo(90, 5);
+      expect(w.events.some(e => e.type === 'egg_eaten' && e.creatureId === foe)).toBe(true);
+    });
+
+    it('touch senses eggs on the food channel', () => {
+      const w = devWorld({ mode: 'egg' });
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [{ type: 'touch' }];
+      const id = w.spawnCreature(dna, { x: 50, y: 50 }, 0, 50);
+      w.layEgg({ x: 55, y: 50 }, createDefaultDNA(0, new PRNG(2)), 40, 999);
+      (w as any).updateSpatialHashes();
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      expect(inputs[2]).toBe(1);
+    });
+
+    it('gestation carries the offspring before birth', () => {
+      const w = devWorld({ mode: 'gestation' });
+      const parentId = spawnParent(w);
+      w.step();
+
+      const parent = w.creatures.get(parentId)!.state;
+      expect(w.creatures.size).toBe(1);
+      expect(parent.gestation).not.toBeNull();
+      expect(parent.gestation!.energy).toBeCloseTo(60, 5);
+      expect(parent.energy).toBeCloseTo(90, 5);
+
+      w.step();
+      w.step();
+      expect(w.creatures.size).toBe(1);
+
+      w.step();
+      expect(w.creatures.size).toBe(2);
+      expect(parent.gestation).toBeNull();
+      const born = w.events.find(e => e.type === 'creature_born');
+      expect(born).toMatchObject({ parentId });
+    });
+
+    it('pregnant creatures do not reproduce again', () => {
+      const w = devWorld({ mode: 'gestation', gestationTime: 50 });
+      const parentId = spawnParent(w);
+      w.step();
+      const parent = w.creatures.get(parentId)!.state;
+      const embryo = parent.gestation;
+      parent.energy = 250;
+      parent.reproductionCooldown = 0;
+      w.step();
+      expect(parent.gestation).toBe(embryo);
+      expect(w.creatures.size).toBe(1);
+    });
+
+    it('juveniles move slower', () => {
+      const w = devWorld({ maturityAge: 100 });
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 50, y: 50 }, 0, 50);
+      const s = w.creatures.get(id)!.state;
+      s.velocity = 2;
+      w.step();
+      expect(s.position.x).toBeCloseTo(51, 5);
+
+      s.age = 100;
+      w.step();
+      expect(s.position.x).toBeCloseTo(53, 5);
+    });
+
+    it('juveniles deal reduced attack damage', () => {
+      const w = devWorld({ maturityAge: 100 });
+      const attacker = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 50, y: 50 }, 0, 50);
+      const victim = w.spawnCreature(createDefaultDNA(1, new PRNG(2)), { x: 58, y: 50 }, 0, 50);
+      w.creatures.get(attacker)!.state.isAttacking = true;
+      w.step();
+      expect(w.creatures.get(victim)!.state.energy).toBeCloseTo(50 - 7.5, 5);
+    });
+
+    it('juveniles do not reproduce', () => {
+      const w = devWorld({ maturityAge: 100 });
+      spawnParent(w);
+      w.step();
+      expect(w.creatures.size).toBe(1);
+    });
+
+    it('snapshot preserves eggs and pregnancies', () => {
+      const w = devWorld({ mode: 'gestation', gestationTime: 10 });
+      spawnParent(w);
+      w.step();
+      w.layEgg({ x: 20, y: 30 }, createDefaultDNA(0, new PRNG(2)), 40, 999);
+
+      const snap = JSON.parse(JSON.stringify(w.getSnapshot()));
+      const w2 = new World(testConfig());
+      w2.loadSnapshot(snap);
+      const [egg] = w2.getEggStates();
+      expect(egg.position).toEqual({ x: 20, y: 30 });
+      expect(egg.energy).toBe(40);
+      const [c] = w2.getCreatureStates();
+      expect(c.gestation?.ticksLeft).toBe(10);
+      expect(c.gestation?.energy).toBeCloseTo(60, 5);
+    });
+
+    it('eggs still point at their parents after a snapshot round trip', () => {
+      const w = devWorld({ mode: 'egg' });
+      const parentId = spawnParent(w);
+      const eggId = w.layEgg({ x: 20, y: 30 }, createDefaultDNA(0, new PRNG(2)), 40, parentId);
+
+      const w2 = new World(testConfig());
+      w2.loadSnapshot(JSON.parse(JSON.stringify(w.getSnapshot())));
+      const egg = w2.getEggStates().find(e => e.id === eggId)!;
+      expect(w2.creatures.has(egg.parentId)).toBe(true);
+    });
+  });
+
+  describe('aging', () => {
+    const agingCfg = { defaultLifespan: 5, minLifespan: 3, maxLifespan: 10, senescenceMetabolism: 0 };
+
+    function agingWorld(overrides: Partial<typeof agingCfg> = {}): World {
+      const cfg = testConfig({ aging: { ...agingCfg, ...overrides } });
+      cfg.food.spawnRate = 0;
+      cfg.energy.moveCost = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    function deathCause(w: World, id: number) {
+      const ev = w.events.find(e => e.type === 'creature_died' && e.creatureId === id);
+      return ev?.type === 'creature_died' ? ev.cause : undefined;
+    }
+
+    it('assigns the default lifespan on spawn', () => {
+      const w = agingWorld();
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 50, y: 50 }, 0, 50);
+      expect(w.creatures.get(id)!.state.dna.lifespan).toBe(5);
+    });
+
+    it('creatures die of old age at their lifespan', () => {
+      const w = agingWorld();
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 50, y: 50 }, 0, 50);
+      for (let i = 0; i < 4; i++) w.step();
+      expect(w.creatures.has(id)).toBe(true);
+
+      w.step();
+      expect(w.creatures.has(id)).toBe(false);
+      expect(deathCause(w, id)).toBe('old_age');
+    });
+
+    it('the lifespan gene is clamped to the configured range', () => {
+      const w = agingWorld();
+      const dna = createDefaultDNA(0, new PRNG(1));
+      dna.lifespan = 1;
+      const id = w.spawnCreature(dna, { x: 50, y: 50 }, 0, 50);
+      w.step();
+      w.step();
+      expect(w.creatures.has(id)).toBe(true);
+      w.step();
+      expect(deathCause(w, id)).toBe('old_age');
+    });
+
+    it('metabolism rises toward the end of life', () => {
+      const w = agingWorld({ defaultLifespan: 10, senescenceMetabolism: 1 });
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 50, y: 50 }, 0, 50);
+      const s = w.creatures.get(id)!.state;
+      w.step();
+      const youngCost = 50 - s.energy;
+      expect(youngCost).toBeGreaterThan(0);
+
+      s.age = 5;
+      const before = s.energy;
+      w.step();
+      expect(before - s.energy).toBeCloseTo(youngCost * 1.5, 5);
+    });
+
+    it('creatures never die of age without an aging config', () => {
+      const cfg = testConfig();
+      cfg.food.spawnRate = 0;
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 50, y: 50 }, 0, 100);
+      w.creatures.get(id)!.state.age = 1e6;
+      w.step();
+      expect(w.creatures.has(id)).toBe(true);
+      expect(w.creatures.get(id)!.state.dna.lifespan).toBeUndefined();
+    });
+  });
+
+  describe('disease', () => {
+    const diseaseCfg = {
+      strains: [
+        { name: 'flu', transmissionChance: 1, energyDrain: 2, duration: 3 },
+        { name: 'pox', transmissionChance: 1, energyDrain: 1, duration: 10 },
+      ],
+      transmissionRadius: 20, immunityDuration: 5,
+      initialInfected: 0, spontaneousRate: 0, resistanceCost: 0,
+    };
+
+    function diseaseWorld(overrides: Partial<typeof diseaseCfg> = {}): World {
+      const cfg = testConfig({ disease: { ...diseaseCfg, ...overrides } });
+      cfg.food.spawnRate = 0;
+      cfg.energy.baseMetabolism = 0;
+      cfg.energy.moveCost = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    function spawnAt(w: World, x: number, energy = 50): CreatureState {
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x, y: 50 }, 0, energy);
+      return w.creatures.get(id)!.state;
+    }
+
+    it('assigns zero resistance to every strain on spawn', () => {
+      const w = diseaseWorld();
+      expect(spawnAt(w, 50).dna.resistance).toEqual([0, 0]);
+    });
+
+    it('drains energy until recovery, then grants immunity', () => {
+      const w = diseaseWorld();
+      const s = spawnAt(w, 50);
+      w.infect(s, 0);
+      expect(w.events.some(e => e.type === 'creature_infected' && e.creatureId === s.id)).toBe(true);
+
+      w.step();
+      w.step();
+      expect(s.energy).toBeCloseTo(46, 5);
+      expect(s.infections).toHaveLength(1);
+
+      w.step();
+      expect(s.energy).toBeCloseTo(44, 5);
+      expect(s.infections).toHaveLength(0);
+      expect(s.immunities).toEqual([{ strain: 0, ticksLeft: 5 }]);
+      expect(w.events.some(e => e.type === 'creature_recovered' && e.creatureId === s.id)).toBe(true);
+
+      w.step();
+      expect(s.energy).toBeCloseTo(44, 5);
+    });
+
+    it('spreads to creatures within the transmission radius', () => {
+      const w = diseaseWorld();
+      const sick = spawnAt(w, 50);
+      const near = spawnAt(w, 65);
+      const far = spawnAt(w, 100);
+      w.infect(sick, 1);
+      w.step();
+
+      expect(near.infections.map(i => i.strain)).toEqual([1]);
+      expect(far.infections).toHaveLength(0);
+      const ev = w.events.find(e => e.type === 'creature_infected' && e.creatureId === near.id);
+      expect(ev).toMatchObject({ strain: 1, sourceId: sick.id });
+    });
+
+    it('creatures dying this tick neither spread nor catch disease', () => {
+      const w = diseaseWorld();
+      const sick = spawnAt(w, 50, 0.5);
+      const near = spawnAt(w, 65);
+      w.infect(sick, 1);
+      w.step();
+
+      expect(w.creatures.has(sick.id)).toBe(false);
+      expect(near.infections).toHaveLength(0);
+
+      const dying = spawnAt(w, 75, 0);
+      w.infect(near, 1);
+      w.step();
+      expect(w.creatures.has(dying.id)).toBe(false);
+      expect(w.events.some(e => e.type === 'creature_infected' && e.creatureId === dying.id)).toBe(false);
+    });
+
+    it('full resistance blocks transmission', () => {
+      const w = diseaseWorld();
+      const sick = spawnAt(w, 50);
+      const dna = createDefaultDNA(0, new PRNG(2));
+      dna.resistance = [0, 1];
+      const id = w.spawnCreature(dna, { x: 60, y: 50 }, 0, 50);
+      w.infect(sick, 1);
+      w.step();
+      expect(w.creatures.get(id)!.state.infections).toHaveLength(0);
+    });
+
+    it('immune creatures are not reinfected', () => {
+      const w = diseaseWorld();
+      const sick = spawnAt(w, 50);
+      const other = spawnAt(w, 60);
+      other.immunities.push({ strain: 1, ticksLeft: 100 });
+      w.infect(sick, 1);
+      w.step();
+      expect(other.infections).toHaveLength(0);
+    });
+
+    it('running out of energy while infected is a disease death', () => {
+      const w = diseaseWorld();
+      const s = spawnAt(w, 50, 1);
+      w.infect(s, 0);
+      w.step();
+      const died = w.events.find(e => e.type === 'creature_died' && e.creatureId === s.id);
+      expect(died).toMatchObject({ cause: 'disease' });
+    });
+
+    it('resistance has an upkeep cost', () => {
+      const w = diseaseWorld({ resistanceCost: 0.5 });
+      const dna = createDefaultDNA(0, new PRNG(2));
+      dna.resistance = [1, 0.5];
+      const id = w.spawnCreature(dna, { x: 60, y: 50 }, 0, 50);
+      w.step();
+      expect(w.creatures.get(id)!.state.energy).toBeCloseTo(50 - 0.75, 5);
+    });
+
+    it('initialize seeds initialInfected creatures', () => {
+      const cfg = testConfig({ disease: { ...diseaseCfg, initialInfected: 3 } });
+      cfg.simulation.initialCreatures = 10;
+      const w = new World(cfg);
+      w.initialize();
+      const infected = w.getCreatureStates().filter(c => c.infections.length > 0);
+      expect(infected).toHaveLength(3);
+    });
+
+    it('snapshot preserves infections and immunities', () => {
+      const w = diseaseWorld();
+      const s = spawnAt(w, 50);
+      w.infect(s, 1);
+      s.immunities.push({ strain: 0, ticksLeft: 4 });
+
+      const snap = JSON.parse(JSON.stringify(w.getSnapshot()));
+      const w2 = new World(testConfig());
+      w2.loadSnapshot(snap);
+      const [c] = w2.getCreatureStates();
+      expect(c.infections).toEqual([{ strain: 1, ticksLeft: 10 }]);
+      expect(c.immunities).toEqual([{ strain: 0, ticksLeft: 4 }]);
+    });
+  });
+
+  describe('terrain', () => {
+    // Left half plains, right half swamp (cellSize 100 over a 200-wide world)
+    const terrainCfg = {
+      types: [
+        { name: 'plain', moveCostFactor: 1, speedFactor: 1, fertility: 1 },
+        { name: 'swamp', moveCostFactor: 3, speedFactor: 0.5, fertility: 0 },
+      ],
+      cellSize: 100,
+      cells: [[0, 1]],
+    };
+
+    function terrainWorld(): World {
+      const cfg = testConfig({ terrain: terrainCfg });
+      cfg.food.spawnRate = 0;
+      cfg.energy.baseMetabolism = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      cfg.reproduction.energyThreshold = 1000;
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    function spawnMover(w: World, x: number): CreatureState {
+      const id = w.spawnCreature(createDefaultDNA(2, new PRNG(1)), { x, y: 50 }, 0, 100);
+      const s = w.creatures.get(id)!.state;
+      s.velocity = 2;
+      s.angularVelocity = 0;
+      return s;
+    }
+
+    it('speedFactor slows movement', () => {
+      const w = terrainWorld();
+      const plain = spawnMover(w, 20);
+      const swamp = spawnMover(w, 120);
+      w.step();
+      expect(plain.position.x).toBeCloseTo(22, 5);
+      expect(swamp.position.x).toBeCloseTo(121, 5);
+    });
+
+    it('moveCostFactor scales the movement cost', () => {
+      const w = terrainWorld();
+      const plain = spawnMover(w, 20);
+      const swamp = spawnMover(w, 120);
+      w.step();
+      // plain: 0.02 * 2 * 1; swamp: 0.02 * 1 * 3
+      expect(100 - plain.energy).toBeCloseTo(0.04, 5);
+      expect(100 - swamp.energy).toBeCloseTo(0.06, 5);
+    });
+
+    it('food never spawns on barren ground', () => {
+      const cfg = testConfig({ terrain: terrainCfg });
+      cfg.food.spawnRate = 20;
+      cfg.food.maxCount = 200;
+      const w = new World(cfg);
+      for (let i = 0; i < 10; i++) w.step();
+      expect(w.food.size).toBeGreaterThan(0);
+      for (const f of w.food.values()) {
+        expect(f.state.position.x).toBeLessThan(100);
+      }
+    });
+
+    it('terrainSense reports factors underfoot and ahead', () => {
+      const w = terrainWorld();
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [{ type: 'terrainSense', lookAhead: 30 }];
+      // Facing +x, 30 units ahead crosses into the swamp
+      const id = w.spawnCreature(dna, { x: 80, y: 50 }, 0, 100);
+
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      expect(inputs.length).toBe(6);
+      expect(Array.from(inputs.slice(2))).toEqual([1, 1, 0.5, 3]);
+    });
+
+    it('terrainSense reads neutral ground without a terrain config', () => {
+      const w = new World(testConfig());
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [{ type: 'terrainSense', lookAhead: 30 }];
+      const id = w.spawnCreature(dna, { x: 80, y: 50 }, 0, 100);
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      expect(Array.from(inputs.slice(2))).toEqual([1, 1, 1, 1]);
+      expect(w.getTerrainGrid()).toBeNull();
+    });
+
+    it('layout is rebuilt from config after loading a snapshot', () => {
+      const cfg = testConfig({ terrain: { ...terrainCfg, cells: undefined } });
+      const w = new World(cfg);
+      const snap = JSON.parse(JSON.stringify(w.getSnapshot()));
+      const w2 = new World(testConfig());
+      w2.loadSnapshot(snap);
+      expect(Array.from(w2.getTerrainGrid()!.getCells())).toEqual(Array.from(w.getTerrainGrid()!.getCells()));
+    });
+  });
+
+  describe('world topology', () => {
+    function boundedWorld(boundary: string): World {
+      const cfg = testConfig();
+      cfg.world = { width: 200, height: 200, boundary } as WorldConfig['world'];
+      cfg.food.spawnRate = 0;
+      cfg.energy.baseMetabolism = 0;
+      cfg.energy.moveCost = 0;
+      cfg.reproduction.energyThreshold = 1000;
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    function walk(w: World, pos: Vec2, angle: number, steps: number): CreatureState {
+      const id = w.spawnCreature(createDefaultDNA(2, new PRNG(1)), pos, angle, 100);
+      const s = w.creatures.get(id)!.state;
+      for (let i = 0; i < steps; i++) {
+        s.velocity = 2;
+        s.angularVelocity = 0;
+        w.step();
+      }
+      return s;
+    }
+
+    it('walled: creatures stop at the edge', () => {
+      const w = boundedWorld('walled');
+      const s = walk(w, { x: 190, y: 100 }, 0, 20);
+      expect(s.position.x).toBeCloseTo(200 - s.dna.body.radius, 5);
+      const t = walk(w, { x: 100, y: 10 }, -Math.PI / 2, 20);
+      expect(t.position.y).toBeCloseTo(t.dna.body.radius, 5);
+    });
+
+    it('cylinder: wraps horizontally but stops at top and bottom', () => {
+      const w = boundedWorld('cylinder');
+      const s = walk(w, { x: 195, y: 100 }, 0, 10);
+      expect(s.position.x).toBeCloseTo(15, 5);
+      const t = walk(w, { x: 100, y: 190 }, Math.PI / 2, 20);
+      expect(t.position.y).toBeCloseTo(200 - t.dna.body.radius, 5);
+    });
+
+    it('torus: wraps on both axes (default)', () => {
+      const w = boundedWorld('torus');
+      const s = walk(w, { x: 100, y: 195 }, Math.PI / 2, 10);
+      expect(s.position.y).toBeCloseTo(15, 5);
+    });
+
+    it('walled: rays stop at the edge and read like an obstacle', () => {
+      const w = boundedWorld('walled');
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [{ type: 'rayVision', rayCount: 1, fov: 0, maxDistance: 100, offsetAngle: 0 }];
+      const id = w.spawnCreature(dna, { x: 150, y: 100 }, 0, 100);
+      // Food just across the right edge would be 20 units ahead on a torus
+      w.spawnFood({ x: 10, y: 100 });
+      (w as any).updateSpatialHashes();
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      expect(inputs[2]).toBeCloseTo(0.5, 5);
+      expect(Array.from(inputs.slice(3, 6))).toEqual([0, 0, 0]);
+    });
+
+    it('walled: touch feels the edge', () => {
+      const w = boundedWorld('walled');
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [{ type: 'touch' }];
+      const id = w.spawnCreature(dna, { x: dna.body.radius, y: 100 }, 0, 100);
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      expect(inputs[3]).toBe(1);
+    });
+
+    it('walled: creatures do not eat across the edge', () => {
+      const w = boundedWorld('walled');
+      const id = w.spawnCreature(createDefaultDNA(2, new PRNG(1)), { x: 3, y: 100 }, 0, 100);
+      w.spawnFood({ x: 198, y: 100 });
+      w.creatures.get(id)!.state.isEating = true;
+      w.step();
+      expect(w.food.size).toBe(1);
+    });
+
+    it('snapshot restores the topology', () => {
+      const w = boundedWorld('walled');
+      const snap = JSON.parse(JSON.stringify(w.getSnapshot()));
+      const w2 = new World(testConfig());
+      w2.loadSnapshot(snap);
+      (w2 as any).brainTickAccumulator = -100;
+      const s = walk(w2, { x: 190, y: 100 }, 0, 20);
+      expect(s.position.x).toBeCloseTo(200 - s.dna.body.radius, 5);
+    });
+  });
+
+  describe('ray vision across the seam', () => {
+    function seeAhead(boundary: string, eye: Vec2, angle: number, target: Vec2, kind: 'food' | 'creature' | 'obstacle'): number[] {
+      const cfg = testConfig();
+      cfg.world = { width: 200, height: 200, boundary } as WorldConfig['world'];
+      cfg.food.spawnRate = 0;
+      cfg.food.maxCount = 0;
+      if (kind === 'obstacle') {
+        cfg.obstacles = { count: 0, minRadius: 10, maxRadius: 20, shapes: [{ type: 'circle', x: target.x, y: target.y, radius: 4 }] };
+      }
+      resetInnovationCounter();
+      const w = new World(cfg);
+      w.initialize();
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.hasIFF = true;
+      dna.sensors = [{ type: 'rayVision', rayCount: 1, fov: 0, maxDistance: 100, offsetAngle: 0 }];
+      const id = w.spawnCreature(dna, eye, angle, 100);
+      if (kind === 'food') w.spawnFood(target);
+      if (kind === 'creature') {
+        const other = createDefaultDNA(2, new PRNG(2));
+        other.body.radius = 4;
+        w.spawnCreature(other, target, 0, 100);
+      }
+      (w as any).updateSpatialHashes();
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      return Array.from(inputs.slice(2, 6));
+    }
+
+    // Eye 20 units from an edge, looking out; target 10 units past the seam
+    const edges: { name: string; eye: Vec2; angle: number; target: Vec2 }[] = [
+      { name: 'right', eye: { x: 180, y: 100 }, angle: 0, target: { x: 10, y: 100 } },
+      { name: 'left', eye: { x: 20, y: 100 }, angle: Math.PI, target: { x: 190, y: 100 } },
+      { name: 'bottom', eye: { x: 100, y: 180 }, angle: Math.PI / 2, target: { x: 100, y: 10 } },
+      { name: 'top', eye: { x: 100, y: 20 }, angle: -Math.PI / 2, target: { x: 100, y: 190 } },
+    ];
+
+    for (const edge of edges) {
+      it(`sees food, creatures and obstacles across the ${edge.name} edge as in the centre`, () => {
+        const dir = { x: Math.round(Math.cos(edge.angle)), y: Math.round(Math.sin(edge.angle)) };
+        const centreTarget = { x: 100 + dir.x * 30, y: 100 + dir.y * 30 };
+        for (const kind of ['food', 'creature', 'obstacle'] as const) {
+          const across = seeAhead('torus', edge.eye, edge.angle, edge.target, kind);
+          const centre = seeAhead('torus', { x: 100, y: 100 }, edge.angle, centreTarget, kind);
+          expect(across[0]).toBeCloseTo(0.26, 5);
+          expect(across[0]).toBeCloseTo(centre[0], 5);
+          expect(across.slice(1)).toEqual(centre.slice(1));
+        }
+      });
+    }
+
+    it('food reads on the food channel and creatures on the creature channel', () => {
+      const [, food] = edges;
+      expect(seeAhead('torus', food.eye, food.angle, food.target, 'food').slice(1)).toEqual([1, 0, 0]);
+      expect(seeAhead('torus', food.eye, food.angle, food.target, 'creature').slice(1)).toEqual([0, 1, 1]);
+    });
+
+    it('a cylinder wraps sight along x only', () => {
+      const [right, , bottom] = edges;
+      expect(seeAhead('cylinder', right.eye, right.angle, right.target, 'food')[0]).toBeCloseTo(0.26, 5);
+      // The bottom wall is 20 units ahead and hides the food beyond it
+      expect(seeAhead('cylinder', bottom.eye, bottom.angle, bottom.target, 'food')).toEqual([expect.closeTo(0.2, 5), 0, 0, 0]);
+    });
+  });
+
+  describe('appearance and colour vision', () => {
+    function colorWorld(appearance?: WorldConfig['appearance']): World {
+      const cfg = testConfig();
+      cfg.food.spawnRate = 0;
+      cfg.food.maxCount = 0;
+      cfg.appearance = appearance;
+      resetInnovationCounter();
+      const w = new World(cfg);
+      w.initialize();
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    function lookAhead(w: World, eye: Vec2): number[] {
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [{ type: 'colorVision', rayCount: 1, fov: 0, maxDistance: 100, offsetAngle: 0 }];
+      const id = w.spawnCreature(dna, eye, 0, 100);
+      (w as any).updateSpatialHashes();
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      return Array.from(inputs.slice(2, 6));
+    }
+
+    it('creatures carry no colour gene unless appearance is configured', () => {
+      const w = colorWorld();
+      const id = w.spawnCreature(createDefaultDNA(1, new PRNG(1)), { x: 50, y: 50 }, 0, 100);
+      expect(w.getCreatureById(id)!.dna.color).toBeUndefined();
+    });
+
+    it('spawned creatures get their group palette colour and keep an inherited one', () => {
+      const w = colorWorld({ palette: [{ r: 1, g: 0, b: 0 }, { r: 0, g: 0, b: 1 }] });
+      const blue = w.spawnCreature(createDefaultDNA(3, new PRNG(1)), { x: 50, y: 50 }, 0, 100);
+      expect(w.getCreatureById(blue)!.dna.color).toEqual({ r: 0, g: 0, b: 1 });
+
+      const dna = createDefaultDNA(0, new PRNG(1));
+      dna.color = { r: 0.2, g: 0.4, b: 0.6 };
+      const own = w.spawnCreature(dna, { x: 80, y: 50 }, 0, 100);
+      expect(w.getCreatureById(own)!.dna.color).toEqual({ r: 0.2, g: 0.4, b: 0.6 });
+    });
+
+    it('reports the genetic colour of the creature a ray hits', () => {
+      const w = colorWorld({});
+      const target = createDefaultDNA(0, new PRNG(2));
+      target.color = { r: 0.25, g: 0.5, b: 0.75 };
+      w.spawnCreature(target, { x: 80, y: 50 }, 0, 100);
+      const [distance, r, g, b] = lookAhead(w, { x: 50, y: 50 });
+      expect(distance).toBeCloseTo((30 - target.body.radius) / 100, 5);
+      expect([r, g, b]).toEqual([expect.closeTo(0.25, 5), expect.closeTo(0.5, 5), expect.closeTo(0.75, 5)]);
+    });
+
+    it('sees colourless creatures in their group colour', () => {
+      const w = colorWorld();
+      w.spawnCreature(createDefaultDNA(1, new PRNG(2)), { x: 80, y: 50 }, 0, 100);
+      const [, r, g, b] = lookAhead(w, { x: 50, y: 50 });
+      const expected = DEFAULT_PALETTE[1];
+      expect([r, g, b]).toEqual([expect.closeTo(expected.r, 5), expect.closeTo(expected.g, 5), expect.closeTo(expected.b, 5)]);
+    });
+
+    it('sees food and obstacles in their scenery colours, and nothing as black', () => {
+      const w = colorWorld();
+      w.spawnFood({ x: 80, y: 50 });
+      const [, ...food] = lookAhead(w, { x: 50, y: 50 });
+      expect(food).toEqual([SCENERY_COLORS.food.r, SCENERY_COLORS.food.g, SCENERY_COLORS.food.b].map(v => expect.closeTo(v, 5)));
+
+      expect(lookAhead(colorWorld(), { x: 50, y: 150 })).toEqual([1, 0, 0, 0]);
+    });
+
+    it('a creature coloured like food looks like food', () => {
+      const w = colorWorld({});
+      const mimic = createDefaultDNA(0, new PRNG(2));
+      mimic.color = { ...SCENERY_COLORS.food };
+      w.spawnCreature(mimic, { x: 80, y: 50 }, 0, 100);
+      const [, ...seen] = lookAhead(w, { x: 50, y: 50 });
+      expect(seen).toEqual([SCENERY_COLORS.food.r, SCENERY_COLORS.food.g, SCENERY_COLORS.food.b].map(v => expect.closeTo(v, 5)));
+    });
+
+    it('colour vision rays cost the same as plain vision rays', () => {
+      const w = colorWorld();
+      w.config.energy.visionCostPerRay = 1;
+      const plain = createDefaultDNA(2, new PRNG(1));
+      plain.sensors = [{ type: 'rayVision', rayCount: 4, fov: 1, maxDistance: 50, offsetAngle: 0 }];
+      const colored = createDefaultDNA(2, new PRNG(1));
+      colored.sensors = [{ type: 'colorVision', rayCount: 4, fov: 1, maxDistance: 50, offsetAngle: 0 }];
+      const a = w.spawnCreature(plain, { x: 50, y: 50 }, 0, 100);
+      const b = w.spawnCreature(colored, { x: 150, y: 150 }, 0, 100);
+      w.step();
+      expect(w.getCreatureById(b)!.energy).toBeCloseTo(w.getCreatureById(a)!.energy, 5);
+      expect(w.getCreatureById(a)!.energy).toBeLessThan(100 - 4);
+    });
+  });
+
+  describe('hearing', () => {
+    function hearingWorld(hearing?: WorldConfig['hearing']): World {
+      const cfg = testConfig();
+      cfg.food.spawnRate = 0;
+      cfg.food.maxCount = 0;
+      cfg.hearing = hearing;
+      resetInnovationCounter();
+      const w = new World(cfg);
+      w.initialize();
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    const hearingCfg = { range: 100, speedNoise: 0.5, attackNoise: 0.3 };
+
+    function listener(w: World, pos: Vec2 = { x: 100, y: 100 }): number {
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [{ type: 'hearing' }];
+      return w.spawnCreature(dna, pos, 0, 100);
+    }
+
+    function source(w: World, pos: Vec2, speed: number, attacking = false): CreatureState {
+      const id = w.spawnCreature(createDefaultDNA(0, new PRNG(2)), pos, 0, 100);
+      const s = w.creatures.get(id)!.state;
+      s.velocity = speed;
+      s.isAttacking = attacking;
+      return s;
+    }
+
+    function hear(w: World, id: number): number[] {
+      (w as any).updateSpatialHashes();
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      return Array.from(inputs.slice(2, 4));
+    }
+
+    it('hears nothing without the hearing config', () => {
+      const w = hearingWorld();
+      const id = listener(w);
+      source(w, { x: 100, y: 130 }, 2);
+      expect(hear(w, id)).toEqual([0, 0]);
+    });
+
+    it('moving creatures are heard with linear falloff, on the correct side', () => {
+      const w = hearingWorld(hearingCfg);
+      const id = listener(w);
+      // Heading +x with y pointing down: +y is to the right
+      source(w, { x: 100, y: 150 }, 2);
+      const [intensity, bearing] = hear(w, id);
+      expect(intensity).toBeCloseTo(2 * 0.5 * (1 - 50 / 100), 5);
+      expect(bearing).toBeCloseTo(1, 5);
+
+      const w2 = hearingWorld(hearingCfg);
+      const id2 = listener(w2);
+      source(w2, { x: 100, y: 50 }, 2);
+      expect(hear(w2, id2)[1]).toBeCloseTo(-1, 5);
+    });
+
+    it('slow movers are quieter and still ones are silent', () => {
+      const loud = hearingWorld(hearingCfg);
+      const a = listener(loud);
+      source(loud, { x: 130, y: 100 }, 2);
+      const quiet = hearingWorld(hearingCfg);
+      const b = listener(quiet);
+      source(quiet, { x: 130, y: 100 }, 0.2);
+      const still = hearingWorld(hearingCfg);
+      const c = listener(still);
+      source(still, { x: 130, y: 100 }, 0);
+
+      expect(hear(quiet, b)[0]).toBeLessThan(hear(loud, a)[0]);
+      expect(hear(still, c)).toEqual([0, 0]);
+    });
+
+    it('attacking makes noise and sources out of range are not heard', () => {
+      const w = hearingWorld(hearingCfg);
+      const id = listener(w);
+      source(w, { x: 150, y: 100 }, 0, true);
+      source(w, { x: 100, y: 0 }, 2); // 100 away across the seam, at the edge of range
+      expect(hear(w, id)[0]).toBeCloseTo(0.3 * 0.5, 5);
+    });
+
+    it('hears across the world seam', () => {
+      const w = hearingWorld(hearingCfg);
+      const id = listener(w, { x: 10, y: 100 });
+      source(w, { x: 190, y: 100 }, 1);
+      expect(hear(w, id)[0]).toBeCloseTo(0.5 * (1 - 20 / 100), 5);
+    });
+
+    it('uses the configured attenuation expression', () => {
+      const w = hearingWorld({
+        ...hearingCfg,
+        // 10 / distance
+        attenuation: { op: 'div', args: [{ op: 'lit', value: 10 }, { op: 'var', name: 'sound.distance' }] },
+      });
+      const id = listener(w);
+      source(w, { x: 120, y: 100 }, 2);
+      expect(hear(w, id)[0]).toBeCloseTo(2 * 0.5 * (10 / 20), 5);
+    });
+
+    it('sums several sources (capped at 1) and weights the bearing by loudness', () => {
+      const w = hearingWorld(hearingCfg);
+      const id = listener(w);
+      source(w, { x: 100, y: 150 }, 1); // right, heard 0.25
+      source(w, { x: 100, y: 75 }, 1);  // left, heard 0.375
+      const [intensity, bearing] = hear(w, id);
+      expect(intensity).toBeCloseTo(0.625, 5);
+      expect(bearing).toBeCloseTo((0.25 - 0.375) / 0.625, 5);
+
+      source(w, { x: 110, y: 100 }, 4);
+      expect(hear(w, id)[0]).toBe(1);
+    });
+  });
+
+  describe('internal-state sensors', () => {
+    function senseWorld(overrides: Partial<Record<string, unknown>> = {}): World {
+      const cfg = testConfig(overrides);
+      cfg.food.spawnRate = 0;
+      cfg.food.maxCount = 0;
+      resetInnovationCounter();
+      const w = new World(cfg);
+      w.initialize();
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    function spawnWith(w: World, sensors: DNA['sensors'], pos: Vec2 = { x: 100, y: 100 }): CreatureState {
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = sensors;
+      const id = w.spawnCreature(dna, pos, 0, 100);
+      return w.creatures.get(id)!.state;
+    }
+
+    function sense(w: World, s: CreatureState): number[] {
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(s.id)!);
+      return Array.from(inputs.slice(2));
+    }
+
+    it('ageSense saturates without aging and is the lifespan fraction with it', () => {
+      const w = senseWorld();
+      const s = spawnWith(w, [{ type: 'ageSense' }]);
+      expect(sense(w, s)).toEqual([0]);
+      s.age = 1000;
+      expect(sense(w, s)[0]).toBeCloseTo(0.5, 5);
+
+      const aged = senseWorld({
+        aging: { defaultLifespan: 200, minLifespan: 10, maxLifespan: 1000, senescenceMetabolism: 0 },
+      });
+      const t = spawnWith(aged, [{ type: 'ageSense' }]);
+      t.age = 100;
+      expect(sense(aged, t)[0]).toBeCloseTo(0.5, 5);
+      t.age = 500;
+      expect(sense(aged, t)[0]).toBe(1);
+    });
+
+    it('speedSense reports signed speed and turn rate as fractions of the maxima', () => {
+      const w = senseWorld();
+      const s = spawnWith(w, [{ type: 'speedSense' }]);
+      s.velocity = 1;
+      s.angularVelocity = -0.15;
+      const [speed, turn] = sense(w, s);
+      expect(speed).toBeCloseTo(0.5, 5);
+      expect(turn).toBeCloseTo(-1, 5);
+    });
+
+    it('cooldownSense reports the remaining share of each cooldown', () => {
+      const w = senseWorld();
+      const s = spawnWith(w, [{ type: 'cooldownSense' }]);
+      expect(sense(w, s)).toEqual([0, 0]);
+      s.attackCooldown = 5;
+      s.reproductionCooldown = 10;
+      const [attack, reproduction] = sense(w, s);
+      expect(attack).toBe(1);
+      expect(reproduction).toBeCloseTo(0.5, 5);
+    });
+
+    it('damageSense reports attack damage until the next brain tick', () => {
+      const w = senseWorld();
+      const attackerDNA = createDefaultDNA(0, new PRNG(1));
+      const attackerId = w.spawnCreature(attackerDNA, { x: 95, y: 100 }, 0, 100);
+      const attacker = w.creatures.get(attackerId)!.state;
+      attacker.isAttacking = true;
+      const victim = spawnWith(w, [{ type: 'damageSense' }]);
+      expect(sense(w, victim)).toEqual([0]);
+
+      w.step();
+      const [damage] = sense(w, victim);
+      expect(damage).toBeCloseTo(15 / (15 + victim.energy), 5);
+
+      // The brain tick consumes the reading
+      attacker.isAttacking = false;
+      (w as any).brainTickAccumulator = 1000;
+      w.step();
+      (w as any).brainTickAccumulator = -100;
+      expect(sense(w, victim)).toEqual([0]);
+    });
+
+    it('damageSense measures damage against health when health is configured', () => {
+      const w = senseWorld({ health: { maxHealth: 40, regenRate: 0 } });
+      const attackerId = w.spawnCreature(createDefaultDNA(0, new PRNG(1)), { x: 95, y: 100 }, 0, 100);
+      w.creatures.get(attackerId)!.state.isAttacking = true;
+      const victim = spawnWith(w, [{ type: 'damageSense' }]);
+
+      w.step();
+      expect(victim.health).toBeCloseTo(25, 5);
+      const [damage] = sense(w, victim);
+      expect(damage).toBeCloseTo(15 / 40, 5);
+    });
+
+    it('clockSense oscillates with the gene period', () => {
+      const w = senseWorld();
+      const s = spawnWith(w, [{ type: 'clockSense', period: 40 }]);
+      expect(sense(w, s)).toEqual([0, 1]);
+      s.age = 10;
+      const [sin, cos] = sense(w, s);
+      expect(sin).toBeCloseTo(1, 5);
+      expect(cos).toBeCloseTo(0, 5);
+      s.age = 40;
+      expect(sense(w, s)[1]).toBeCloseTo(1, 5);
+    });
+  });
+
+  describe('grab and carry', () => {
+    const grabCfg = { reach: 2, loadCost: 0.5 };
+
+    function grabWorld(grab?: WorldConfig['grab']): World {
+      const cfg = testConfig();
+      cfg.food.spawnRate = 0;
+      cfg.food.maxCount = 0;
+      cfg.grab = grab;
+      resetInnovationCounter();
+      const w = new World(cfg);
+      w.initialize();
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    function carrier(w: World, pos: Vec2 = { x: 100, y: 100 }, radius = 5): CreatureState {
+      const dna = createDefaultDNA(0, new PRNG(1));
+      dna.body.radius = radius;
+      dna.actuators = [...dna.actuators, { type: 'grab' }];
+      const s = w.creatures.get(w.spawnCreature(dna, pos, 0, 50))!.state;
+      s.isGrabbing = true;
+      return s;
+    }
+
+    function bystander(w: World, pos: Vec2, radius: number): CreatureState {
+      const dna = createDefaultDNA(1, new PRNG(2));
+      dna.body.radius = radius;
+      return w.creatures.get(w.spawnCreature(dna, pos, 0, 50))!.state;
+    }
+
+    it('picks up the nearest food in reach and carries it in its mouth', () => {
+      const w = grabWorld(grabCfg);
+      const s = carrier(w);
+      const far = w.spawnFood({ x: 110, y: 100 });
+      const near = w.spawnFood({ x: 100, y: 108 });
+      w.spawnFood({ x: 130, y: 100 }); // out of reach
+      w.step();
+      expect(s.holding).toEqual({ kind: 'food', id: near });
+      expect(w.events).toContainEqual(expect.objectContaining({ type: 'creature_grabbed', creatureId: s.id, targetId: near }));
+
+      s.velocity = 1;
+      w.step();
+      const food = w.food.get(near)!.state;
+      expect(food.position.x).toBeCloseTo(s.position.x + 5, 5);
+      expect(food.position.y).toBeCloseTo(s.position.y, 5);
+      expect(w.food.get(far)!.state.position).toEqual({ x: 110, y: 100 });
+    });
+
+    it('drops what it holds when the output turns off', () => {
+      const w = grabWorld(grabCfg);
+      const s = carrier(w);
+      const id = w.spawnFood({ x: 106, y: 100 });
+      w.step();
+      s.isGrabbing = false;
+      s.velocity = 1;
+      w.step();
+      expect(s.holding).toBeNull();
+      expect(w.events).toContainEqual(expect.objectContaining({ type: 'creature_released', creatureId: s.id, kind: 'food' }));
+      const dropped = { ...w.food.get(id)!.state.position };
+      w.step();
+      expect(w.food.get(id)!.state.position).toEqual(dropped);
+    });
+
+    it('tows a smaller creature behind it, but not a larger one', () => {
+      const w = grabWorld(grabCfg);
+      const s = carrier(w);
+      const big = bystander(w, { x: 100, y: 111 }, 5);
+      const small = bystander(w, { x: 100, y: 90 }, 3);
+      w.step();
+      expect(s.holding).toEqual({ kind: 'creature', id: small.id });
+
+      s.angle = 0;
+      s.velocity = 1;
+      w.step();
+      expect(small.position.x).toBeCloseTo(s.position.x - 8, 5);
+      expect(small.position.y).toBeCloseTo(s.position.y, 5);
+      expect(big.position.y).toBeCloseTo(111, 0);
+    });
+
+    it('an item can only be held by one carrier and carried creatures cannot tow', () => {
+      const w = grabWorld(grabCfg);
+      const a = carrier(w, { x: 100, y: 100 });
+      const b = carrier(w, { x: 100, y: 90 }, 3);
+      const foodId = w.spawnFood({ x: 112, y: 100 });
+      w.step();
+      // a is larger, so a tows b; b (carried) may still pick up food
+      const holders = [a, b].filter(c => c.holding?.kind === 'food' && c.holding.id === foodId);
+      expect(holders.length).toBeLessThanOrEqual(1);
+      expect(a.holding?.kind === 'creature' && b.holding?.kind === 'creature').toBe(false);
+    });
+
+    it('lets go of food that someone ate', () => {
+      const w = grabWorld(grabCfg);
+      const s = carrier(w);
+      w.spawnFood({ x: 106, y: 100 });
+      w.step();
+      expect(s.holding).not.toBeNull();
+      s.isEating = true;
+      w.step();
+      expect(w.food.size).toBe(0);
+      w.step();
+      expect(s.holding).toBeNull();
+    });
+
+    it('moving with a load costs extra energy', () => {
+      const run = (loaded: boolean): number => {
+        const w = grabWorld(grabCfg);
+        const s = carrier(w);
+        if (loaded) w.spawnFood({ x: 106, y: 100 });
+        w.step();
+        s.isGrabbing = loaded;
+        s.velocity = 2;
+        const before = s.energy;
+        w.step();
+        return before - s.energy;
+      };
+      // load = (4 / 5)^2, cost = 0.5 * speed 2 * load
+      expect(run(true) - run(false)).toBeCloseTo(0.5 * 2 * 0.64, 5);
+    });
+
+    it('a loaded snapshot keeps what carriers hold and what the load costs', () => {
+      const spent = (loaded: boolean): number => {
+        const w = grabWorld(grabCfg);
+        const s = carrier(w);
+        const foodId = w.spawnFood({ x: 106, y: 100 });
+        s.isGrabbing = loaded;
+        w.step();
+
+        const w2 = new World(testConfig());
+        w2.loadSnapshot(JSON.parse(JSON.stringify(w.getSnapshot())));
+        (w2 as any).brainTickAccumulator = -100;
+        const restored = w2.creatures.get(s.id)!.state;
+        expect(restored.holding).toEqual(loaded ? { kind: 'food', id: foodId } : null);
+
+        restored.velocity = 2;
+        const before = restored.energy;
+        w2.step();
+        return before - restored.energy;
+      };
+      // load = (4 / 5)^2, cost = 0.5 * speed 2 * load
+      expect(spent(true) - spent(false)).toBeCloseTo(0.5 * 2 * 0.64, 5);
+    });
+
+    it('does nothing without the grab config', () => {
+      const w = grabWorld();
+      const s = carrier(w);
+      w.spawnFood({ x: 106, y: 100 });
+      w.step();
+      expect(s.holding).toBeNull();
+    });
+
+    it('holdSense reports food and creature loads', () => {
+      const w = grabWorld(grabCfg);
+      const s = carrier(w);
+      s.dna.sensors = [{ type: 'holdSense' }];
+      const read = () => Array.from(((w as any).gatherSensorInputs(w.creatures.get(s.id)!) as Float32Array).slice(2));
+      expect(read()).toEqual([0, 0]);
+      s.holding = { kind: 'food', id: 1 };
+      expect(read()).toEqual([1, 0]);
+      s.holding = { kind: 'creature', id: 2 };
+      expect(read()).toEqual([0, 1]);
+    });
+  });
+
+  describe('sprint, shield and graded attack', () => {
+    function actionWorld(overrides: Partial<Record<string, unknown>> = {}): World {
+      const cfg = testConfig(overrides);
+      cfg.food.spawnRate = 0;
+      cfg.food.maxCount = 0;
+      resetInnovationCounter();
+      const w = new World(cfg);
+      w.initialize();
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    function spawnAt(w: World, pos: Vec2, groupId = 0): CreatureState {
+      const id = w.spawnCreature(createDefaultDNA(groupId, new PRNG(1)), pos, 0, 50);
+      return w.creatures.get(id)!.state;
+    }
+
+    const sprintCfg = { speedBoost: 1, cost: 0.4, fatigueRate: 0.5, recoveryRate: 0.25 };
+
+    it('sprinting adds forward speed, damped by fatigue', () => {
+      const w = actionWorld({ sprint: sprintCfg });
+      const s = spawnAt(w, { x: 50, y: 100 });
+      s.velocity = 1;
+      s.sprint = 1;
+      w.step();
+      expect(s.position.x).toBeCloseTo(52, 5);
+      expect(s.fatigue).toBeCloseTo(0.5, 5);
+      w.step();
+      expect(s.position.x).toBeCloseTo(53.5, 5);
+      expect(s.fatigue).toBe(1);
+
+      // Exhausted: no boost, then fatigue wears off at rest
+      w.step();
+      expect(s.position.x).toBeCloseTo(54.5, 5);
+      s.sprint = 0;
+      w.step();
+      expect(s.fatigue).toBeCloseTo(0.75, 5);
+    });
+
+    it('fatigue recovers every tick, even for a creature standing still', () => {
+      const w = actionWorld({ sprint: sprintCfg });
+      const s = spawnAt(w, { x: 50, y: 100 });
+      s.fatigue = 0.5;
+      s.velocity = 1;
+      s.sprint = 1;
+      expect((w as any).sprintFactor(s, sprintCfg)).toBeCloseTo(1.5, 5);
+      expect(s.fatigue).toBe(0.5);
+
+      s.velocity = 0;
+      s.sprint = 0;
+      w.step();
+      expect(s.fatigue).toBeCloseTo(0.25, 5);
+      w.step();
+      expect(s.fatigue).toBe(0);
+    });
+
+    it('sprint does nothing without the sprint config, and never boosts reversing', () => {
+      const w = actionWorld();
+      const s = spawnAt(w, { x: 50, y: 100 });
+      s.velocity = 1;
+      s.sprint = 1;
+      w.step();
+      expect(s.position.x).toBeCloseTo(51, 5);
+
+      const v = actionWorld({ sprint: sprintCfg });
+      const r = spawnAt(v, { x: 50, y: 100 });
+      r.velocity = -0.5;
+      r.sprint = 1;
+      v.step();
+      expect(r.position.x).toBeCloseTo(49.5, 5);
+    });
+
+    it('sprint and shield cost energy in proportion to their intensity', () => {
+      const drain = (setup: (s: CreatureState) => void): number => {
+        const w = actionWorld({ sprint: sprintCfg, shield: { maxReduction: 0.5, cost: 0.2 } });
+        const dna = createDefaultDNA(0, new PRNG(1));
+        dna.actuators = [...dna.actuators, { type: 'sprint' }, { type: 'shield' }];
+        const s = w.creatures.get(w.spawnCreature(dna, { x: 100, y: 100 }, 0, 50))!.state;
+        setup(s);
+        w.step();
+        return 50 - s.energy;
+      };
+      const idle = drain(() => {});
+      expect(drain(s => { s.sprint = 0.5; }) - idle).toBeCloseTo(0.2, 5);
+      expect(drain(s => { s.shield = 1; }) - idle).toBeCloseTo(0.2, 5);
+    });
+
+    it('a shield blocks part of the attack damage', () => {
+      const attackDamage = (shield: number, config?: unknown): number => {
+        const w = actionWorld(config ? { shield: config } : {});
+        const attacker = spawnAt(w, { x: 95, y: 100 });
+        const victim = spawnAt(w, { x: 100, y: 100 }, 1);
+        attacker.isAttacking = true;
+        victim.shield = shield;
+        w.step();
+        const hit = w.events.find(e => e.type === 'creature_attacked' && e.targetId === victim.id);
+        return hit?.type === 'creature_attacked' ? hit.damage : 0;
+      };
+      const shieldCfg = { maxReduction: 0.6, cost: 0 };
+      expect(attackDamage(0, shieldCfg)).toBeCloseTo(15, 5);
+      expect(attackDamage(1, shieldCfg)).toBeCloseTo(6, 5);
+      expect(attackDamage(0.5, shieldCfg)).toBeCloseTo(10.5, 5);
+      expect(attackDamage(1)).toBeCloseTo(15, 5);
+    });
+
+    it('graded attack strength scales damage and cost', () => {
+      const strike = (output: number, graded: boolean): { damage: number; cost: number } => {
+        const w = actionWorld({ combat: { baseDamage: 15, attackRadius: 10, attackCooldown: 5, gradedAttack: graded } });
+        const attacker = spawnAt(w, { x: 95, y: 100 });
+        const victim = spawnAt(w, { x: 100, y: 100 }, 1);
+        const outputs = new Float32Array(4);
+        outputs[2] = output; // move (2), then attack
+        attacker.dna.actuators = [{ type: 'move' }, { type: 'attack' }];
+        (w as any).applyBrainOutputs(w.creatures.get(attacker.id)!, outputs);
+        const bystander = spawnAt(w, { x: 30, y: 30 }, 4); // same archetype as group 0
+        w.step();
+        const hit = w.events.find(e => e.type === 'creature_attacked' && e.targetId === victim.id);
+        // Same metabolism as the idle bystander, so the difference is the attack cost
+        return {
+          damage: hit?.type === 'creature_attacked' ? hit.damage : 0,
+          cost: (50 - attacker.energy) - (50 - bystander.energy),
+        };
+      };
+      expect(strike(0.75, true).damage).toBeCloseTo(7.5, 4);
+      expect(strike(0.75, true).cost).toBeCloseTo(1.0, 4);
+      expect(strike(1, true).damage).toBeCloseTo(15, 4);
+      expect(strike(0.75, false).damage).toBeCloseTo(15, 4);
+      expect(strike(0.75, false).cost).toBeCloseTo(2.0, 4);
+      expect(strike(0.4, true).damage).toBe(0);
+    });
+  });
+
+  describe('attack cone, damage falloff and health', () => {
+    function combatWorld(overrides: Partial<Record<string, unknown>> = {}): World {
+      const cfg = testConfig(overrides);
+      cfg.food.spawnRate = 0;
+      cfg.food.maxCount = 0;
+      resetInnovationCounter();
+      const w = new World(cfg);
+      w.initialize();
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    function spawnAt(w: World, pos: Vec2, groupId = 0): CreatureState {
+      const id = w.spawnCreature(createDefaultDNA(groupId, new PRNG(1)), pos, 0, 50);
+      return w.creatures.get(id)!.state;
+    }
+
+    function damageTo(w: World, target: CreatureState): number {
+      const hit = w.events.find(e => e.type === 'creature_attacked' && e.targetId === target.id);
+      return hit?.type === 'creature_attacked' ? hit.damage : 0;
+    }
+
+    const combat = { baseDamage: 15, attackRadius: 10, attackCooldown: 5 };
+
+    it('only targets inside the attack cone are hit', () => {
+      const w = combatWorld({ combat: { ...combat, attackArc: Math.PI / 2 } });
+      const attacker = spawnAt(w, { x: 100, y: 100 });
+      const ahead = spawnAt(w, { x: 106, y: 100 }, 1);
+      const aside = spawnAt(w, { x: 104, y: 103 }, 1); // ~37° off the heading
+      const beside = spawnAt(w, { x: 100, y: 106 }, 1);
+      const behind = spawnAt(w, { x: 94, y: 100 }, 1);
+      attacker.isAttacking = true;
+      w.step();
+      expect(damageTo(w, ahead)).toBeCloseTo(15, 5);
+      expect(damageTo(w, aside)).toBeCloseTo(15, 5);
+      expect(damageTo(w, beside)).toBe(0);
+      expect(damageTo(w, behind)).toBe(0);
+    });
+
+    it('hits in every direction without an attack arc', () => {
+      const w = combatWorld();
+      const attacker = spawnAt(w, { x: 100, y: 100 });
+      const behind = spawnAt(w, { x: 94, y: 100 }, 1);
+      attacker.isAttacking = true;
+      w.step();
+      expect(damageTo(w, behind)).toBeCloseTo(15, 5);
+    });
+
+    it('damage falls off per target', () => {
+      // 1 - distance / radius
+      const damageFalloff = {
+        op: 'sub', args: [
+          { op: 'lit', value: 1 },
+          { op: 'div', args: [{ op: 'var', name: 'attack.distance' }, { op: 'var', name: 'attack.radius' }] },
+        ],
+      };
+      const w = combatWorld({ combat: { ...combat, damageFalloff } });
+      const attacker = spawnAt(w, { x: 100, y: 100 });
+      const near = spawnAt(w, { x: 102, y: 100 }, 1);
+      const far = spawnAt(w, { x: 100, y: 92 }, 1);
+      attacker.isAttacking = true;
+      w.step();
+      expect(damageTo(w, near)).toBeCloseTo(12, 5);
+      expect(damageTo(w, far)).toBeCloseTo(3, 5);
+    });
+
+    it('attacks damage health instead of energy, and health regenerates for energy', () => {
+      const w = combatWorld({ health: { maxHealth: 40, regenRate: 2, regenCost: 0.5 } });
+      const attacker = spawnAt(w, { x: 95, y: 100 });
+      const victim = spawnAt(w, { x: 100, y: 100 }, 1);
+      const bystander = spawnAt(w, { x: 30, y: 30 }, 5); // same archetype as group 1
+      expect(victim.health).toBe(40);
+      attacker.isAttacking = true;
+      w.step();
+      expect(victim.health).toBeCloseTo(25, 5);
+      expect(victim.energy).toBeCloseTo(bystander.energy, 5);
+
+      attacker.isAttacking = false;
+      w.step();
+      expect(victim.health).toBeCloseTo(27, 5);
+      expect(bystander.energy - victim.energy).toBeCloseTo(1, 5);
+    });
+
+    it('a creature out of health is killed even with energy left', () => {
+      const w = combatWorld({ health: { maxHealth: 10, regenRate: 0 } });
+      const attacker = spawnAt(w, { x: 95, y: 100 });
+      const victim = spawnAt(w, { x: 100, y: 100 }, 1);
+      attacker.isAttacking = true;
+      w.step();
+      expect(w.creatures.has(victim.id)).toBe(false);
+      const died = w.events.find(e => e.type === 'creature_died' && e.creatureId === victim.id);
+      expect(died?.type === 'creature_died' && died.cause).toBe('killed');
+    });
+
+    it('creatures have no health without the health config', () => {
+      const w = combatWorld();
+      expect(spawnAt(w, { x: 100, y: 100 }).health).toBeUndefined();
+    });
+  });
+
+  describe('plants', () => {
+    const plantCfg = {
+      initialCount: 0, maxCount: 100, radius: 4,
+      initialNutrition: 10, maxNutrition: 50, growthRate: 1,
+      seedThreshold: 1000, seedChance: 0, seedRadius: 30, grazeAmount: 8,
+    };
+
+    function plantWorld(overrides: Partial<typeof plantCfg> = {}): World {
+      const cfg = testConfig({ plants: { ...plantCfg, ...overrides } });
+      cfg.food.spawnRate = 0;
+      cfg.energy.baseMetabolism = 0;
+      cfg.energy.moveCost = 0;
+      cfg.energy.turnCost = 0;
+      cfg.energy.visionCostPerRay = 0;
+      cfg.reproduction.energyThreshold = 1000;
+      const w = new World(cfg);
+      (w as any).brainTickAccumulator = -100;
+      return w;
+    }
+
+    it('initialize places initialCount plants', () => {
+      const w = plantWorld({ initialCount: 12 });
+      w.initialize();
+      expect(w.plants.size).toBe(12);
+      for (const p of w.getPlantStates()) expect(p.nutrition).toBe(10);
+    });
+
+    it('plants grow each tick up to maxNutrition', () => {
+      const w = plantWorld();
+      const id = w.spawnPlant({ x: 50, y: 50 });
+      for (let i = 0; i < 5; i++) w.step();
+      expect(w.plants.get(id)!.state.nutrition).toBe(15);
+      expect(w.plants.get(id)!.state.age).toBe(5);
+      for (let i = 0; i < 100; i++) w.step();
+      expect(w.plants.get(id)!.state.nutrition).toBe(50);
+    });
+
+    it('growthRate can be a formula over plant and world variables', () => {
+      const w = plantWorld({
+        growthRate: { op: 'mul', args: [{ op: 'var', name: 'plant.nutrition' }, { op: 'lit', value: 0.1 }] } as unknown as number,
+      });
+      const id = w.spawnPlant({ x: 50, y: 50 });
+      w.step();
+      expect(w.plants.get(id)!.state.nutrition).toBeCloseTo(11, 5);
+    });
+
+    it('mature plants seed nearby and pay for the seedling', () => {
+      const w = plantWorld({ seedThreshold: 10, seedChance: 1, growthRate: 0, initialNutrition: 10 });
+      const parentId = w.spawnPlant({ x: 100, y: 100 }, 40);
+      w.step();
+
+      expect(w.plants.size).toBe(2);
+      const child = w.getPlantStates().find(p => p.id !== parentId)!;
+      const d = torusDistance(child.position, { x: 100, y: 100 }, 200, 200);
+      expect(d).toBeGreaterThanOrEqual(8);
+      expect(d).toBeLessThanOrEqual(30);
+      expect(child.nutrition).toBe(10);
+      expect(w.plants.get(parentId)!.state.nutrition).toBe(30);
+      expect(w.events).toContainEqual(expect.objectContaining({ type: 'plant_spawned', plantId: child.id, parentId }));
+    });
+
+    it('seeding stops at maxCount', () => {
+      const w = plantWorld({ seedThreshold: 10, seedChance: 1, growthRate: 20, maxCount: 6 });
+      w.spawnPlant({ x: 100, y: 100 }, 50);
+      for (let i = 0; i < 50; i++) w.step();
+      expect(w.plants.size).toBe(6);
+    });
+
+    it('seeds fail on exhausted fertility', () => {
+      const cfg = testConfig({
+        plants: { ...plantCfg, seedThreshold: 10, seedChance: 1, growthRate: 20 },
+        foodDistribution: {
+          backgroundWeight: 1, hotspots: [], biomes: [],
+          fertility: { cellSize: 200, depletionPerFood: 1, regenRate: 0 },
+        },
+      });
+      cfg.food.spawnRate = 0;
+      const w = new World(cfg);
+      (w as any).foodField.deplete({ x: 0, y: 0 });
+      w.spawnPlant({ x: 100, y: 100 }, 50);
+      for (let i = 0; i < 20; i++) w.step();
+      expect(w.plants.size).toBe(1);
+    });
+
+    it('creatures graze plants partially', () => {
+      const w = plantWorld();
+      const plantId = w.spawnPlant({ x: 50, y: 50 }, 30);
+      const id = w.spawnCreature(createDefaultDNA(2, new PRNG(1)), { x: 52, y: 50 }, 0, 100);
+      w.creatures.get(id)!.state.isEating = true;
+      w.step();
+
+      // Plant grew by 1 first, then lost grazeAmount
+      expect(w.plants.get(plantId)!.state.nutrition).toBeCloseTo(23, 5);
+      expect(w.creatures.get(id)!.state.energy).toBeCloseTo(108, 5);
+      expect(w.events).toContainEqual(expect.objectContaining({ type: 'creature_grazed', creatureId: id, plantId, energyGained: 8 }));
+    });
+
+    it('a plant grazed to zero dies', () => {
+      const w = plantWorld({ growthRate: 0 });
+      const plantId = w.spawnPlant({ x: 50, y: 50 }, 5);
+      const id = w.spawnCreature(createDefaultDNA(2, new PRNG(1)), { x: 52, y: 50 }, 0, 100);
+      w.creatures.get(id)!.state.isEating = true;
+      w.step();
+
+      expect(w.plants.has(plantId)).toBe(false);
+      expect(w.creatures.get(id)!.state.energy).toBeCloseTo(105, 5);
+    });
+
+    it('food is eaten before grazing', () => {
+      const w = plantWorld({ growthRate: 0 });
+      const plantId = w.spawnPlant({ x: 50, y: 50 }, 30);
+      w.spawnFood({ x: 50, y: 50 });
+      const id = w.spawnCreature(createDefaultDNA(2, new PRNG(1)), { x: 50, y: 50 }, 0, 100);
+      w.creatures.get(id)!.state.isEating = true;
+      w.step();
+
+      expect(w.food.size).toBe(0);
+      expect(w.plants.get(plantId)!.state.nutrition).toBe(30);
+    });
+
+    it('rayVision reports plants as -1 on the food channel', () => {
+      const w = plantWorld();
+      const dna = createDefaultDNA(2, new PRNG(1));
+      // Single ray points at -fov/2; offset it back onto the heading
+      dna.sensors = [{ type: 'rayVision', rayCount: 1, fov: 0.1, maxDistance: 60, offsetAngle: 0.05 }];
+      const id = w.spawnCreature(dna, { x: 50, y: 50 }, 0, 100);
+      w.spawnPlant({ x: 80, y: 50 });
+      (w as any).updateSpatialHashes();
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      expect(inputs[2]).toBeCloseTo(26 / 60, 5);
+      expect(inputs[3]).toBe(-1);
+      expect(inputs[4]).toBe(0);
+    });
+
+    it('touch reports plants as -1 on the food channel', () => {
+      const w = plantWorld();
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [{ type: 'touch' }];
+      const id = w.spawnCreature(dna, { x: 50, y: 50 }, 0, 100);
+      w.spawnPlant({ x: 55, y: 50 });
+      (w as any).updateSpatialHashes();
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      expect(inputs[2]).toBe(-1);
+    });
+
+    it('vision and touch skip plants removed since the hashes were rebuilt', () => {
+      const w = plantWorld();
+      const dna = createDefaultDNA(2, new PRNG(1));
+      dna.sensors = [
+        { type: 'rayVision', rayCount: 1, fov: 0.1, maxDistance: 60, offsetAngle: 0.05 },
+        { type: 'touch' },
+      ];
+      const id = w.spawnCreature(dna, { x: 50, y: 50 }, 0, 100);
+      const plantId = w.spawnPlant({ x: 55, y: 50 });
+      (w as any).updateSpatialHashes();
+      w.plants.delete(plantId);
+      const inputs: Float32Array = (w as any).gatherSensorInputs(w.creatures.get(id)!);
+      expect(inputs[2]).toBe(1);
+      expect(inputs[3]).toBe(0);
+      expect(inputs[5]).toBe(0);
+    });
+
+    it('snapshot preserves plants', () => {
+      const w = plantWorld();
+      w.spawnPlant({ x: 30, y: 40 }, 22);
+      w.step();
+
+      const snap = JSON.parse(JSON.stringify(w.getSnapshot()));
+      const w2 = new World(testConfig());
+      w2.loadSnapshot(snap);
+      const [p] = w2.getPlantStates();
+      expect(p.position).toEqual({ x: 30, y: 40 });
+      expect(p.nutrition).toBe(23);
+      expect(p.age).toBe(1);
+    });
+  });
 });
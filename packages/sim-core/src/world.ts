@@ -1,18 +1,41 @@
 import { PRNG } from './prng.js';
-import { createDefaultDNA, countSensorInputs, countActuatorOutputs, mutateDNA, crossoverDNA, resetInnovationCounter, getInnovationCounter } from './dna.js';
+import { getSensorDefinition, getActuatorDefinition, type WorldView, type RayHit } from './registry.js';
+import {
+  createDefaultDNA, countSensorInputs, countActuatorOutputs, mutateDNA, crossoverDNA, inheritLearnedWeights,
+  resetInnovationCounter, getInnovationCounter, withActuator,
+} from './dna.js';
 import { buildBrainRuntime, brainForwardPass, hebbianUpdate, exportWeights, importWeights, type BrainRuntime } from './brain.js';
-import { wrapPosition, torusDistance, circlesOverlap, rayCircleIntersect } from './geometry.js';
+import {
+  rayCapsuleIntersect, rayPolygonIntersect, circleSegmentPushOut, circlePolygonPushOut,
+} from './geometry.js';
 import { SpatialHash } from './spatial-hash.js';
-import { resolveConfigValue, type ExprContext } from './expr.js';
+import { FoodField } from './food-field.js';
+import { PheromoneGrid } from './pheromone-grid.js';
+import { TerrainGrid } from './terrain-grid.js';
+import { Topology } from './topology.js';
+import { SCENERY_COLORS, dnaColor, groupColor } from './appearance.js';
+import { resolveConfigValue, isExpr, type ExprContext } from './expr.js';
 import type {
   WorldConfig,
   CreatureState,
   FoodItemState,
+  PlantState,
+  EggState,
   ObstacleState,
+  ObstacleShapeConfig,
   DNA,
+  RayVisionGene,
+  ColorVisionGene,
+  ColorGene,
+  Sex,
   SimEvent,
+  DeathCause,
   TickMetrics,
   WorldSnapshot,
+  FoodFieldState,
+  PheromoneGridState,
+  SprintConfig,
+  HealthConfig,
   Vec2,
 } from './types.js';
 
@@ -24,12 +47,21 @@ interface CreatureInternal {
   state: CreatureState;
   brainRuntime: BrainRuntime;
   lastEnergy: number; // for modulator computation
+  damageTaken: number; // attack + bite damage since the last brain tick (damageSense)
 }
 
 interface FoodInternal {
   state: FoodItemState;
 }
 
+interface PlantInternal {
+  state: PlantState;
+}
+
+interface EggInternal {
+  state: EggState;
+}
+
 interface ObstacleInternal {
   state: ObstacleState;
 }
@@ -40,9 +72,25 @@ interface ObstacleInternal {
 // Expression context builders
 // ============================================================
 
-/** Build an expression context from a creature's state. */
-function creatureCtx(s: CreatureState): ExprContext {
+/**
+ * Build the world-level expression context: time, day/night and seasonal
+ * phases (both in [0, 1)) and population density (creatures / maxCreatures).
+ */
+function worldCtx(tick: number, config: WorldConfig, creatureCount: number): ExprContext {
+  const dayLength = config.environment?.dayLength ?? 0;
+  const seasonLength = config.environment?.seasonLength ?? 0;
+  return {
+    'world.tick': tick,
+    'world.dayPhase': dayLength > 0 ? (tick % dayLength) / dayLength : 0,
+    'world.season': seasonLength > 0 ? (tick % seasonLength) / seasonLength : 0,
+    'world.populationDensity': creatureCount / config.simulation.maxCreatures,
+  };
+}
+
+/** Build an expression context from a creature's state (world variables included). */
+function creatureCtx(s: CreatureState, world: ExprContext): ExprContext {
   return {
+    ...world,
     'creature.radius': s.dna.body.radius,
     'creature.energy': s.energy,
     'creature.age': s.age,
@@ -59,6 +107,40 @@ function foodCtx(f: FoodItemState): ExprContext {
   };
 }
 
+/** Build an expression context from a plant (world variables included). */
+function plantCtx(p: PlantState, world: ExprContext): ExprContext {
+  return {
+    ...world,
+    'plant.nutrition': p.nutrition,
+    'plant.age': p.age,
+  };
+}
+
+// ============================================================
+// Diet
+// ============================================================
+
+/** Share of plant food nutrition a creature can digest (always 1 without `predation`). */
+function plantEfficiency(dna: DNA, config: WorldConfig): number {
+  return config.predation ? 1 - (dna.diet ?? 0) : 1;
+}
+
+/** Share of bitten-off meat a creature can digest. */
+function meatEfficiency(dna: DNA): number {
+  return dna.diet ?? 0;
+}
+
+// ============================================================
+// Obstacles
+// ============================================================
+
+/** Copy an obstacle so moving/eroding the live one never touches the copy. */
+function cloneObstacle(o: ObstacleState): ObstacleState {
+  const copy: ObstacleState = { ...o, position: { ...o.position } };
+  if (o.velocity) copy.velocity = { ...o.velocity };
+  return copy;
+}
+
 // ============================================================
 // World class
 // ============================================================
@@ -72,6 +154,8 @@ export class World {
   // Entity storage
   creatures: Map<number, CreatureInternal> = new Map();
   food: Map<number, FoodInternal> = new Map();
+  plants: Map<number, PlantInternal> = new Map();
+  eggs: Map<number, EggInternal> = new Map();
   obstacles: Map<number, ObstacleInternal> = new Map();
 
   // Event log (capped per tick, flushed after reading)
@@ -84,29 +168,86 @@ export class World {
   // Brain tick counter
   private brainTickAccumulator = 0;
 
+  // World-level expression variables, refreshed at the start of each tick
+  private worldVars: ExprContext = {};
+
+  // Spatial food distribution (null = uniform spawning)
+  private foodField: FoodField | null = null;
+
+  // Pheromone trails (null = disabled)
+  private pheromones: PheromoneGrid | null = null;
+
+  // Ground types (null = uniform plane)
+  private terrain: TerrainGrid | null = null;
+
+  // Edge behaviour (torus / cylinder / walled) for distances and position updates
+  private topology!: Topology;
+
   // Spatial hashes for fast neighbor queries
   private creatureHash!: SpatialHash<CreatureState>;
   private foodHash!: SpatialHash<FoodItemState>;
+  private plantHash!: SpatialHash<PlantState>;
+  private eggHash!: SpatialHash<EggState>;
   private obstacleHash!: SpatialHash<ObstacleState>;
   private readonly SPATIAL_CELL_SIZE = 100; // cells cover 100x100 units
 
+  // What sensor/actuator definitions see of this world (see registry.ts)
+  private readonly view: WorldView = this.createView();
+
   constructor(config: WorldConfig) {
     this.config = config;
     this.rng = new PRNG(config.simulation.seed);
+    this.refreshWorldVars();
+    this.rebuildTopology();
+    this.rebuildFoodField();
+    this.rebuildPheromones();
+    this.rebuildTerrain();
 
     // Init spatial hashes
     this.rebuildSpatialHashes();
   }
 
+  private rebuildTopology(): void {
+    const { width, height, boundary } = this.config.world;
+    this.topology = new Topology(width, height, boundary);
+  }
+
+  private rebuildFoodField(): void {
+    const dist = this.config.foodDistribution;
+    this.foodField = dist
+      ? new FoodField(dist, this.config.world.width, this.config.world.height, this.topology)
+      : null;
+  }
+
+  private rebuildPheromones(): void {
+    const cfg = this.config.pheromones;
+    this.pheromones = cfg
+      ? new PheromoneGrid(cfg, this.config.world.width, this.config.world.height, this.topology)
+      : null;
+  }
+
+  private rebuildTerrain(): void {
+    const cfg = this.config.terrain;
+    this.terrain = cfg
+      ? new TerrainGrid(cfg, this.config.world.width, this.config.world.height, this.config.simulation.seed)
+      : null;
+  }
+
   private rebuildSpatialHashes(): void {
     this.creatureHash = new SpatialHash<CreatureState>(
-      this.config.world.width, this.config.world.height, this.SPATIAL_CELL_SIZE,
+      this.config.world.width, this.config.world.height, this.SPATIAL_CELL_SIZE, this.topology,
     );
     this.foodHash = new SpatialHash<FoodItemState>(
-      this.config.world.width, this.config.world.height, this.SPATIAL_CELL_SIZE,
+      this.config.world.width, this.config.world.height, this.SPATIAL_CELL_SIZE, this.topology,
+    );
+    this.plantHash = new SpatialHash<PlantState>(
+      this.config.world.width, this.config.world.height, this.SPATIAL_CELL_SIZE, this.topology,
+    );
+    this.eggHash = new SpatialHash<EggState>(
+      this.config.world.width, this.config.world.height, this.SPATIAL_CELL_SIZE, this.topology,
     );
     this.obstacleHash = new SpatialHash<ObstacleState>(
-      this.config.world.width, this.config.world.height, this.SPATIAL_CELL_SIZE,
+      this.config.world.width, this.config.world.height, this.SPATIAL_CELL_SIZE, this.topology,
     );
   }
 
@@ -120,13 +261,31 @@ export class World {
     for (const [, f] of this.food) {
       this.foodHash.insert(f.state);
     }
+    this.plantHash.clear();
+    for (const [, p] of this.plants) {
+      this.plantHash.insert(p.state);
+    }
+    this.eggHash.clear();
+    for (const [, e] of this.eggs) {
+      this.eggHash.insert(e.state);
+    }
   }
 
-  /** Rebuild the obstacle spatial hash. Called once after obstacles are placed (they are static). */
+  /** Recompute world-level expression variables for the current tick. */
+  private refreshWorldVars(): void {
+    this.worldVars = worldCtx(this.tick, this.config, this.creatures.size);
+  }
+
+  /**
+   * Rebuild the obstacle spatial hash. Called after obstacles are placed or regenerated,
+   * on every tick that drifting obstacles move, and when an attack destroys one.
+   * Each obstacle is registered in every cell its bounding circle overlaps, so queries
+   * need no extra margin even for long walls.
+   */
   private rebuildObstacleHash(): void {
     this.obstacleHash.clear();
     for (const [, o] of this.obstacles) {
-      this.obstacleHash.insert(o.state);
+      this.obstacleHash.insertBounded(o.state, o.state.radius);
     }
   }
 
@@ -160,6 +319,7 @@ export class World {
           this.config.reproduction.mutationRate * 0.5,
           this.config.reproduction.mutationStrength * 0.5,
           this.rng,
+          { config: this.config },
         );
         // Force group diversity: override groupId so we always have competing groups.
         // Also set IFF for social groups (1, 3) so cooperation/competition mechanics work.
@@ -170,14 +330,42 @@ export class World {
       } else {
         dna = createDefaultDNA(groupId, this.rng);
       }
+      // With an actuator trigger, a population without the actuator could never breed
+      if (this.config.reproduction.trigger === 'actuator' && !dna.actuators.some(a => a.type === 'reproduce')) {
+        dna = withActuator(dna, { type: 'reproduce' }, this.rng);
+      }
       const pos = this.findClearPosition(this.config.creatureDefaults.radius);
       const angle = this.rng.range(0, Math.PI * 2);
       this.spawnCreature(dna, pos, angle, this.config.energy.initialEnergy);
     }
 
+    // Seed the initial epidemic
+    const disease = this.config.disease;
+    if (disease && disease.strains.length > 0) {
+      const ids = Array.from(this.creatures.keys());
+      for (let i = 0; i < Math.min(disease.initialInfected, ids.length); i++) {
+        const j = this.rng.int(i, ids.length - 1);
+        [ids[i], ids[j]] = [ids[j], ids[i]];
+        this.infect(this.creatures.get(ids[i])!.state, this.rng.int(0, disease.strains.length - 1), null);
+      }
+    }
+
     // Spawn initial food
+    const field = this.foodField;
     for (let i = 0; i < this.config.food.maxCount / 2; i++) {
-      this.spawnFood(this.findClearPosition(this.config.food.radius));
+      if (field) {
+        this.spawnFieldFood(() => field.samplePosition(this.rng));
+      } else {
+        this.spawnUniformFood();
+      }
+    }
+
+    // Spawn initial plants
+    const plantCfg = this.config.plants;
+    if (plantCfg) {
+      for (let i = 0; i < plantCfg.initialCount; i++) {
+        this.spawnPlant(this.findClearPosition(plantCfg.radius));
+      }
     }
 
     // Build initial spatial hashes
@@ -190,7 +378,7 @@ export class World {
 
   private spawnObstacles(): void {
     const cfg = this.config.obstacles;
-    if (!cfg || cfg.count <= 0) return;
+    if (!cfg) return;
 
     for (let i = 0; i < cfg.count; i++) {
       const id = this.nextEntityId++;
@@ -201,25 +389,141 @@ export class World {
         y: this.rng.range(radius, this.config.world.height - radius),
       };
       const state: ObstacleState = { id, position: pos, radius };
+      if (cfg.motion && this.rng.chance(cfg.motion.fraction)) {
+        const angle = this.rng.range(0, Math.PI * 2);
+        const speed = this.rng.range(cfg.motion.minSpeed, cfg.motion.maxSpeed);
+        state.velocity = { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed };
+      }
+      if (cfg.durability !== undefined) {
+        state.durability = cfg.durability;
+        state.maxDurability = cfg.durability;
+      }
+      this.obstacles.set(id, { state });
+    }
+
+    for (const shape of cfg.shapes ?? []) {
+      const id = this.nextEntityId++;
+      const state = this.buildObstacle(id, shape);
+      if (shape.velocity) state.velocity = { ...shape.velocity };
+      if (shape.durability !== undefined) {
+        state.durability = shape.durability;
+        state.maxDurability = shape.durability;
+      }
       this.obstacles.set(id, { state });
     }
   }
 
+  /**
+   * Drift moving obstacles (wrapping on periodic axes, bouncing off walls) and
+   * re-roll the whole layout every `regenerateInterval` ticks.
+   */
+  private stepObstacles(): void {
+    const cfg = this.config.obstacles;
+    if (!cfg) return;
+
+    const interval = cfg.regenerateInterval ?? 0;
+    if (interval > 0 && this.tick > 0 && this.tick % interval === 0) {
+      this.obstacles.clear();
+      this.spawnObstacles();
+      this.rebuildObstacleHash();
+      this.events.push({ type: 'obstacles_regenerated', tick: this.tick, count: this.obstacles.size });
+      return;
+    }
+
+    let moved = false;
+    for (const [, o] of this.obstacles) {
+      const v = o.state.velocity;
+      if (!v) continue;
+      const p = o.state.position;
+      const x = p.x + v.x;
+      const y = p.y + v.y;
+      p.x = x;
+      p.y = y;
+      if (this.topology.confine(p, o.state.radius)) {
+        if (!this.topology.wrapX && p.x !== x) v.x = -v.x;
+        if (!this.topology.wrapY && p.y !== y) v.y = -v.y;
+      }
+      moved = true;
+    }
+    if (moved) this.rebuildObstacleHash();
+  }
+
+  /** Erode destructible obstacles within `combat.attackRadius` of the attacker. */
+  private attackObstacles(s: CreatureState, damage: number): void {
+    const reach = this.config.combat.attackRadius;
+    let destroyed = false;
+    for (const obs of new Set(this.obstacleHash.queryRadius(s.position, reach))) {
+      if (obs.durability === undefined || !this.obstacleOverlaps(s.position, reach, obs)) continue;
+      obs.durability -= damage;
+      this.events.push({ type: 'obstacle_damaged', tick: this.tick, obstacleId: obs.id, attackerId: s.id, damage });
+      if (obs.durability <= 0) {
+        this.obstacles.delete(obs.id);
+        this.events.push({ type: 'obstacle_destroyed', tick: this.tick, obstacleId: obs.id, attackerId: s.id });
+        destroyed = true;
+      }
+    }
+    if (destroyed) this.rebuildObstacleHash();
+  }
+
+  /**
+   * Convert a configured shape (world coordinates) into an obstacle centered
+   * on its midpoint/centroid with a relative outline and a bounding radius.
+   */
+  private buildObstacle(id: number, shape: ObstacleShapeConfig): ObstacleState {
+    switch (shape.type) {
+      case 'circle': {
+        const position = { x: shape.x, y: shape.y };
+        this.topology.confine(position);
+        return { id, position, radius: shape.radius };
+      }
+      case 'segment': {
+        const halfWidth = (shape.thickness ?? 2) / 2;
+        const center = { x: (shape.from.x + shape.to.x) / 2, y: (shape.from.y + shape.to.y) / 2 };
+        const a = { x: shape.from.x - center.x, y: shape.from.y - center.y };
+        const b = { x: shape.to.x - center.x, y: shape.to.y - center.y };
+        this.topology.confine(center);
+        return {
+          id,
+          position: center,
+          radius: Math.sqrt(a.x * a.x + a.y * a.y) + halfWidth,
+          shape: { type: 'segment', a, b, halfWidth },
+        };
+      }
+      case 'polygon': {
+        const n = Math.max(1, shape.vertices.length);
+        const center = {
+          x: shape.vertices.reduce((sum, v) => sum + v.x, 0) / n,
+          y: shape.vertices.reduce((sum, v) => sum + v.y, 0) / n,
+        };
+        const vertices = shape.vertices.map(v => ({ x: v.x - center.x, y: v.y - center.y }));
+        this.topology.confine(center);
+        return {
+          id,
+          position: center,
+          radius: vertices.reduce((r, v) => Math.max(r, Math.sqrt(v.x * v.x + v.y * v.y)), 0),
+          shape: { type: 'polygon', vertices },
+        };
+      }
+    }
+  }
+
   /**
    * Find a random position that doesn't overlap with any obstacle.
    * Tries up to 20 times, then falls back to a random position.
+   * @param sample - Position generator (defaults to uniform over the world).
    */
-  private findClearPosition(entityRadius: number): Vec2 {
+  private findClearPosition(entityRadius: number, sample: () => Vec2 = () => this.randomPosition()): Vec2 {
     for (let attempt = 0; attempt < 20; attempt++) {
-      const pos: Vec2 = {
-        x: this.rng.range(0, this.config.world.width),
-        y: this.rng.range(0, this.config.world.height),
-      };
+      const pos = sample();
       if (!this.overlapsObstacle(pos, entityRadius)) {
         return pos;
       }
     }
     // Fallback — just return a random position
+    return sample();
+  }
+
+  private randomPosition(): Vec2 {
     return {
       x: this.rng.range(0, this.config.world.width),
       y: this.rng.range(0, this.config.world.height),
@@ -229,8 +533,7 @@ export class World {
   /** Check if a circle at `pos` with `radius` overlaps any obstacle. */
   private overlapsObstacle(pos: Vec2, radius: number): boolean {
     for (const [, o] of this.obstacles) {
-      if (circlesOverlap(pos, radius, o.state.position, o.state.radius,
-        this.config.world.width, this.config.world.height)) {
+      if (this.obstacleOverlaps(pos, radius, o.state)) {
         return true;
       }
     }
@@ -244,8 +547,44 @@ export class World {
   spawnCreature(dna: DNA, position: Vec2, angle: number, energy: number): number {
     const id = this.nextEntityId++;
 
+    if (this.config.reproduction.sexes && dna.sex === undefined) {
+      dna = { ...dna, sex: this.randomSex() };
+    }
+    if (this.config.predation && dna.diet === undefined) {
+      dna = { ...dna, diet: 0 };
+    }
+    const aging = this.config.aging;
+    if (aging && dna.lifespan === undefined) {
+      dna = { ...dna, lifespan: aging.defaultLifespan };
+    }
+    const disease = this.config.disease;
+    if (disease && dna.resistance === undefined) {
+      dna = { ...dna, resistance: disease.strains.map(() => 0) };
+    }
+    const appearance = this.config.appearance;
+    if (appearance && dna.color === undefined) {
+      dna = { ...dna, color: groupColor(dna.groupId, appearance.palette) };
+    }
+    const repro = this.config.reproduction;
+    if (repro.selfAdaptive && dna.mutation === undefined) {
+      dna = {
+        ...dna,
+        mutation: { weightRate: repro.mutationRate, structuralRate: repro.mutationRate, strength: repro.mutationStrength },
+      };
+    }
+
     const brainRuntime = buildBrainRuntime(dna.brain);
+    const state = this.newCreatureState(id, dna, position, angle, energy);
 
+    this.creatures.set(id, { state, brainRuntime, lastEnergy: energy, damageTaken: 0 });
+    this.events.push({ type: 'creature_born', tick: this.tick, creatureId: id, parentId: null });
+    this.tickBirths++;
+
+    return id;
+  }
+
+  /** State of a newborn creature: idle, unhurt, holding nothing. */
+  private newCreatureState(id: number, dna: DNA, position: Vec2, angle: number, energy: number): CreatureState {
     const state: CreatureState = {
       id,
       position: { x: position.x, y: position.y },
@@ -258,22 +597,36 @@ export class World {
       isBroadcasting: false,
       broadcastChannel: 0,
       isAttacking: false,
+      attackStrength: 1,
+      sprint: 0,
+      fatigue: 0,
+      shield: 0,
       isDonating: false,
       isEating: false,
+      isBiting: false,
+      isDepositing: false,
+      depositChannel: 0,
+      isAcceptingMate: true,
+      isReproducing: false,
+      reproduceShare: 0,
+      isGrabbing: false,
+      holding: null,
+      gestation: null,
+      infections: [],
+      immunities: [],
       velocity: 0,
       angularVelocity: 0,
     };
 
-    this.creatures.set(id, { state, brainRuntime, lastEnergy: energy });
-    this.events.push({ type: 'creature_born', tick: this.tick, creatureId: id, parentId: null });
-    this.tickBirths++;
-
-    return id;
+    if (this.config.health) {
+      state.health = resolveConfigValue(this.config.health.maxHealth, creatureCtx(state, this.worldVars));
+    }
+    return state;
   }
 
   spawnFood(position: Vec2, nutrition?: number): number {
     const id = this.nextEntityId++;
-    const n = nutrition ?? resolveConfigValue(this.config.food.nutritionValue, {});
+    const n = nutrition ?? resolveConfigValue(this.config.food.nutritionValue, this.worldVars);
 
     const state: FoodItemState = { id, position: { ...position }, nutrition: n };
     this.food.set(id, { state });
@@ -282,18 +635,29 @@ export class World {
     return id;
   }
 
+  spawnPlant(position: Vec2, nutrition?: number, parentId: number | null = null): number {
+    const id = this.nextEntityId++;
+    const n = nutrition ?? this.config.plants?.initialNutrition ?? 0;
+
+    const state: PlantState = { id, position: { ...position }, nutrition: n, age: 0 };
+    this.plants.set(id, { state });
+    this.events.push({ type: 'plant_spawned', tick: this.tick, plantId: id, parentId });
+
+    return id;
+  }
+
   // ============================================================
   // Remove entities
   // ============================================================
 
-  private removeCreature(id: number, cause: 'starvation' | 'killed'): void {
+  private removeCreature(id: number, cause: DeathCause): void {
     const c = this.creatures.get(id);
     if (!c) return;
 
-    // Drop food on death
+    // Drop food on death (an eaten carcass leaves nothing behind)
     const { foodDropRatio, foodDropMax } = this.config.death;
-    const nutritionVal = resolveConfigValue(this.config.food.nutritionValue, {});
-    const dropCount = Math.min(
+    const nutritionVal = resolveConfigValue(this.config.food.nutritionValue, this.worldVars);
+    const dropCount = cause === 'eaten' ? 0 : Math.min(
       foodDropMax,
       Math.floor(c.state.energy > 0 ? c.state.energy * foodDropRatio / nutritionVal : c.lastEnergy * foodDropRatio / nutritionVal)
     );
@@ -302,7 +666,7 @@ export class World {
         x: c.state.position.x + this.rng.range(-c.state.dna.body.radius * 2, c.state.dna.body.radius * 2),
         y: c.state.position.y + this.rng.range(-c.state.dna.body.radius * 2, c.state.dna.body.radius * 2),
       };
-      wrapPosition(offset, this.config.world.width, this.config.world.height);
+      this.topology.confine(offset);
       this.spawnFood(offset);
     }
 
@@ -323,9 +687,14 @@ export class World {
     this.events = [];
     this.tickBirths = 0;
     this.tickDeaths = 0;
+    this.refreshWorldVars();
 
-    // 1. Spawn food
+    // 1. Spawn food, grow plants, incubate eggs, diffuse and evaporate pheromones, move obstacles
     this.spawnFoodTick();
+    this.stepPlants();
+    this.stepEggs();
+    this.pheromones?.step();
+    this.stepObstacles();
 
     // 2. Run brains (at brain rate)
     this.brainTickAccumulator++;
@@ -337,7 +706,7 @@ export class World {
 
     // 3. Process each creature
     const toReproduce: number[] = [];
-    const toDie: { id: number; cause: 'starvation' | 'killed' }[] = [];
+    const toDie: { id: number; cause: DeathCause }[] = [];
 
     for (const [id, creature] of this.creatures) {
       const s = creature.state;
@@ -350,6 +719,7 @@ export class World {
       // Run brain or use random commands
       if (runBrain) {
         const inputs = this.gatherSensorInputs(creature);
+        creature.damageTaken = 0;
         const outputs = brainForwardPass(creature.brainRuntime, inputs);
         this.applyBrainOutputs(creature, outputs);
 
@@ -360,60 +730,86 @@ export class World {
         creature.lastEnergy = s.energy;
       }
 
-      // Apply kinematic movement
-      const speed = s.velocity;
+      // Apply kinematic movement (juveniles and rough terrain are slower)
+      const ground = this.terrain?.typeAt(s.position);
+      let speed = s.velocity * (ground?.speedFactor ?? 1);
+      if (this.isJuvenile(s)) speed *= cfg.development!.juvenileSpeedFactor;
+      if (cfg.sprint) speed *= this.sprintFactor(s, cfg.sprint);
       s.angle += s.angularVelocity;
       s.position.x += Math.cos(s.angle) * speed;
       s.position.y += Math.sin(s.angle) * speed;
-      wrapPosition(s.position, this.config.world.width, this.config.world.height);
+      this.topology.confine(s.position, s.dna.body.radius);
 
       // Resolve obstacle collisions — push creature out
       this.resolveObstacleCollision(s);
 
+      // Lay pheromone where the creature now stands
+      const grid = this.pheromones;
+      const pheromoneCfg = cfg.pheromones;
+      const depositing = s.isDepositing && grid !== null && pheromoneCfg !== undefined;
+      if (depositing) {
+        grid.deposit(s.depositChannel, s.position, pheromoneCfg.depositAmount);
+      }
+
       // Energy cost (config values may be expressions)
-      const cCtx = creatureCtx(s);
-      const rayCount = s.dna.sensors
-        .filter(se => se.type === 'rayVision')
-        .reduce((sum, se) => sum + (se.type === 'rayVision' ? se.rayCount : 0), 0);
+      const cCtx = creatureCtx(s, this.worldVars);
       const metabolismScale = Math.pow(s.dna.body.radius / cfg.creatureDefaults.radius, 2);
       const densityRatio = this.creatures.size / cfg.simulation.maxCreatures;
       const densityMultiplier = 1 + cfg.energy.densityMetabolismFactor * densityRatio;
-      const cost = resolveConfigValue(cfg.energy.baseMetabolism, cCtx) * metabolismScale * densityMultiplier
-        + resolveConfigValue(cfg.energy.moveCost, cCtx) * Math.abs(speed)
+      const senescence = this.senescenceMultiplier(s);
+      const cost = resolveConfigValue(cfg.energy.baseMetabolism, cCtx) * metabolismScale * densityMultiplier * senescence
+        + resolveConfigValue(cfg.energy.moveCost, cCtx) * Math.abs(speed) * (ground?.moveCostFactor ?? 1)
         + resolveConfigValue(cfg.energy.turnCost, cCtx) * Math.abs(s.angularVelocity)
-        + resolveConfigValue(cfg.energy.visionCostPerRay, cCtx) * rayCount
-        + (s.isBroadcasting ? resolveConfigValue(cfg.energy.broadcastCost, cCtx) : 0);
+        + this.moduleCost(s, cCtx)
+        + this.progressInfections(s, cCtx);
       s.energy -= cost;
+      if (cfg.health) this.regenerateHealth(s, cfg.health, cCtx);
+      if (cfg.sprint) this.updateFatigue(s, cfg.sprint);
 
       // Age
       s.age++;
 
       // Check death
       if (s.energy <= 0) {
-        toDie.push({ id, cause: 'starvation' });
+        toDie.push({ id, cause: s.infections.length > 0 ? 'disease' : 'starvation' });
+        continue;
+      }
+      if (s.age >= this.lifespan(s.dna)) {
+        toDie.push({ id, cause: 'old_age' });
         continue;
       }
 
-      // Check reproduction
-      if (s.energy >= resolveConfigValue(cfg.reproduction.energyThreshold, cCtx) && s.reproductionCooldown <= 0) {
+      // Check reproduction (adults only, not while carrying offspring)
+      const wantsOffspring = cfg.reproduction.trigger !== 'actuator' || s.isReproducing;
+      if (wantsOffspring && s.energy >= resolveConfigValue(cfg.reproduction.energyThreshold, cCtx) && s.reproductionCooldown <= 0
+        && s.gestation === null && !this.isJuvenile(s)) {
         if (this.creatures.size < cfg.simulation.maxCreatures) {
           toReproduce.push(id);
         }
       }
     }
 
+    // Carried food and towed creatures follow their carriers
+    this.moveCarried();
+
     // 4. Rebuild spatial hashes after positions are updated
     this.updateSpatialHashes();
 
-    // 6. Handle collisions (eating, attacking, donating)
+    // 5. Push overlapping creatures apart (re-hashes if anything moved)
+    this.resolveCreatureCollisions();
+
+    // 6. Handle collisions (eating, attacking, donating) and grab/release
     this.handleCollisions();
+    this.handleGrabs();
 
-    // 7. Process deaths
+    // 7. Process deaths, then spread disease among the survivors
     for (const { id, cause } of toDie) {
       this.removeCreature(id, cause);
     }
+    this.spreadInfections();
 
     // 8. Process reproduction (enforce maxCreatures strictly)
+    this.stepGestation();
     for (const parentId of toReproduce) {
       if (this.creatures.size >= this.config.simulation.maxCreatures) break;
       this.reproduce(parentId);
@@ -439,170 +835,203 @@ export class World {
     inputs[idx++] = this.rng.random();
 
     for (const sensor of s.dna.sensors) {
-      switch (sensor.type) {
-        case 'rayVision': {
-          const angleStep = sensor.rayCount > 1 ? sensor.fov / (sensor.rayCount - 1) : 0;
-          const startAngle = s.angle + sensor.offsetAngle - sensor.fov / 2;
-
-          for (let r = 0; r < sensor.rayCount; r++) {
-            const rayAngle = startAngle + angleStep * r;
-            const endX = s.position.x + Math.cos(rayAngle) * sensor.maxDistance;
-            const endY = s.position.y + Math.sin(rayAngle) * sensor.maxDistance;
-            const rayEnd: Vec2 = { x: endX, y: endY };
-
-            // Simple raycasting: check against nearby entities via spatial hash
-            let closestDist = 1.0;
-            let hitFood = 0;
-            let hitCreature = 0;
-            let hitIFF = 0;
-
-            // Check food (spatial hash query)
-            const nearbyFood = this.foodHash.queryRay(s.position, rayEnd, this.config.food.radius);
-            for (const foodState of nearbyFood) {
-              const d = rayCircleIntersect(
-                s.position, rayEnd,
-                foodState.position, this.config.food.radius
-              );
-              if (d !== null && d < closestDist) {
-                closestDist = d;
-                hitFood = 1;
-                hitCreature = 0;
-                hitIFF = 0;
-              }
-            }
-
-            // Check creatures (spatial hash query)
-            const nearbyCreatures = this.creatureHash.queryRay(s.position, rayEnd, this.config.creatureDefaults.radius * 2);
-            for (const otherState of nearbyCreatures) {
-              if (otherState.id === s.id) continue;
-              const d = rayCircleIntersect(
-                s.position, rayEnd,
-                otherState.position, otherState.dna.body.radius
-              );
-              if (d !== null && d < closestDist) {
-                closestDist = d;
-                hitFood = 0;
-                hitCreature = 1;
-                hitIFF = s.dna.hasIFF
-                  ? (otherState.dna.groupId === s.dna.groupId ? 1 : -1)
-                  : 0;
-              }
-            }
+      const def = getSensorDefinition(sensor.type);
+      if (!def) continue;
+      def.gather(sensor, s, this.view, inputs, idx);
+      idx += def.inputCount(sensor);
+    }
 
-            // Check obstacles (spatial hash query)
-            const maxObsRadius = this.config.obstacles?.maxRadius ?? 0;
-            if (maxObsRadius > 0) {
-              const nearbyObs = this.obstacleHash.queryRay(s.position, rayEnd, maxObsRadius);
-              for (const obsState of nearbyObs) {
-                const d = rayCircleIntersect(
-                  s.position, rayEnd,
-                  obsState.position, obsState.radius
-                );
-                if (d !== null && d < closestDist) {
-                  closestDist = d;
-                  hitFood = 0;
-                  hitCreature = 0;
-                  hitIFF = 0;
-                }
-              }
-            }
+    return inputs;
+  }
 
-            inputs[idx++] = closestDist;
-            inputs[idx++] = hitFood;
-            inputs[idx++] = hitCreature;
-            inputs[idx++] = hitIFF;
-          }
-          break;
-        }
+  /** Per-tick energy cost of a creature's sensors and actuators. */
+  private moduleCost(s: CreatureState, vars: ExprContext): number {
+    let cost = 0;
+    for (const sensor of s.dna.sensors) {
+      cost += getSensorDefinition(sensor.type)?.energyCost?.(sensor, s, this.view, vars) ?? 0;
+    }
+    for (const actuator of s.dna.actuators) {
+      cost += getActuatorDefinition(actuator.type)?.energyCost?.(actuator, s, this.view, vars) ?? 0;
+    }
+    return cost;
+  }
 
-        case 'touch': {
-          let touchFood = 0;
-          let touchCreature = 0;
-          let touchIFF = 0;
-
-          // Check collisions with food (spatial hash)
-          const touchFoodCandidates = this.foodHash.queryRadius(s.position, s.dna.body.radius + this.config.food.radius);
-          for (const foodState of touchFoodCandidates) {
-            if (circlesOverlap(s.position, s.dna.body.radius, foodState.position, this.config.food.radius, this.config.world.width, this.config.world.height)) {
-              touchFood = 1;
-              break;
-            }
-          }
+  private createView(): WorldView {
+    // Getters: topology, grids and hashes are rebuilt on initialize/loadSnapshot
+    const world = this;
+    return {
+      get config() { return world.config; },
+      get topology() { return world.topology; },
+      get rng() { return world.rng; },
+      get pheromones() { return world.pheromones; },
+      get terrain() { return world.terrain; },
+      creatureById: id => this.creatures.get(id)?.state,
+      creaturesNear: (pos, radius) => this.creatureHash.queryRadius(pos, radius),
+      foodNear: (pos, radius) => this.foodHash.queryRadius(pos, radius),
+      // Hashes are rebuilt once per tick: skip plants and eggs removed since
+      plantsNear: (pos, radius) => this.plantHash.queryRadius(pos, radius).filter(p => this.plants.has(p.id)),
+      eggsNear: (pos, radius) => this.eggHash.queryRadius(pos, radius).filter(e => this.eggs.has(e.id)),
+      obstaclesNear: (pos, radius) => this.obstacles.size > 0 ? this.obstacleHash.queryRadius(pos, radius) : [],
+      obstacleOverlaps: (pos, radius, obs) => this.obstacleOverlaps(pos, radius, obs),
+      visionRays: (s, sensor) => this.visionRays(s, sensor),
+      castRay: (s, rayEnd) => this.castRay(s, rayEnd),
+      seenColor: hit => this.seenColor(hit),
+      listen: s => this.listen(s),
+      lifespan: dna => this.lifespan(dna),
+      damageTaken: s => this.creatures.get(s.id)?.damageTaken ?? 0,
+      creatureVars: s => creatureCtx(s, this.worldVars),
+    };
+  }
 
-          // Check collisions with creatures (spatial hash)
-          const touchCreatureCandidates = this.creatureHash.queryRadius(s.position, s.dna.body.radius + this.config.creatureDefaults.radius * 2);
-          for (const otherState of touchCreatureCandidates) {
-            if (otherState.id === s.id) continue;
-            if (circlesOverlap(s.position, s.dna.body.radius, otherState.position, otherState.dna.body.radius, this.config.world.width, this.config.world.height)) {
-              touchCreature = 1;
-              touchIFF = s.dna.hasIFF
-                ? (otherState.dna.groupId === s.dna.groupId ? 1 : -1)
-                : 0;
-              break;
-            }
-          }
+  /** End points of a vision sensor's rays, fanned across its fov (unwrapped coordinates). */
+  private visionRays(s: CreatureState, sensor: RayVisionGene | ColorVisionGene): Vec2[] {
+    const rayRange = this.config.environment?.rayMaxDistance;
+    const maxDistance = rayRange === undefined
+      ? sensor.maxDistance
+      : Math.max(0, resolveConfigValue(rayRange, {
+        ...creatureCtx(s, this.worldVars),
+        'sensor.maxDistance': sensor.maxDistance,
+      }));
+    const angleStep = sensor.rayCount > 1 ? sensor.fov / (sensor.rayCount - 1) : 0;
+    const startAngle = s.angle + sensor.offsetAngle - sensor.fov / 2;
+
+    const ends: Vec2[] = [];
+    for (let r = 0; r < sensor.rayCount; r++) {
+      const rayAngle = startAngle + angleStep * r;
+      ends.push({
+        x: s.position.x + Math.cos(rayAngle) * maxDistance,
+        y: s.position.y + Math.sin(rayAngle) * maxDistance,
+      });
+    }
+    return ends;
+  }
 
-          // Obstacles block creature movement so touching is implicit via collision,
-          // but the touch sensor can detect it too (shows as touching "creature" with IFF=0)
-          if (touchCreature === 0) {
-            const touchObsMaxR = this.config.obstacles?.maxRadius ?? 0;
-            if (touchObsMaxR > 0) {
-              const touchObsCandidates = this.obstacleHash.queryRadius(s.position, s.dna.body.radius + touchObsMaxR);
-              for (const obsState of touchObsCandidates) {
-                if (circlesOverlap(s.position, s.dna.body.radius, obsState.position, obsState.radius, this.config.world.width, this.config.world.height)) {
-                  touchCreature = 1; // Obstacles feel like solid objects
-                  touchIFF = 0;
-                  break;
-                }
-              }
-            }
-          }
+  /** Cast one vision ray from `s` against everything visible (spatial hash queries). */
+  private castRay(s: CreatureState, rayEnd: Vec2): RayHit {
+    // World walls stop the ray (reads like an obstacle)
+    const wallDist = this.topology.rayWallIntersect(s.position, rayEnd);
+    const hit: RayHit = wallDist === null
+      ? { distance: 1.0, kind: 'none' }
+      : { distance: wallDist, kind: 'wall' };
+
+    // Food
+    const nearbyFood = this.foodHash.queryRay(s.position, rayEnd, this.config.food.radius);
+    for (const foodState of nearbyFood) {
+      const d = this.topology.rayCircleIntersect(s.position, rayEnd, foodState.position, this.config.food.radius);
+      if (d !== null && d < hit.distance) {
+        hit.distance = d;
+        hit.kind = 'food';
+      }
+    }
 
-          inputs[idx++] = touchFood;
-          inputs[idx++] = touchCreature;
-          inputs[idx++] = touchIFF;
-          break;
+    // Eggs
+    const eggRadius = this.config.development?.eggRadius ?? 0;
+    if (eggRadius > 0 && this.eggs.size > 0) {
+      const nearbyEggs = this.eggHash.queryRay(s.position, rayEnd, eggRadius);
+      for (const eggState of nearbyEggs) {
+        if (!this.eggs.has(eggState.id)) continue;
+        const d = this.topology.rayCircleIntersect(s.position, rayEnd, eggState.position, eggRadius);
+        if (d !== null && d < hit.distance) {
+          hit.distance = d;
+          hit.kind = 'egg';
         }
+      }
+    }
 
-        case 'energySense': {
-          inputs[idx++] = s.energy / this.config.energy.maxEnergy;
-          break;
+    // Plants
+    const plantRadius = this.config.plants?.radius ?? 0;
+    if (plantRadius > 0) {
+      const nearbyPlants = this.plantHash.queryRay(s.position, rayEnd, plantRadius);
+      for (const plantState of nearbyPlants) {
+        if (!this.plants.has(plantState.id)) continue;
+        const d = this.topology.rayCircleIntersect(s.position, rayEnd, plantState.position, plantRadius);
+        if (d !== null && d < hit.distance) {
+          hit.distance = d;
+          hit.kind = 'plant';
         }
+      }
+    }
 
-        case 'broadcastReceiver': {
-          const bcRadius = this.config.broadcast.broadcastRadius;
-          const nearbyBroadcasters = this.creatureHash.queryRadius(s.position, bcRadius);
-          for (const ch of sensor.channels) {
-            let bestStrength = 0;
-            let bestDirection = 0;
-
-            for (const otherState of nearbyBroadcasters) {
-              if (otherState.id === s.id) continue;
-              if (!otherState.isBroadcasting) continue;
-              if (otherState.broadcastChannel !== ch) continue;
-
-              const dist = torusDistance(s.position, otherState.position, this.config.world.width, this.config.world.height);
-              if (dist > bcRadius) continue;
-
-              const strength = 1 - dist / bcRadius;
-              if (strength > bestStrength) {
-                bestStrength = strength;
-                const dx = otherState.position.x - s.position.x;
-                const dy = otherState.position.y - s.position.y;
-                const dirAngle = Math.atan2(dy, dx) - s.angle;
-                bestDirection = Math.max(-1, Math.min(1, dirAngle / Math.PI));
-              }
-            }
+    // Creatures
+    const nearbyCreatures = this.creatureHash.queryRay(s.position, rayEnd, this.config.creatureDefaults.radius * 2);
+    for (const otherState of nearbyCreatures) {
+      if (otherState.id === s.id) continue;
+      const d = this.topology.rayCircleIntersect(s.position, rayEnd, otherState.position, otherState.dna.body.radius);
+      if (d !== null && d < hit.distance) {
+        hit.distance = d;
+        hit.kind = 'creature';
+        hit.creature = otherState;
+      }
+    }
 
-            inputs[idx++] = bestStrength;
-            inputs[idx++] = bestDirection;
-          }
-          break;
+    // Obstacles
+    if (this.obstacles.size > 0) {
+      const nearbyObs = this.obstacleHash.queryRay(s.position, rayEnd, 0);
+      for (const obsState of nearbyObs) {
+        const d = this.obstacleRayHit(s.position, rayEnd, obsState);
+        if (d !== null && d < hit.distance) {
+          hit.distance = d;
+          hit.kind = 'obstacle';
         }
       }
     }
 
-    return inputs;
+    if (hit.kind !== 'creature') hit.creature = undefined;
+    return hit;
+  }
+
+  /**
+   * Noise heard by `s`. Every other creature within `hearing.range` makes
+   * noise from its speed and attacking, scaled down by the attenuation.
+   * Intensity is the total (capped at 1); bearing is the loudness-weighted
+   * sine of the direction relative to the heading (-1 = left, +1 = right).
+   */
+  private listen(s: CreatureState): { intensity: number; bearing: number } {
+    const hearing = this.config.hearing;
+    if (!hearing) return { intensity: 0, bearing: 0 };
+
+    const ctx: ExprContext = { ...creatureCtx(s, this.worldVars), 'sound.range': hearing.range };
+    let total = 0;
+    let side = 0;
+    for (const other of this.creatureHash.queryRadius(s.position, hearing.range)) {
+      if (other.id === s.id) continue;
+      const noise = Math.abs(other.velocity) * hearing.speedNoise + (other.isAttacking ? hearing.attackNoise : 0);
+      if (noise <= 0) continue;
+      const d = this.topology.delta(s.position, other.position);
+      const dist = Math.sqrt(d.x * d.x + d.y * d.y);
+      if (dist > hearing.range) continue;
+
+      let falloff = 1 - dist / hearing.range;
+      if (hearing.attenuation !== undefined) {
+        ctx['sound.distance'] = dist;
+        ctx['sound.noise'] = noise;
+        falloff = resolveConfigValue(hearing.attenuation, ctx);
+      }
+      const heard = noise * Math.max(0, falloff);
+      if (heard <= 0) continue;
+      total += heard;
+      side += heard * Math.sin(Math.atan2(d.y, d.x) - s.angle);
+    }
+    return { intensity: Math.min(1, total), bearing: total > 0 ? side / total : 0 };
+  }
+
+  /** Colour of what a ray hit, as `colorVision` sees it (null = nothing). */
+  private seenColor(hit: RayHit): ColorGene | null {
+    switch (hit.kind) {
+      case 'creature':
+        return dnaColor(hit.creature!.dna, this.config.appearance?.palette);
+      case 'food':
+        return SCENERY_COLORS.food;
+      case 'egg':
+        return SCENERY_COLORS.egg;
+      case 'plant':
+        return SCENERY_COLORS.plant;
+      case 'obstacle':
+      case 'wall':
+        return SCENERY_COLORS.obstacle;
+      default:
+        return null;
+    }
   }
 
   // ============================================================
@@ -611,39 +1040,13 @@ export class World {
 
   private applyBrainOutputs(creature: CreatureInternal, outputs: Float32Array): void {
     const s = creature.state;
-    const cfg = this.config;
     let idx = 0;
 
     for (const actuator of s.dna.actuators) {
-      switch (actuator.type) {
-        case 'move': {
-          const forward = outputs[idx++] ?? 0;
-          const turn = outputs[idx++] ?? 0;
-          // forward: -1..1 → speed: -maxSpeed*0.5..maxSpeed
-          s.velocity = forward > 0
-            ? forward * cfg.creatureDefaults.maxSpeed
-            : forward * cfg.creatureDefaults.maxSpeed * 0.5;
-          s.angularVelocity = turn * cfg.creatureDefaults.maxTurnRate;
-          break;
-        }
-        case 'attack': {
-          s.isAttacking = (outputs[idx++] ?? 0) > 0.5;
-          break;
-        }
-        case 'eat': {
-          s.isEating = (outputs[idx++] ?? 0) > 0.5;
-          break;
-        }
-        case 'donate': {
-          s.isDonating = (outputs[idx++] ?? 0) > 0.5;
-          break;
-        }
-        case 'broadcast': {
-          s.isBroadcasting = (outputs[idx++] ?? 0) > 0.5;
-          s.broadcastChannel = actuator.channel;
-          break;
-        }
-      }
+      const def = getActuatorDefinition(actuator.type);
+      if (!def) continue;
+      def.apply(actuator, s, this.view, outputs, idx);
+      idx += def.outputCount(actuator);
     }
   }
 
@@ -654,6 +1057,7 @@ export class World {
   private handleCollisions(): void {
     const cfg = this.config;
     const foodToRemove: number[] = [];
+    const plantsToRemove: number[] = [];
     const eatRadius = cfg.creatureDefaults.radius * 2 + cfg.food.radius;
 
     for (const [, creature] of this.creatures) {
@@ -661,46 +1065,162 @@ export class World {
 
       // Eating — spatial hash query
       if (s.isEating) {
+        let ate = false;
         const nearbyFood = this.foodHash.queryRadius(s.position, eatRadius);
         for (const foodState of nearbyFood) {
-          if (circlesOverlap(s.position, s.dna.body.radius, foodState.position, cfg.food.radius, cfg.world.width, cfg.world.height)) {
-            const fCtx = { ...creatureCtx(s), ...foodCtx(foodState) };
-            const nutrition = resolveConfigValue(cfg.food.nutritionValue, fCtx);
+          if (this.topology.circlesOverlap(s.position, s.dna.body.radius, foodState.position, cfg.food.radius)) {
+            // Biome food keeps its own value; the rest follows the (live-editable) config
+            const fCtx = { ...creatureCtx(s, this.worldVars), ...foodCtx(foodState) };
+            const baseNutrition = foodState.biomeNutrition
+              ? foodState.nutrition
+              : resolveConfigValue(cfg.food.nutritionValue, fCtx);
+            const nutrition = baseNutrition * plantEfficiency(s.dna, cfg);
             s.energy = Math.min(cfg.energy.maxEnergy, s.energy + nutrition);
             foodToRemove.push(foodState.id);
+            this.foodField?.deplete(foodState.position);
             this.events.push({
               type: 'creature_ate', tick: this.tick,
               creatureId: s.id, foodId: foodState.id, energyGained: nutrition,
             });
+            ate = true;
             break; // One food per tick
           }
         }
+
+        // No food — eat an egg (IFF spares the group's own eggs)
+        const eggRadius = cfg.development?.eggRadius ?? 0;
+        if (!ate && eggRadius > 0) {
+          const nearbyEggs = this.eggHash.queryRadius(s.position, s.dna.body.radius + eggRadius);
+          for (const eggState of nearbyEggs) {
+            if (!this.eggs.has(eggState.id)) continue;
+            if (s.dna.hasIFF && eggState.dna.groupId === s.dna.groupId) continue;
+            if (this.topology.circlesOverlap(s.position, s.dna.body.radius, eggState.position, eggRadius)) {
+              const energyGained = eggState.energy;
+              s.energy = Math.min(cfg.energy.maxEnergy, s.energy + energyGained);
+              this.eggs.delete(eggState.id);
+              this.events.push({
+                type: 'egg_eaten', tick: this.tick,
+                creatureId: s.id, eggId: eggState.id, energyGained,
+              });
+              ate = true;
+              break; // One egg per tick
+            }
+          }
+        }
+
+        // Nothing eaten — graze a plant instead
+        const plantCfg = cfg.plants;
+        if (!ate && plantCfg) {
+          const nearbyPlants = this.plantHash.queryRadius(s.position, s.dna.body.radius + plantCfg.radius);
+          for (const plantState of nearbyPlants) {
+            if (plantState.nutrition <= 0) continue;
+            if (this.topology.circlesOverlap(s.position, s.dna.body.radius, plantState.position, plantCfg.radius)) {
+              const grazeAmount = resolveConfigValue(plantCfg.grazeAmount, creatureCtx(s, this.worldVars));
+              const taken = Math.max(0, Math.min(plantState.nutrition, grazeAmount));
+              const energyGained = taken * plantEfficiency(s.dna, cfg);
+              plantState.nutrition -= taken;
+              s.energy = Math.min(cfg.energy.maxEnergy, s.energy + energyGained);
+              if (plantState.nutrition <= 0) plantsToRemove.push(plantState.id);
+              this.events.push({
+                type: 'creature_grazed', tick: this.tick,
+                creatureId: s.id, plantId: plantState.id, energyGained,
+              });
+              break; // One plant per tick
+            }
+          }
+        }
       }
 
       // Attacking — spatial hash query
       if (s.isAttacking && s.attackCooldown <= 0) {
-        const atkCtx = creatureCtx(s);
-        s.energy -= resolveConfigValue(cfg.energy.attackCost, atkCtx);
+        const atkCtx = creatureCtx(s, this.worldVars);
+        s.energy -= resolveConfigValue(cfg.energy.attackCost, atkCtx) * s.attackStrength;
         s.attackCooldown = cfg.combat.attackCooldown;
+        const strikeDamage = resolveConfigValue(cfg.combat.baseDamage, atkCtx) * this.attackFactor(s) * s.attackStrength;
 
-        const nearbyTargets = this.creatureHash.queryRadius(s.position, cfg.combat.attackRadius);
+        const radius = cfg.combat.attackRadius;
+        const halfArc = (cfg.combat.attackArc ?? Math.PI * 2) / 2;
+        const nearbyTargets = this.creatureHash.queryRadius(s.position, radius);
         for (const targetState of nearbyTargets) {
           if (targetState.id === s.id) continue;
-          const dist = torusDistance(s.position, targetState.position, cfg.world.width, cfg.world.height);
-          if (dist <= cfg.combat.attackRadius) {
+          const d = this.topology.delta(s.position, targetState.position);
+          const dist = Math.sqrt(d.x * d.x + d.y * d.y);
+          if (dist <= radius) {
             // IFF check
             if (s.dna.hasIFF && targetState.dna.groupId === s.dna.groupId) continue;
-            const damage = resolveConfigValue(cfg.combat.baseDamage, atkCtx);
-            targetState.energy -= damage;
+            // Attack cone: angle between the heading and the target
+            const rel = Math.atan2(d.y, d.x) - s.angle;
+            const offAngle = dist > 0 ? Math.abs(Math.atan2(Math.sin(rel), Math.cos(rel))) : 0;
+            if (offAngle > halfArc) continue;
+
+            let falloff = 1;
+            if (cfg.combat.damageFalloff !== undefined) {
+              atkCtx['attack.distance'] = dist;
+              atkCtx['attack.radius'] = radius;
+              atkCtx['attack.angle'] = offAngle;
+              falloff = Math.max(0, resolveConfigValue(cfg.combat.damageFalloff, atkCtx));
+            }
+            const damage = strikeDamage * falloff * this.shieldFactor(targetState);
+            if (targetState.health !== undefined) {
+              targetState.health -= damage;
+            } else {
+              targetState.energy -= damage;
+            }
+            this.recordDamage(targetState, damage);
             this.events.push({
               type: 'creature_attacked', tick: this.tick,
               attackerId: s.id, targetId: targetState.id, damage,
             });
-            if (targetState.energy <= 0) {
+            if ((targetState.health ?? targetState.energy) <= 0) {
               this.removeCreature(targetState.id, 'killed');
             }
           }
         }
+
+        if (this.obstacles.size > 0) {
+          this.attackObstacles(s, strikeDamage);
+        }
+      }
+
+      // Biting — drain the nearest creature in reach
+      const predation = cfg.predation;
+      if (s.isBiting && predation && s.attackCooldown <= 0) {
+        const biteCtx = creatureCtx(s, this.worldVars);
+        s.energy -= resolveConfigValue(predation.biteCost, biteCtx);
+        s.attackCooldown = cfg.combat.attackCooldown;
+
+        let bestDist = predation.biteRadius;
+        let victim: CreatureState | null = null;
+        const nearbyPrey = this.creatureHash.queryRadius(s.position, predation.biteRadius);
+        for (const targetState of nearbyPrey) {
+          if (targetState.id === s.id) continue;
+          // Skip creatures already killed this tick
+          if (!this.creatures.has(targetState.id)) continue;
+          if (s.dna.hasIFF && targetState.dna.groupId === s.dna.groupId) continue;
+          const dist = this.topology.distance(s.position, targetState.position);
+          if (dist <= bestDist) {
+            bestDist = dist;
+            victim = targetState;
+          }
+        }
+
+        if (victim) {
+          const energyTaken = Math.max(0, Math.min(
+            victim.energy,
+            resolveConfigValue(predation.biteDamage, biteCtx) * this.attackFactor(s),
+          ));
+          const energyGained = energyTaken * predation.transferRatio * meatEfficiency(s.dna);
+          victim.energy -= energyTaken;
+          this.recordDamage(victim, energyTaken);
+          s.energy = Math.min(cfg.energy.maxEnergy, s.energy + energyGained);
+          this.events.push({
+            type: 'creature_bit', tick: this.tick,
+            attackerId: s.id, targetId: victim.id, energyTaken, energyGained,
+          });
+          if (victim.energy <= 0) {
+            this.removeCreature(victim.id, 'eaten');
+          }
+        }
       }
 
       // Donating — spatial hash query
@@ -712,7 +1232,7 @@ export class World {
         for (const otherState of nearbyAllies) {
           if (otherState.id === s.id) continue;
           if (otherState.dna.groupId !== s.dna.groupId) continue;
-          const dist = torusDistance(s.position, otherState.position, cfg.world.width, cfg.world.height);
+          const dist = this.topology.distance(s.position, otherState.position);
           if (dist < bestDist) {
             bestDist = dist;
             // Need the internal creature to modify energy
@@ -720,7 +1240,7 @@ export class World {
           }
         }
 
-        const donCtx = creatureCtx(s);
+        const donCtx = creatureCtx(s, this.worldVars);
         s.energy -= resolveConfigValue(cfg.donation.donateCost, donCtx);
         if (bestTarget) {
           const donateAmount = resolveConfigValue(cfg.donation.donateAmount, donCtx);
@@ -737,10 +1257,165 @@ export class World {
       }
     }
 
-    // Remove eaten food
+    // Remove eaten food and grazed-out plants
     for (const id of foodToRemove) {
       this.removeFood(id);
     }
+    for (const id of plantsToRemove) {
+      this.plants.delete(id);
+    }
+  }
+
+  // ============================================================
+  // Combat
+  // ============================================================
+
+  /** Share of attack damage that gets through a creature's shield. */
+  private shieldFactor(target: CreatureState): number {
+    const shield = this.config.shield;
+    if (!shield) return 1;
+    return 1 - target.shield * Math.max(0, Math.min(1, shield.maxReduction));
+  }
+
+  /**
+   * Regain health up to the maximum at `regenRate` per tick, paying
+   * `regenCost` energy per point regained.
+   */
+  private regenerateHealth(s: CreatureState, health: HealthConfig, ctx: ExprContext): void {
+    if (s.health === undefined) return;
+    const max = resolveConfigValue(health.maxHealth, ctx);
+    const gain = Math.max(0, Math.min(max - s.health, resolveConfigValue(health.regenRate, ctx)));
+    if (gain <= 0) return;
+    s.health += gain;
+    if (health.regenCost !== undefined) s.energy -= gain * resolveConfigValue(health.regenCost, ctx);
+  }
+
+  /** Accumulate attack/bite damage for the victim's next `damageSense` reading. */
+  private recordDamage(target: CreatureState, amount: number): void {
+    const internal = this.creatures.get(target.id);
+    if (internal) internal.damageTaken += amount;
+  }
+
+  // ============================================================
+  // Grab / carry
+  // ============================================================
+
+  /** The item `s` holds, or null (also clears a grip on something that is gone). */
+  private heldTarget(s: CreatureState): FoodItemState | CreatureState | null {
+    if (!s.holding) return null;
+    const target = s.holding.kind === 'food'
+      ? this.food.get(s.holding.id)?.state
+      : this.creatures.get(s.holding.id)?.state;
+    if (!target) s.holding = null;
+    return target ?? null;
+  }
+
+  /**
+   * Grab or release. A creature with its `grab` output on and empty hands
+   * picks up the nearest free food item in reach, or failing that tows the
+   * nearest smaller creature that is neither carrying nor carried. Turning
+   * the output off drops whatever it holds.
+   */
+  private handleGrabs(): void {
+    const grab = this.config.grab;
+    if (!grab) return;
+    const maxRatio = grab.maxCreatureRatio ?? 0.8;
+
+    // Items already held (by kind:id) and creatures being towed
+    const held = new Set<string>();
+    for (const [, c] of this.creatures) {
+      if (this.heldTarget(c.state)) held.add(`${c.state.holding!.kind}:${c.state.holding!.id}`);
+    }
+
+    for (const [, creature] of this.creatures) {
+      const s = creature.state;
+      if (!s.isGrabbing) {
+        if (s.holding) {
+          held.delete(`${s.holding.kind}:${s.holding.id}`);
+          this.events.push({
+            type: 'creature_released', tick: this.tick,
+            creatureId: s.id, kind: s.holding.kind, targetId: s.holding.id,
+          });
+          s.holding = null;
+        }
+        continue;
+      }
+      if (s.holding) continue;
+
+      const radius = s.dna.body.radius;
+      const foodReach = radius + this.config.food.radius + grab.reach;
+      let bestDist = Infinity;
+      for (const foodState of this.foodHash.queryRadius(s.position, foodReach)) {
+        if (!this.food.has(foodState.id) || held.has(`food:${foodState.id}`)) continue;
+        const dist = this.topology.distance(s.position, foodState.position);
+        if (dist <= foodReach && dist < bestDist) {
+          bestDist = dist;
+          s.holding = { kind: 'food', id: foodState.id };
+        }
+      }
+
+      // No food — tow a creature (no chains: carried creatures can't tow)
+      if (!s.holding && !held.has(`creature:${s.id}`)) {
+        const maxRadius = radius * maxRatio;
+        for (const other of this.creatureHash.queryRadius(s.position, radius + maxRadius + grab.reach)) {
+          if (other.id === s.id || !this.creatures.has(other.id)) continue;
+          if (other.dna.body.radius > maxRadius || other.holding || held.has(`creature:${other.id}`)) continue;
+          const dist = this.topology.distance(s.position, other.position);
+          if (dist <= radius + other.dna.body.radius + grab.reach && dist < bestDist) {
+            bestDist = dist;
+            s.holding = { kind: 'creature', id: other.id };
+          }
+        }
+      }
+
+      if (s.holding) {
+        held.add(`${s.holding.kind}:${s.holding.id}`);
+        this.events.push({
+          type: 'creature_grabbed', tick: this.tick,
+          creatureId: s.id, kind: s.holding.kind, targetId: s.holding.id,
+        });
+      }
+    }
+  }
+
+  /**
+   * Move held items with their carriers: food sits in the carrier's mouth
+   * (centred on its rim, so it stays edible), towed creatures trail behind.
+   */
+  private moveCarried(): void {
+    for (const [, creature] of this.creatures) {
+      const s = creature.state;
+      const target = this.heldTarget(s);
+      if (!target) continue;
+
+      const radius = s.dna.body.radius;
+      const towed = s.holding!.kind === 'creature' ? target as CreatureState : null;
+      const offset = towed ? -(radius + towed.dna.body.radius) : radius;
+      target.position.x = s.position.x + Math.cos(s.angle) * offset;
+      target.position.y = s.position.y + Math.sin(s.angle) * offset;
+      if (towed) {
+        this.topology.confine(towed.position, towed.dna.body.radius);
+        this.resolveObstacleCollision(towed);
+      } else {
+        this.topology.confine(target.position);
+      }
+    }
+  }
+
+  // ============================================================
+  // Movement
+  // ============================================================
+
+  /** Speed multiplier from sprinting (forward motion only), damped by fatigue. */
+  private sprintFactor(s: CreatureState, sprint: SprintConfig): number {
+    return s.velocity > 0 ? 1 + sprint.speedBoost * s.sprint * (1 - s.fatigue) : 1;
+  }
+
+  /** Fatigue builds while sprinting and recovers in proportion to how little the creature sprints. */
+  private updateFatigue(s: CreatureState, sprint: SprintConfig): void {
+    s.fatigue = Math.max(0, Math.min(1,
+      s.fatigue + s.sprint * sprint.fatigueRate - (1 - s.sprint) * sprint.recoveryRate,
+    ));
   }
 
   // ============================================================
@@ -748,34 +1423,136 @@ export class World {
   // ============================================================
 
   private resolveObstacleCollision(s: CreatureState): void {
-    const maxRadius = this.config.obstacles?.maxRadius ?? 0;
-    if (maxRadius === 0) return;
+    if (this.obstacles.size === 0) return;
 
-    const queryRadius = s.dna.body.radius + maxRadius;
-    const nearbyObstacles = this.obstacleHash.queryRadius(s.position, queryRadius);
+    // Obstacles spanning several cells come back once per cell
+    const nearbyObstacles = new Set(this.obstacleHash.queryRadius(s.position, s.dna.body.radius));
 
     for (const obs of nearbyObstacles) {
-      const dist = torusDistance(s.position, obs.position, this.config.world.width, this.config.world.height);
-      const minDist = s.dna.body.radius + obs.radius;
-      if (dist < minDist && dist > 0.001) {
-        // Push creature out along the vector from obstacle center to creature
-        const pushDist = minDist - dist;
-        // Use simple dx/dy (works for non-wrapping short distances)
-        let dx = s.position.x - obs.position.x;
-        let dy = s.position.y - obs.position.y;
-        // Handle torus wrapping for the push direction
-        if (dx > this.config.world.width / 2) dx -= this.config.world.width;
-        else if (dx < -this.config.world.width / 2) dx += this.config.world.width;
-        if (dy > this.config.world.height / 2) dy -= this.config.world.height;
-        else if (dy < -this.config.world.height / 2) dy += this.config.world.height;
-        const len = Math.sqrt(dx * dx + dy * dy);
-        if (len > 0.001) {
-          s.position.x += (dx / len) * pushDist;
-          s.position.y += (dy / len) * pushDist;
-          wrapPosition(s.position, this.config.world.width, this.config.world.height);
+      const push = this.obstaclePushOut(s.position, s.dna.body.radius, obs);
+      if (push) {
+        s.position.x += push.x;
+        s.position.y += push.y;
+        this.topology.confine(s.position, s.dna.body.radius);
+      }
+    }
+  }
+
+  /**
+   * Displacement that moves a circle at `pos` off an obstacle, or null if they
+   * don't overlap. Shapes are tested in the obstacle's local frame, using the
+   * shortest torus offset, so obstacles work across the world edges.
+   */
+  private obstaclePushOut(pos: Vec2, radius: number, obs: ObstacleState): Vec2 | null {
+    const local = this.topology.delta(obs.position, pos);
+    switch (obs.shape?.type) {
+      case 'segment':
+        return circleSegmentPushOut(local, radius, obs.shape.a, obs.shape.b, obs.shape.halfWidth);
+      case 'polygon':
+        return circlePolygonPushOut(local, radius, obs.shape.vertices);
+      default: {
+        // Push out along the vector from the obstacle center to the creature
+        const dist = Math.sqrt(local.x * local.x + local.y * local.y);
+        const minDist = radius + obs.radius;
+        if (dist >= minDist || dist <= 0.001) return null;
+        return { x: (local.x / dist) * (minDist - dist), y: (local.y / dist) * (minDist - dist) };
+      }
+    }
+  }
+
+  /** Whether a circle at `pos` overlaps an obstacle of any shape. */
+  private obstacleOverlaps(pos: Vec2, radius: number, obs: ObstacleState): boolean {
+    if (!obs.shape) {
+      return this.topology.circlesOverlap(pos, radius, obs.position, obs.radius);
+    }
+    return this.obstaclePushOut(pos, radius, obs) !== null;
+  }
+
+  /** Ray hit against an obstacle: normalized distance [0,1] along the ray, or null. */
+  private obstacleRayHit(rayStart: Vec2, rayEnd: Vec2, obs: ObstacleState): number | null {
+    if (!obs.shape) {
+      return this.topology.rayCircleIntersect(rayStart, rayEnd, obs.position, obs.radius);
+    }
+    // Local frame of the obstacle copy nearest the ray's midpoint
+    const mid = { x: (rayStart.x + rayEnd.x) / 2, y: (rayStart.y + rayEnd.y) / 2 };
+    const origin = this.topology.nearestImage(obs.position, mid);
+    const start = { x: rayStart.x - origin.x, y: rayStart.y - origin.y };
+    const end = { x: rayEnd.x - origin.x, y: rayEnd.y - origin.y };
+    return obs.shape.type === 'segment'
+      ? rayCapsuleIntersect(start, end, obs.shape.a, obs.shape.b, obs.shape.halfWidth)
+      : rayPolygonIntersect(start, end, obs.shape.vertices);
+  }
+
+  // ============================================================
+  // Creature–creature collision resolution
+  // ============================================================
+
+  /**
+   * Pairwise push-out between overlapping creatures. Each pair is separated
+   * along the line between centers; the lighter body moves further
+   * (mass = radius ^ massExponent). Creatures pushed into obstacles are
+   * resolved against them again afterwards.
+   */
+  private resolveCreatureCollisions(): void {
+    const physics = this.config.physics;
+    if (!physics || physics.collisionMode === 'none') return;
+
+    const strength = physics.collisionMode === 'soft'
+      ? Math.max(0, Math.min(1, physics.stiffness))
+      : 1;
+    if (strength === 0) return;
+
+    const maxOtherRadius = this.config.creatureDefaults.radius * 2;
+    let moved = false;
+
+    for (const [, creature] of this.creatures) {
+      const a = creature.state;
+      const ra = a.dna.body.radius;
+      const massA = Math.pow(ra, physics.massExponent);
+      const candidates = this.creatureHash.queryRadius(a.position, ra + maxOtherRadius);
+
+      for (const b of candidates) {
+        // Each unordered pair is handled once, by the lower id
+        if (b.id <= a.id) continue;
+        const rb = b.dna.body.radius;
+        const minDist = ra + rb;
+        const delta = this.topology.delta(a.position, b.position);
+        const dist = Math.sqrt(delta.x * delta.x + delta.y * delta.y);
+        if (dist >= minDist) continue;
+
+        // Coincident centers: pick a random separation axis
+        let nx: number;
+        let ny: number;
+        if (dist > 0.001) {
+          nx = delta.x / dist;
+          ny = delta.y / dist;
+        } else {
+          const angle = this.rng.range(0, Math.PI * 2);
+          nx = Math.cos(angle);
+          ny = Math.sin(angle);
         }
+
+        const massB = Math.pow(rb, physics.massExponent);
+        const push = (minDist - dist) * strength;
+        const shareA = massB / (massA + massB);
+        const shareB = 1 - shareA;
+
+        a.position.x -= nx * push * shareA;
+        a.position.y -= ny * push * shareA;
+        b.position.x += nx * push * shareB;
+        b.position.y += ny * push * shareB;
+        this.topology.confine(a.position, ra);
+        this.topology.confine(b.position, rb);
+        moved = true;
       }
     }
+
+    if (!moved) return;
+
+    for (const [, creature] of this.creatures) {
+      this.resolveObstacleCollision(creature.state);
+    }
+    this.updateSpatialHashes();
   }
 
   // ============================================================
@@ -793,9 +1570,12 @@ export class World {
     const crossoverRate = cfg.reproduction.crossoverRate ?? 0;
     let mate: CreatureInternal | null = null;
 
-    if (crossoverRate > 0 && this.rng.chance(crossoverRate)) {
+    const sexes = cfg.reproduction.sexes ?? false;
+
+    // With sexes on, a parent that rejects mating this tick looks for no one
+    if (crossoverRate > 0 && this.rng.chance(crossoverRate) && (!sexes || s.isAcceptingMate)) {
       // Search for a compatible nearby mate (same group, also has enough energy)
-      const mateSearchRadius = cfg.creatureDefaults.radius * 20;
+      const mateSearchRadius = cfg.reproduction.mateSearchRadius ?? cfg.creatureDefaults.radius * 20;
       const nearbyCandidates = this.creatureHash.queryRadius(s.position, mateSearchRadius);
       let bestDist = mateSearchRadius;
 
@@ -805,8 +1585,10 @@ export class World {
         if (candidateState.dna.groupId !== s.dna.groupId) continue;
         // Mate needs some energy (but not necessarily above reproduction threshold)
         if (candidateState.energy < cfg.energy.initialEnergy * 0.3) continue;
+        // Sexual selection: opposite sex, and the candidate must accept
+        if (sexes && (candidateState.dna.sex === s.dna.sex || !candidateState.isAcceptingMate)) continue;
 
-        const dist = torusDistance(s.position, candidateState.position, cfg.world.width, cfg.world.height);
+        const dist = this.topology.distance(s.position, candidateState.position);
         if (dist < bestDist) {
           bestDist = dist;
           mate = this.creatures.get(candidateState.id) ?? null;
@@ -818,8 +1600,11 @@ export class World {
     let childDNA: DNA;
 
     if (mate) {
+      // Recorded now: an egg or pregnancy may never produce a child
+      this.events.push({ type: 'creature_mated', tick: this.tick, parentId, mateId: mate.state.id });
+
       // Sexual reproduction: both parents contribute energy
-      const parentShare = s.energy * cfg.reproduction.offspringEnergyShare;
+      const parentShare = s.energy * this.offspringShare(s);
       const mateShare = mate.state.energy * cfg.reproduction.offspringEnergyShare * 0.5;
       s.energy -= parentShare;
       mate.state.energy -= mateShare;
@@ -831,52 +1616,399 @@ export class World {
       const fitness2 = mate.state.age * (mate.state.energy / cfg.energy.maxEnergy);
 
       // Crossover then mutate
-      childDNA = crossoverDNA(s.dna, mate.state.dna, fitness1, fitness2, this.rng);
-      childDNA = mutateDNA(childDNA, cfg.reproduction.mutationRate, cfg.reproduction.mutationStrength, this.rng);
+      childDNA = crossoverDNA(this.heritableDNA(parent), this.heritableDNA(mate), fitness1, fitness2, this.rng);
+      childDNA = mutateDNA(
+        childDNA, cfg.reproduction.mutationRate, cfg.reproduction.mutationStrength, this.rng,
+        { config: cfg, selfAdaptive: cfg.reproduction.selfAdaptive },
+      );
     } else {
       // Asexual reproduction (original behavior)
-      childEnergy = s.energy * cfg.reproduction.offspringEnergyShare;
+      childEnergy = s.energy * this.offspringShare(s);
       s.energy -= childEnergy;
 
       childDNA = mutateDNA(
-        s.dna,
+        this.heritableDNA(parent),
         cfg.reproduction.mutationRate,
         cfg.reproduction.mutationStrength,
-        this.rng
+        this.rng,
+        { config: cfg, selfAdaptive: cfg.reproduction.selfAdaptive },
       );
     }
 
     s.reproductionCooldown = cfg.reproduction.cooldown;
 
-    // Child position: near parent
+    // Sex is never inherited
+    if (sexes) {
+      childDNA.sex = this.randomSex();
+    }
+
+    const mateId = mate ? mate.state.id : null;
+    const dev = cfg.development;
+
+    // Gestation: the parent carries the (already paid-for) offspring
+    if (dev?.mode === 'gestation') {
+      s.gestation = { ticksLeft: dev.gestationTime, dna: childDNA, energy: childEnergy, mateId };
+      return;
+    }
+
+    const childPos = this.offspringPosition(s);
+    if (dev?.mode === 'egg') {
+      this.layEgg(childPos, childDNA, childEnergy, parentId, mateId);
+      return;
+    }
+
+    this.deliverOffspring(childDNA, childPos, childEnergy, parentId, mateId);
+  }
+
+  /** The genome a creature passes on, with learned weights per `reproduction.inheritance`. */
+  private heritableDNA(creature: CreatureInternal): DNA {
+    return inheritLearnedWeights(
+      creature.state.dna, creature.brainRuntime.connWeight, this.config.reproduction, this.rng,
+    );
+  }
+
+  /**
+   * Share of the parent's energy given to its offspring: the `reproduce`
+   * actuator's choice in actuator mode, else `offspringEnergyShare`.
+   */
+  private offspringShare(s: CreatureState): number {
+    const repro = this.config.reproduction;
+    if (repro.trigger !== 'actuator') return repro.offspringEnergyShare;
+    const min = repro.minOffspringShare ?? 0.1;
+    const max = repro.maxOffspringShare ?? 0.9;
+    return min + (max - min) * s.reproduceShare;
+  }
+
+  /** A random spot just outside the parent's body. */
+  private offspringPosition(s: CreatureState): Vec2 {
     const offsetAngle = this.rng.range(0, Math.PI * 2);
     const offsetDist = s.dna.body.radius * 2.5;
-    const childPos: Vec2 = {
+    const pos: Vec2 = {
       x: s.position.x + Math.cos(offsetAngle) * offsetDist,
       y: s.position.y + Math.sin(offsetAngle) * offsetDist,
     };
-    wrapPosition(childPos, this.config.world.width, this.config.world.height);
+    this.topology.confine(pos);
+    return pos;
+  }
 
-    const childId = this.spawnCreature(childDNA, childPos, this.rng.range(0, Math.PI * 2), childEnergy);
+  /** Spawn a child and record its parent (and mate, for sexual reproduction). */
+  private deliverOffspring(dna: DNA, position: Vec2, energy: number, parentId: number, mateId: number | null): number {
+    const childId = this.spawnCreature(dna, position, this.rng.range(0, Math.PI * 2), energy);
     // Fix the event to record parent
     const lastEvent = this.events[this.events.length - 1];
     if (lastEvent && lastEvent.type === 'creature_born') {
       lastEvent.parentId = parentId;
+      if (mateId !== null) lastEvent.mateId = mateId;
+    }
+    return childId;
+  }
+
+  /** Advance pregnancies; due offspring are born next to the parent (if there is room). */
+  private stepGestation(): void {
+    const due: CreatureState[] = [];
+    for (const [, c] of this.creatures) {
+      const g = c.state.gestation;
+      if (!g) continue;
+      if (g.ticksLeft > 0) g.ticksLeft--;
+      if (g.ticksLeft <= 0) due.push(c.state);
+    }
+
+    for (const s of due) {
+      if (this.creatures.size >= this.config.simulation.maxCreatures) break;
+      const g = s.gestation!;
+      s.gestation = null;
+      this.deliverOffspring(g.dna, this.offspringPosition(s), g.energy, s.id, g.mateId);
     }
   }
 
+  private randomSex(): Sex {
+    return this.rng.chance(0.5) ? 'male' : 'female';
+  }
+
+  // ============================================================
+  // Eggs and juveniles
+  // ============================================================
+
+  layEgg(position: Vec2, dna: DNA, energy: number, parentId: number, mateId: number | null = null): number {
+    const id = this.nextEntityId++;
+    const state: EggState = {
+      id,
+      position: { ...position },
+      energy,
+      dna,
+      parentId,
+      mateId,
+      incubation: this.config.development?.incubationTime ?? 0,
+    };
+    this.eggs.set(id, { state });
+    this.events.push({ type: 'egg_laid', tick: this.tick, eggId: id, parentId });
+    return id;
+  }
+
+  /** Count down incubation and hatch due eggs (if there is room). */
+  private stepEggs(): void {
+    for (const [id, egg] of this.eggs) {
+      const e = egg.state;
+      if (e.incubation > 0) e.incubation--;
+      if (e.incubation > 0) continue;
+      if (this.creatures.size >= this.config.simulation.maxCreatures) continue;
+
+      this.eggs.delete(id);
+      const creatureId = this.deliverOffspring(e.dna, e.position, e.energy, e.parentId, e.mateId);
+      this.events.push({ type: 'egg_hatched', tick: this.tick, eggId: id, creatureId });
+    }
+  }
+
+  private isJuvenile(s: CreatureState): boolean {
+    const dev = this.config.development;
+    return dev !== undefined && s.age < dev.maturityAge;
+  }
+
+  /** Damage multiplier for attacks and bites. */
+  private attackFactor(s: CreatureState): number {
+    return this.isJuvenile(s) ? this.config.development!.juvenileAttackFactor : 1;
+  }
+
+  // ============================================================
+  // Aging
+  // ============================================================
+
+  /** Effective lifespan in ticks (Infinity when aging is off). */
+  private lifespan(dna: DNA): number {
+    const aging = this.config.aging;
+    if (!aging) return Infinity;
+    const value = dna.lifespan ?? aging.defaultLifespan;
+    return Math.max(aging.minLifespan, Math.min(aging.maxLifespan, value));
+  }
+
+  /** Base metabolism multiplier: 1 at birth, `1 + senescenceMetabolism` at the end of life. */
+  private senescenceMultiplier(s: CreatureState): number {
+    const aging = this.config.aging;
+    if (!aging) return 1;
+    return 1 + aging.senescenceMetabolism * Math.min(1, s.age / this.lifespan(s.dna));
+  }
+
+  // ============================================================
+  // Disease
+  // ============================================================
+
+  /**
+   * Per-tick disease cost for one creature: drain of every carried strain plus
+   * resistance upkeep. Also counts infections down to recovery (which grants
+   * immunity) and lets old immunity wear off.
+   */
+  private progressInfections(s: CreatureState, ctx: ExprContext): number {
+    const disease = this.config.disease;
+    if (!disease) return 0;
+
+    let cost = 0;
+    for (const r of s.dna.resistance ?? []) cost += r * disease.resistanceCost;
+
+    for (const imm of s.immunities) imm.ticksLeft--;
+    if (s.immunities.length > 0) {
+      s.immunities = s.immunities.filter(imm => imm.ticksLeft > 0);
+    }
+    if (s.infections.length === 0) return cost;
+
+    const active: typeof s.infections = [];
+    for (const inf of s.infections) {
+      const strain = disease.strains[inf.strain];
+      if (strain) cost += resolveConfigValue(strain.energyDrain, ctx);
+      inf.ticksLeft--;
+      if (inf.ticksLeft > 0 && strain) {
+        active.push(inf);
+      } else {
+        if (disease.immunityDuration > 0) {
+          s.immunities.push({ strain: inf.strain, ticksLeft: disease.immunityDuration });
+        }
+        this.events.push({ type: 'creature_recovered', tick: this.tick, creatureId: s.id, strain: inf.strain });
+      }
+    }
+    s.infections = active;
+    return cost;
+  }
+
+  /**
+   * Transmit carried strains to susceptible creatures within
+   * `transmissionRadius`, plus rare spontaneous infections. New infections
+   * are collected first so a creature infected this tick does not pass it on
+   * in the same tick.
+   */
+  private spreadInfections(): void {
+    const disease = this.config.disease;
+    if (!disease || disease.strains.length === 0) return;
+    const cfg = this.config;
+
+    const newInfections: { target: CreatureState; strain: number; sourceId: number | null }[] = [];
+    for (const [, creature] of this.creatures) {
+      const s = creature.state;
+      for (const inf of s.infections) {
+        const strain = disease.strains[inf.strain];
+        if (!strain) continue;
+        const nearby = this.creatureHash.queryRadius(s.position, disease.transmissionRadius);
+        for (const other of nearby) {
+          if (other.id === s.id || !this.creatures.has(other.id)) continue;
+          if (!this.isSusceptible(other, inf.strain)) continue;
+          const dist = this.topology.distance(s.position, other.position);
+          if (dist > disease.transmissionRadius) continue;
+          const resistance = other.dna.resistance?.[inf.strain] ?? 0;
+          if (this.rng.chance(strain.transmissionChance * (1 - resistance))) {
+            newInfections.push({ target: other, strain: inf.strain, sourceId: s.id });
+          }
+        }
+      }
+    }
+
+    if (disease.spontaneousRate > 0 && this.creatures.size > 0 && this.rng.chance(disease.spontaneousRate)) {
+      const ids = Array.from(this.creatures.keys());
+      const target = this.creatures.get(ids[this.rng.int(0, ids.length - 1)])!.state;
+      newInfections.push({ target, strain: this.rng.int(0, disease.strains.length - 1), sourceId: null });
+    }
+
+    for (const { target, strain, sourceId } of newInfections) {
+      if (this.isSusceptible(target, strain)) this.infect(target, strain, sourceId);
+    }
+  }
+
+  private isSusceptible(s: CreatureState, strain: number): boolean {
+    return !s.infections.some(inf => inf.strain === strain)
+      && !s.immunities.some(imm => imm.strain === strain);
+  }
+
+  /** Infect a creature with a strain (no-op for unknown strains). */
+  infect(s: CreatureState, strain: number, sourceId: number | null = null): void {
+    const cfg = this.config.disease?.strains[strain];
+    if (!cfg) return;
+    s.infections.push({ strain, ticksLeft: cfg.duration });
+    this.events.push({ type: 'creature_infected', tick: this.tick, creatureId: s.id, strain, sourceId });
+  }
+
   // ============================================================
   // Food spawning
   // ============================================================
 
   private spawnFoodTick(): void {
     const cfg = this.config;
+    const field = this.foodField;
+    field?.step();
     if (this.food.size >= cfg.food.maxCount) return;
 
-    for (let i = 0; i < cfg.food.spawnRate; i++) {
+    // Plain-number rates spawn ceil(rate) items, as always; expression rates
+    // (day/night, seasons) vary smoothly, so their fraction is rounded stochastically
+    const rate = resolveConfigValue(cfg.food.spawnRate, this.worldVars);
+    const count = isExpr(cfg.food.spawnRate) ? this.stochasticCount(rate) : Math.ceil(Math.max(0, rate));
+    for (let i = 0; i < count; i++) {
       if (this.food.size >= cfg.food.maxCount) break;
-      this.spawnFood(this.findClearPosition(cfg.food.radius));
+      if (field) {
+        this.spawnFieldFood(() => field.samplePosition(this.rng));
+      } else {
+        this.spawnUniformFood();
+      }
+    }
+
+    if (!field) return;
+    for (const biome of field.biomes) {
+      const biomeCount = this.stochasticCount(resolveConfigValue(biome.spawnRate, this.worldVars));
+      for (let i = 0; i < biomeCount; i++) {
+        if (this.food.size >= cfg.food.maxCount) return;
+        this.spawnFieldFood(() => field.sampleInBiome(biome, this.rng));
+      }
+    }
+  }
+
+  /**
+   * Spawn one food item through the food field: the sampled position must
+   * pass a fertility check, and biome nutrition overrides the default.
+   */
+  private spawnFieldFood(sample: () => Vec2): void {
+    const field = this.foodField!;
+    const pos = this.findClearPosition(this.config.food.radius, sample);
+    const fertility = this.fertilityAt(pos);
+    if (fertility < 1 && !this.rng.chance(fertility)) return;
+
+    const biome = field.biomeAt(pos);
+    if (biome?.nutrition === undefined) {
+      this.spawnFood(pos);
+      return;
     }
+    const id = this.spawnFood(pos, resolveConfigValue(biome.nutrition, this.worldVars));
+    this.food.get(id)!.state.biomeNutrition = true;
+  }
+
+  /** Spawn one food item at a uniformly random clear spot (subject to terrain fertility). */
+  private spawnUniformFood(): void {
+    const pos = this.findClearPosition(this.config.food.radius);
+    const fertility = this.fertilityAt(pos);
+    if (fertility < 1 && !this.rng.chance(fertility)) return;
+    this.spawnFood(pos);
+  }
+
+  /** Combined food-field and terrain fertility at a position (1 = always fertile). */
+  private fertilityAt(pos: Vec2): number {
+    return (this.foodField?.fertilityAt(pos) ?? 1) * (this.terrain?.typeAt(pos).fertility ?? 1);
+  }
+
+  // ============================================================
+  // Plants
+  // ============================================================
+
+  /**
+   * Grow every plant, then let mature ones seed. A seedling lands within
+   * `seedRadius` of its parent and must pass the fertility check and not
+   * overlap an obstacle or another plant; the parent pays `initialNutrition`.
+   */
+  private stepPlants(): void {
+    const cfg = this.config.plants;
+    if (!cfg) return;
+
+    const parents: PlantState[] = [];
+    for (const [, plant] of this.plants) {
+      const p = plant.state;
+      p.age++;
+      const growth = resolveConfigValue(cfg.growthRate, plantCtx(p, this.worldVars));
+      p.nutrition = Math.max(0, Math.min(cfg.maxNutrition, p.nutrition + growth));
+      if (p.nutrition >= cfg.seedThreshold) parents.push(p);
+    }
+
+    for (const p of parents) {
+      if (this.plants.size >= cfg.maxCount) break;
+      if (!this.rng.chance(cfg.seedChance)) continue;
+
+      const angle = this.rng.range(0, Math.PI * 2);
+      const dist = this.rng.range(cfg.radius * 2, Math.max(cfg.radius * 2, cfg.seedRadius));
+      const pos: Vec2 = {
+        x: p.position.x + Math.cos(angle) * dist,
+        y: p.position.y + Math.sin(angle) * dist,
+      };
+      this.topology.confine(pos);
+
+      const fertility = this.fertilityAt(pos);
+      if (fertility < 1 && !this.rng.chance(fertility)) continue;
+      if (this.overlapsObstacle(pos, cfg.radius) || this.overlapsPlant(pos, cfg.radius)) continue;
+
+      p.nutrition -= cfg.initialNutrition;
+      const id = this.spawnPlant(pos, cfg.initialNutrition, p.id);
+      this.plantHash.insert(this.plants.get(id)!.state);
+    }
+  }
+
+  private overlapsPlant(pos: Vec2, radius: number): boolean {
+    const plantRadius = this.config.plants?.radius ?? 0;
+    const nearby = this.plantHash.queryRadius(pos, radius + plantRadius);
+    for (const p of nearby) {
+      if (!this.plants.has(p.id)) continue;
+      if (this.topology.circlesOverlap(pos, radius, p.position, plantRadius)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Integer count from a fractional rate: the fractional part spawns with matching probability. */
+  private stochasticCount(rate: number): number {
+    const r = Math.max(0, rate);
+    const whole = Math.floor(r);
+    return whole + (r > whole && this.rng.chance(r - whole) ? 1 : 0);
   }
 
   // ============================================================
@@ -921,7 +2053,17 @@ export class World {
 
     const obstacles: ObstacleState[] = [];
     for (const [, o] of this.obstacles) {
-      obstacles.push({ ...o.state });
+      obstacles.push(cloneObstacle(o.state));
+    }
+
+    const plants: PlantState[] = [];
+    for (const [, p] of this.plants) {
+      plants.push({ ...p.state, position: { ...p.state.position } });
+    }
+
+    const eggs: EggState[] = [];
+    for (const [, e] of this.eggs) {
+      eggs.push({ ...e.state, position: { ...e.state.position } });
     }
 
     return {
@@ -929,10 +2071,14 @@ export class World {
       creatures,
       food,
       obstacles,
+      plants,
+      eggs,
       config: this.config,
       prngState: this.rng.getState(),
       nextEntityId: this.nextEntityId,
       innovationCounter: getInnovationCounter(),
+      foodField: this.foodField?.getState(),
+      pheromones: this.pheromones?.getState(),
     };
   }
 
@@ -940,6 +2086,8 @@ export class World {
     // Clear existing world
     this.creatures.clear();
     this.food.clear();
+    this.plants.clear();
+    this.eggs.clear();
     this.obstacles.clear();
 
     this.config = snapshot.config;
@@ -947,34 +2095,55 @@ export class World {
     this.nextEntityId = snapshot.nextEntityId;
     this.rng.setState(snapshot.prngState);
     resetInnovationCounter(snapshot.innovationCounter);
+    this.refreshWorldVars();
+    this.rebuildTopology();
+    this.rebuildSpatialHashes();
+    this.rebuildFoodField();
+    if (this.foodField && snapshot.foodField) {
+      this.foodField.setState(snapshot.foodField);
+    }
+    this.rebuildPheromones();
+    this.rebuildTerrain();
+    if (this.pheromones && snapshot.pheromones) {
+      this.pheromones.setState(snapshot.pheromones);
+    }
 
     // Recreate obstacles
     if (snapshot.obstacles) {
       for (const o of snapshot.obstacles) {
-        this.obstacles.set(o.id, { state: { ...o } });
+        this.obstacles.set(o.id, { state: cloneObstacle(o) });
       }
     }
     this.rebuildObstacleHash();
 
-    // Recreate food
+    // Recreate food, plants, eggs and creatures under their saved ids (no events:
+    // nothing is born or spawned, and parent/mate/holding references stay valid)
     for (const f of snapshot.food) {
-      this.spawnFood(f.position, f.nutrition);
+      this.food.set(f.id, { state: { ...f, position: { ...f.position } } });
+    }
+    for (const p of snapshot.plants ?? []) {
+      this.plants.set(p.id, { state: { ...p, position: { ...p.position } } });
+    }
+    for (const e of snapshot.eggs ?? []) {
+      this.eggs.set(e.id, { state: { ...e, position: { ...e.position } } });
     }
-
-    // Recreate creatures
     for (const c of snapshot.creatures) {
-      this.spawnCreature(c.dna, c.position, c.angle, c.energy);
-      // Restore state fields
-      const internal = this.creatures.get(c.id);
-      if (internal) {
-        internal.state.age = c.age;
-        internal.state.attackCooldown = c.attackCooldown;
-        internal.state.reproductionCooldown = c.reproductionCooldown;
-        // Restore Hebbian-modified runtime weights
-        if (c.runtimeWeights) {
-          importWeights(internal.brainRuntime, c.runtimeWeights);
-        }
+      const { runtimeWeights, ...saved } = c;
+      // Start from a newborn so fields missing from older snapshots get their defaults
+      const state: CreatureState = {
+        ...this.newCreatureState(c.id, c.dna, c.position, c.angle, c.energy),
+        ...saved,
+        position: { ...c.position },
+        infections: (c.infections ?? []).map(inf => ({ ...inf })),
+        immunities: (c.immunities ?? []).map(imm => ({ ...imm })),
+        holding: c.holding ? { ...c.holding } : null,
+      };
+      const brainRuntime = buildBrainRuntime(c.dna.brain);
+      // Restore Hebbian-modified runtime weights
+      if (runtimeWeights) {
+        importWeights(brainRuntime, runtimeWeights);
       }
+      this.creatures.set(c.id, { state, brainRuntime, lastEnergy: c.energy, damageTaken: 0 });
     }
 
     // Rebuild spatial hashes after loading
@@ -993,11 +2162,44 @@ export class World {
     return Array.from(this.food.values()).map(f => f.state);
   }
 
+  getPlantStates(): PlantState[] {
+    return Array.from(this.plants.values()).map(p => p.state);
+  }
+
+  /** Terrain grid, or null when terrain is disabled. */
+  getTerrainGrid(): TerrainGrid | null {
+    return this.terrain;
+  }
+
+  getEggStates(): EggState[] {
+    return Array.from(this.eggs.values()).map(e => e.state);
+  }
+
   getObstacleStates(): ObstacleState[] {
     return Array.from(this.obstacles.values()).map(o => o.state);
   }
 
+  /** Food-field state (hotspot centers + fertility grid), or null if disabled. */
+  getFoodFieldState(): FoodFieldState | null {
+    return this.foodField?.getState() ?? null;
+  }
+
+  getPheromoneState(): PheromoneGridState | null {
+    return this.pheromones?.getState() ?? null;
+  }
+
+  /** Live pheromone grid (read-only use, e.g. per-frame rendering). */
+  getPheromoneGrid(): PheromoneGrid | null {
+    return this.pheromones;
+  }
+
   getCreatureById(id: number): CreatureState | undefined {
     return this.creatures.get(id)?.state;
   }
+
+  /** Current (Hebbian-modified) brain weights of a creature, in connection-gene order. */
+  getRuntimeWeights(id: number): number[] | undefined {
+    const creature = this.creatures.get(id);
+    return creature ? exportWeights(creature.brainRuntime) : undefined;
+  }
 }